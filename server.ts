@@ -3,183 +3,2161 @@ import { createServer as createViteServer } from "vite";
 import Database from "better-sqlite3";
 import path from "path";
 import cookieParser from "cookie-parser";
+import crypto from "crypto";
+import { runMigrations } from "./server/migrations";
+import { seedDemoData } from "./server/seed";
+import { hashPassword, verifyPassword } from "./server/passwords";
+import { IMPORT_FIELDS, parseSpreadsheet, planGradeImport, planStudentImport, suggestMapping, type ImportKind } from "./server/imports";
+import { buildAttendanceRecap, MONTH_PATTERN, recapToCsv, recapToXlsx } from "./server/recap";
+import { buildReportCard, getSchoolSettings, renderReportsHtml, renderReportsPdf, type ReportCard } from "./server/reports";
+import { listAudit, recordAudit, type AuditEntry } from "./server/audit";
+import { ALERT_STATUSES, evaluateAllAlerts, evaluateStudentAlerts, listAlerts } from "./server/alerts";
+import { applySanctions, behaviorPoints, FOLLOWUP_STATUSES, listFollowups, type FollowupStatus } from "./server/behavior";
+import { daysOff, eachDay, listCalendar, schoolDaysBetween } from "./server/calendar";
+import { idempotent, pruneIdempotencyKeys } from "./server/idempotency";
+import { checkNote, listAbsenceRequests, notePath, notesDirFromEnv, removeNote, saveNote } from "./server/absences";
+import { createSchool, ensureFoundationAccount, listSchoolStats } from "./server/schools";
+import { backupConfigFromEnv, checkSnapshot, listSnapshots, restoreSnapshot, runDailySnapshot, snapshotPath, takeSnapshot } from "./server/backups";
+import { canGrade, canManageClass, canSeeClass, isAdmin, isFoundation, isStaff, managedClassIds, visibleClassIds, type TeacherScope, type TeachingAssignment } from "./src/permissions";
+import { annotateGrades, computeFinalScores, DEFAULT_KKM, getKkm, getWeights } from "./server/grading";
+import { cancelNotification, NOTIFICATION_EVENTS, processOutbox, queueNotification, transportFromEnv } from "./server/notifications";
+import {
+  ABSENCE_REQUEST_STATUSES, absenceDecisionSchema, absenceRequestSchema, academicYearSchema, alertRuleSchema, auditQuerySchema, attendanceBatchSchema, attendanceSchema, attendanceUpdateSchema, behaviorCategorySchema,
+  behaviorSchema, behaviorUpdateSchema, calendarEntrySchema, classSchema, dateRangeQuerySchema, followupCompleteSchema,
+  gradeSchema, gradeUpdateSchema, importSchema, loginSchema, notificationTemplateSchema, parentLinkSchema, passwordChangeSchema,
+  passwordResetSchema, rollQuerySchema, sanctionThresholdSchema, schoolSchema, settingsSchema, staffUserSchema, studentSchema, subjectGradingSchema, subjectSchema, termSchema,
+  termUpdateSchema, validate, type AbsenceRequestStatus, type AlertStatus, type ApiError, type NotificationEvent, type BackupSnapshot, type BehaviorCategory, type FieldErrors, type Schema, type SchoolStats,
+} from "./src/schemas";
 
 const db = new Database("school.db");
 
-// Initialize Database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    username TEXT UNIQUE NOT NULL,
-    password TEXT NOT NULL,
-    role TEXT NOT NULL, -- teacher, student
-    student_id INTEGER, -- NULL for teachers
-    FOREIGN KEY (student_id) REFERENCES students(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS students (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT NOT NULL,
-    class TEXT NOT NULL,
-    parent_name TEXT,
-    phone TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS attendance (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    student_id INTEGER,
-    date TEXT NOT NULL,
-    status TEXT NOT NULL, -- present, absent, late, sick
-    FOREIGN KEY (student_id) REFERENCES students(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS grades (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    student_id INTEGER,
-    subject TEXT NOT NULL,
-    score REAL,
-    date TEXT NOT NULL,
-    FOREIGN KEY (student_id) REFERENCES students(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS behavior (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    student_id INTEGER,
-    type TEXT NOT NULL, -- positive, negative
-    description TEXT,
-    date TEXT NOT NULL,
-    FOREIGN KEY (student_id) REFERENCES students(id)
-  );
+runMigrations(db);
+
+// Demo accounts and students are seeded in development; set SEED_DEMO_DATA to override
+const seedDemo = process.env.SEED_DEMO_DATA
+  ? process.env.SEED_DEMO_DATA === 'true'
+  : process.env.NODE_ENV !== 'production';
+if (seedDemo) seedDemoData(db);
+ensureFoundationAccount(db);
+
+db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(new Date().toISOString());
+pruneIdempotencyKeys(db);
+setInterval(() => pruneIdempotencyKeys(db), 24 * 60 * 60 * 1000);
+
+// Rules with a look-back window change outcome as days pass, not only when data is written
+evaluateAllAlerts(db);
+setInterval(() => evaluateAllAlerts(db), 60 * 60 * 1000);
+
+// Parent notifications are sent from the outbox in the background; a slow gateway never blocks a request
+const notificationTransport = transportFromEnv();
+let sendingNotifications = false;
+setInterval(async () => {
+  if (sendingNotifications) return;
+  sendingNotifications = true;
+  try {
+    await processOutbox(db, notificationTransport);
+  } catch (error) {
+    console.error('Sending notifications failed:', error);
+  } finally {
+    sendingNotifications = false;
+  }
+}, 15 * 1000);
+
+// Snapshots of school.db for when a bad import or a broken disk has to be undone, see server/backups.ts.
+// Restores copy over this same file while db stays open, so nothing else has to know when one happens.
+const backupConfig = backupConfigFromEnv();
+let backupBusy = false;
+const dailySnapshot = async () => {
+  if (backupBusy) return;
+  backupBusy = true;
+  try {
+    await runDailySnapshot(db, backupConfig);
+  } catch (error) {
+    console.error('Daily snapshot failed:', error);
+  } finally {
+    backupBusy = false;
+  }
+};
+dailySnapshot();
+setInterval(dailySnapshot, 60 * 60 * 1000);
+
+const NOT_YOUR_SUBJECT = "Anda tidak mengajar mata pelajaran ini di kelas siswa";
+
+const ATTENDANCE_STATUS_LABELS: Record<string, string> = { present: 'Hadir', late: 'Terlambat', sick: 'Sakit', excused: 'Izin', absent: 'Alpa' };
+
+const notesDir = notesDirFromEnv();
+
+// How far back a family can still report an absence, e.g. a sick day with the doctor's note brought in later
+const ABSENCE_BACKDATE_DAYS = 7;
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SESSION_COOKIE = "session";
+
+// A session is bound to the school of the account when it signed in; see getSessionUser
+const createSession = (userId: number, schoolId: number | null) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const now = Date.now();
+  db.prepare("INSERT INTO sessions (token, user_id, school_id, created_at, expires_at) VALUES (?, ?, ?, ?, ?)")
+    .run(token, userId, schoolId, new Date(now).toISOString(), new Date(now + SESSION_TTL_MS).toISOString());
+  return token;
+};
+
+const studentClassId = (id: unknown) =>
+  (db.prepare("SELECT class_id FROM students WHERE id = ?").get(id) as { class_id: number | null } | undefined)?.class_id ?? null;
+
+// The classes a teacher is wali kelas of and the subjects they teach where; see src/permissions.ts
+const loadScope = (userId: number): TeacherScope => ({
+  homeroom_class_ids: (db.prepare("SELECT id FROM classes WHERE homeroom_teacher_id = ? ORDER BY id").all(userId) as { id: number }[]).map(c => c.id),
+  assignments: db.prepare("SELECT subject_id, class_id FROM teaching_assignments WHERE user_id = ? ORDER BY class_id, subject_id").all(userId) as TeachingAssignment[],
+});
+
+const studentInSchool = (id: unknown, schoolId: number | null) =>
+  !!db.prepare("SELECT 1 FROM students WHERE id = ? AND school_id = ?").get(id, schoolId);
+
+// Nobody sees students of another school. Within the school, staff see the students of the classes they are
+// assigned to, students only themselves, parents only their linked children.
+const canViewStudent = (user: any, studentId: number) => {
+  if (!studentInSchool(studentId, user.school_id)) return false;
+  if (isStaff(user)) return canSeeClass(user, studentClassId(studentId));
+  if (user.role === 'student') return user.student_id === studentId;
+  if (user.role === 'parent') {
+    return !!db.prepare("SELECT 1 FROM parent_students WHERE user_id = ? AND student_id = ?").get(user.id, studentId);
+  }
+  return false;
+};
+
+const toAuthUser = (user: any) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  full_name: user.full_name,
+  student_id: user.student_id,
+  school_id: user.school_id,
+  school: user.school_id ? db.prepare("SELECT id, name FROM schools WHERE id = ?").get(user.school_id) : null,
+  scope: user.role === 'teacher' ? loadScope(user.id) : undefined,
+  children: user.role === 'parent'
+    ? db.prepare(`
+        SELECT s.id, s.name, c.name as class FROM parent_students ps
+        JOIN students s ON s.id = ps.student_id
+        LEFT JOIN classes c ON c.id = s.class_id
+        WHERE ps.user_id = ? AND s.archived_at IS NULL ORDER BY s.name
+      `).all(user.id)
+    : undefined,
+});
+
+// Students are always returned with their class name alongside class_id
+const STUDENT_SELECT = "SELECT s.*, c.name as class FROM students s LEFT JOIN classes c ON c.id = s.class_id";
+
+// Sortable columns of the student list; the name breaks ties so pages stay stable
+const STUDENT_SORTS: Record<string, string> = {
+  name: "s.name",
+  class: "c.name",
+  parent: "s.parent_name",
+  created: "s.id",
+};
+
+// Every validation failure answers the same way: the first message for simple clients, plus one per field for forms
+const sendInvalid = (res: express.Response, errors: FieldErrors) =>
+  res.status(400).json({ message: Object.values(errors)[0], errors } satisfies ApiError);
+
+// Validates a request body (or query) against its shared schema; null means the 400 has already been sent
+const parseBody = <T>(res: express.Response, schema: Schema<T>, body: unknown): T | null => {
+  const result = validate(schema, body);
+  if ('value' in result) return result.value;
+  sendInvalid(res, result.errors);
+  return null;
+};
+
+const staffAccount = (id: number, schoolId: number) =>
+  db.prepare("SELECT * FROM users WHERE id = ? AND school_id = ? AND role IN ('admin', 'teacher')").get(id, schoolId) as { id: number; username: string; full_name: string | null } | undefined;
+
+// The rapor prints the typed name, falling back to the name on the wali kelas account
+const homeroomName = (body: { homeroom_teacher: string | null; homeroom_teacher_id: number | null }, schoolId: number) =>
+  body.homeroom_teacher ?? (body.homeroom_teacher_id ? staffAccount(body.homeroom_teacher_id, schoolId)?.full_name ?? null : null);
+
+// How rows of each table reach their school. Tables not listed carry school_id themselves.
+const SCHOOL_OF: Record<string, string> = {
+  terms: "(SELECT school_id FROM academic_years WHERE id = t.academic_year_id)",
+  alerts: "(SELECT school_id FROM students WHERE id = t.student_id)",
+  behavior_followups: "(SELECT school_id FROM students WHERE id = t.student_id)",
+  notification_outbox: "(SELECT school_id FROM students WHERE id = t.student_id)",
+};
+
+// A row by id, but only when it belongs to the given school; another school's row reads as missing.
+// `table` is always a literal from route code.
+const schoolRow = (table: string, id: unknown, schoolId: number | null) =>
+  db.prepare(`SELECT t.* FROM ${table} t WHERE t.id = ? AND ${SCHOOL_OF[table] ?? 't.school_id'} = ?`).get(id, schoolId) as any ?? null;
+
+// For the reference checks the schemas can't do themselves
+const exists = (table: string, id: number, schoolId: number) => !!schoolRow(table, id, schoolId);
+
+// Assessment types (UH, UTS, UAS...) are the same for every school
+const assessmentTypeExists = (id: number) => !!db.prepare("SELECT 1 FROM assessment_types WHERE id = ?").get(id);
+
+// Field errors for assignments pointing at a missing subject or class, or null when all exist
+const unknownAssignments = (assignments: TeachingAssignment[], schoolId: number) => failedChecks(Object.fromEntries(assignments.flatMap((a, i) => [
+  [`assignments.${i}.subject_id`, !exists('subjects', a.subject_id, schoolId) && "Mata pelajaran tidak ditemukan"],
+  [`assignments.${i}.class_id`, !exists('classes', a.class_id, schoolId) && "Kelas tidak ditemukan"],
+])));
+
+const saveAssignments = (userId: number, assignments: TeachingAssignment[]) => {
+  db.prepare("DELETE FROM teaching_assignments WHERE user_id = ?").run(userId);
+  const insert = db.prepare("INSERT OR IGNORE INTO teaching_assignments (user_id, subject_id, class_id) VALUES (?, ?, ?)");
+  for (const a of assignments) insert.run(userId, a.subject_id, a.class_id);
+};
+
+// A staff account as listed and audited; never includes the password hash
+const staffSnapshot = (id: unknown, schoolId: number) => {
+  const account = db.prepare("SELECT id, username, full_name, role FROM users WHERE id = ? AND school_id = ? AND role IN ('admin', 'teacher')").get(id, schoolId) as any;
+  return account ? { ...account, ...loadScope(account.id) } : null;
+};
+
+const activeStudent = (id: number, schoolId: number) =>
+  !!db.prepare("SELECT 1 FROM students WHERE id = ? AND school_id = ? AND archived_at IS NULL").get(id, schoolId);
+
+// Keeps the failed checks of { field: message-if-failed } as field errors, or null when all passed
+const failedChecks = (checks: Record<string, string | false>): FieldErrors | null => {
+  const errors = Object.fromEntries(Object.entries(checks).filter((entry): entry is [string, string] => entry[1] !== false));
+  return Object.keys(errors).length > 0 ? errors : null;
+};
+
+// Who may edit, delete or restore a student's attendance, grades and behavior notes: attendance belongs to the
+// wali kelas, a grade to whoever teaches its subject in the student's class, notes to any teacher of the student
+const canEditRecords = (user: any, table: string, row: { student_id: number; subject_id?: number }) => {
+  if (!studentInSchool(row.student_id, user.school_id)) return false;
+  const classId = studentClassId(row.student_id);
+  if (table === 'attendance') return canManageClass(user, classId);
+  if (table === 'grades') return canGrade(user, classId, row.subject_id!);
+  return isStaff(user) && canSeeClass(user, classId);
+};
+
+// The term of the student's school a date falls in, resolved inside the insert so callers only pass the date
+const termForDate = (studentId: string, date: string) => `(
+  SELECT t.id FROM terms t JOIN academic_years y ON y.id = t.academic_year_id
+  WHERE y.school_id = (SELECT school_id FROM students WHERE id = ${studentId}) AND ${date} BETWEEN t.start_date AND t.end_date
+  ORDER BY t.start_date LIMIT 1
+)`;
+
+const TERM_FOR_DATE = termForDate('@student_id', '@date');
+
+// The student's school is copied onto every record so per-school figures don't need the join
+const STUDENT_SCHOOL = "(SELECT school_id FROM students WHERE id = @student_id)";
+
+// Records the student's current class with the row so later class moves don't rewrite history
+const upsertAttendance = db.prepare(`
+  INSERT INTO attendance (student_id, date, status, class_id, term_id, school_id)
+  VALUES (@student_id, @date, @status, (SELECT class_id FROM students WHERE id = @student_id), ${TERM_FOR_DATE}, ${STUDENT_SCHOOL})
+  ON CONFLICT(student_id, date) DO UPDATE SET
+    status = excluded.status, class_id = excluded.class_id, term_id = excluded.term_id, deleted_at = NULL
 `);
 
-// Seed data if empty
-const studentCount = db.prepare("SELECT COUNT(*) as count FROM students").get() as { count: number };
-if (studentCount.count === 0) {
-  const insertStudent = db.prepare("INSERT INTO students (name, class, parent_name, phone) VALUES (?, ?, ?, ?)");
-  insertStudent.run("Ahmad Fauzi", "10-A", "Budi Santoso", "08123456789");
-  insertStudent.run("Siti Aminah", "10-A", "Hasan Basri", "08123456780");
-  insertStudent.run("Budi Pratama", "10-B", "Agus Setiawan", "08123456781");
-  insertStudent.run("Dewi Lestari", "11-A", "Eko Prasetyo", "08123456782");
-}
+const findAttendance = db.prepare("SELECT * FROM attendance WHERE student_id = ? AND date = ?");
 
-const userCount = db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number };
-if (userCount.count === 0) {
-  // Seed Users
-  const insertUser = db.prepare("INSERT INTO users (username, password, role, student_id) VALUES (?, ?, ?, ?)");
-  insertUser.run("guru", "guru123", "teacher", null);
-  insertUser.run("ahmad", "siswa123", "student", 1);
-  insertUser.run("siti", "siswa123", "student", 2);
-}
+const audit = (user: any, entry: AuditEntry, at?: string) => recordAudit(db, user, entry, at);
+
+// Current row for audit snapshots; table names always come from route code, never from the request
+const snapshot = (table: string, id: unknown) => db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id) ?? null;
+
+const studentName = (id: unknown) => (db.prepare("SELECT name FROM students WHERE id = ?").get(id) as { name: string } | undefined)?.name ?? `#${id}`;
+
+// Upserts one attendance row and logs the change; re-saving the same status is not logged.
+// A soft-deleted row for the same day is revived rather than duplicated.
+const saveAttendance = (user: any, student_id: number, date: string, status: string, at?: string) => {
+  const existing = findAttendance.get(student_id, date) as any;
+  const before = existing && !existing.deleted_at ? existing : null;
+  upsertAttendance.run({ student_id, date, status });
+  if (before?.status === status) return;
+  const after = findAttendance.get(student_id, date) as any;
+  audit(user, {
+    action: before ? 'update' : 'create',
+    entity: 'attendance',
+    entity_id: after.id,
+    before: before ?? null,
+    after,
+    summary: `Absensi ${studentName(student_id)} ${date}: ${ATTENDANCE_STATUS_LABELS[status]}`,
+  }, at);
+  evaluateStudentAlerts(db, student_id);
+  if (status === 'absent' && date === daysAgo(0)) queueNotification(db, 'absent_today', student_id, date, { tanggal: date });
+  else if (before?.status === 'absent') cancelNotification(db, 'absent_today', student_id, date);
+};
+
+// Attendance, grades and behavior share the soft delete and restore routes
+const RECORD_TYPES: Record<string, { table: string; entity: string; notification: NotificationEvent; describe: (row: any) => string }> = {
+  attendance: { table: 'attendance', entity: 'attendance', notification: 'absent_today', describe: (row) => `absensi ${studentName(row.student_id)} ${row.date}` },
+  grades: {
+    table: 'grades',
+    entity: 'grade',
+    notification: 'new_grade',
+    describe: (row) => {
+      const subject = db.prepare("SELECT name FROM subjects WHERE id = ?").get(row.subject_id) as { name: string } | undefined;
+      return `nilai ${subject?.name ?? ''} ${studentName(row.student_id)} ${row.date}`;
+    },
+  },
+  behavior: { table: 'behavior', entity: 'behavior', notification: 'negative_behavior', describe: (row) => `catatan perilaku ${studentName(row.student_id)} ${row.date}` },
+};
+
+// The term that started most recently, so the weeks between two terms still show the last one
+const currentTermId = (schoolId: number) =>
+  (db.prepare(`
+    SELECT t.id FROM terms t JOIN academic_years y ON y.id = t.academic_year_id
+    WHERE y.school_id = ? AND t.start_date <= ? ORDER BY t.start_date DESC LIMIT 1
+  `).get(schoolId, daysAgo(0)) as { id: number } | undefined)?.id ?? null;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+type Period = { from: string; to: string };
+
+// The last `days` days up to today, and the same-length window right before it
+const periods = (days: number): { current: Period; previous: Period } => ({
+  current: { from: daysAgo(days - 1), to: daysAgo(0) },
+  previous: { from: daysAgo(2 * days - 1), to: daysAgo(days) },
+});
+
+// The dashboard measures below cover one school: the given classes, or all of it for null
+const IN_CLASSES = "s.school_id = @school AND (@classes IS NULL OR s.class_id IN (SELECT value FROM json_each(@classes)))";
+
+const classFilter = (classIds: number[] | null) => classIds ? JSON.stringify(classIds) : null;
+
+type Scope = { school: number; classIds: number[] | null };
+
+const classParams = (period: Period, scope: Scope) => ({ ...period, school: scope.school, classes: classFilter(scope.classIds) });
+
+// Percentage of attendance records that were present or late; null when nothing was recorded
+const attendanceRate = (period: Period, scope: Scope) => {
+  const row = db.prepare(`
+    SELECT SUM(a.status IN ('present', 'late')) as attended, COUNT(*) as total
+    FROM attendance a JOIN students s ON s.id = a.student_id
+    WHERE a.date BETWEEN @from AND @to AND a.deleted_at IS NULL AND s.archived_at IS NULL AND ${IN_CLASSES}
+  `).get(classParams(period, scope)) as { attended: number; total: number };
+  return row.total > 0 ? Math.round((row.attended / row.total) * 1000) / 10 : null;
+};
+
+const averageScore = (period: Period, scope: Scope) => {
+  const row = db.prepare(`
+    SELECT ROUND(AVG(g.score), 1) as average
+    FROM grades g JOIN students s ON s.id = g.student_id
+    WHERE g.date BETWEEN @from AND @to AND g.deleted_at IS NULL AND s.archived_at IS NULL AND ${IN_CLASSES}
+  `).get(classParams(period, scope)) as { average: number | null };
+  return row.average;
+};
+
+const negativeNotes = (period: Period, scope: Scope) => {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM behavior b JOIN students s ON s.id = b.student_id
+    WHERE b.type = 'negative' AND b.date BETWEEN @from AND @to AND b.deleted_at IS NULL AND s.archived_at IS NULL AND ${IN_CLASSES}
+  `).get(classParams(period, scope)) as { count: number };
+  return row.count;
+};
+
+const compare = <T>(days: number, measure: (period: Period) => T) => {
+  const { current, previous } = periods(days);
+  return { current: measure(current), previous: measure(previous) };
+};
+
+const sendReports = (res: express.Response, schoolId: number, reports: ReportCard[], format: unknown, name: string) => {
+  if (format === 'json') return res.json(reports);
+  const filename = name.replace(/[^A-Za-z0-9_-]+/g, '-');
+  if (format === 'pdf') {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+    renderReportsPdf(reports, getSchoolSettings(db, schoolId)).pipe(res);
+    return;
+  }
+  res.type('html').send(renderReportsHtml(reports, getSchoolSettings(db, schoolId)));
+};
 
 async function startServer() {
   const app = express();
-  const PORT = 3000;
+  const PORT = Number(process.env.PORT) || 3000;
 
-  app.use(express.json());
+  // Large enough for base64-encoded spreadsheet imports
+  app.use(express.json({ limit: '10mb' }));
   app.use(cookieParser());
 
-  // Auth Middleware (Simple)
+  // Auth Middleware: resolve the session token cookie to its user
   const getSessionUser = (req: express.Request) => {
-    const userId = req.cookies.userId;
-    if (!userId) return null;
-    return db.prepare("SELECT * FROM users WHERE id = ?").get(userId) as any;
+    const token = req.cookies[SESSION_COOKIE];
+    if (!token) return null;
+    // A session only holds while the account is still in the school it signed in to
+    const user = db.prepare(`
+      SELECT u.* FROM sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.token = ? AND s.expires_at > ? AND s.school_id IS u.school_id
+    `).get(token, new Date().toISOString()) as any;
+    return user ? { ...user, scope: user.role === 'teacher' ? loadScope(user.id) : null } : null;
   };
 
+  // For the record writes the client may queue offline and send again later
+  const idempotentWrite = idempotent(db, getSessionUser);
+
   // API Routes
   app.post("/api/login", (req, res) => {
-    const { username, password } = req.body;
-    const user = db.prepare("SELECT * FROM users WHERE username = ? AND password = ?").get(username, password) as any;
-    
+    const body = parseBody(res, loginSchema, req.body);
+    if (!body) return;
+    const found = db.prepare("SELECT * FROM users WHERE username = ?").get(body.username) as any;
+    const user = found && verifyPassword(body.password, found.password) ? found : null;
+
     if (user) {
-      res.cookie("userId", user.id, { httpOnly: true, sameSite: 'none', secure: true });
-      res.json({ success: true, user: { id: user.id, username: user.username, role: user.role, student_id: user.student_id } });
+      if (user.student_id) {
+        const student = db.prepare("SELECT archived_at FROM students WHERE id = ?").get(user.student_id) as any;
+        if (student?.archived_at) return res.status(403).json({ success: false, message: "Akun siswa sudah diarsipkan" });
+      }
+      const token = createSession(user.id, user.school_id);
+      res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'none', secure: true, maxAge: SESSION_TTL_MS });
+      res.json({ success: true, user: toAuthUser(user) });
     } else {
       res.status(401).json({ success: false, message: "Username atau password salah" });
     }
   });
 
   app.post("/api/logout", (req, res) => {
-    res.clearCookie("userId");
+    const token = req.cookies[SESSION_COOKIE];
+    if (token) db.prepare("DELETE FROM sessions WHERE token = ?").run(token);
+    res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: 'none', secure: true });
     res.json({ success: true });
   });
 
   app.get("/api/me", (req, res) => {
     const user = getSessionUser(req);
     if (user) {
-      res.json({ id: user.id, username: user.username, role: user.role, student_id: user.student_id });
+      res.json(toAuthUser(user));
     } else {
       res.status(401).json({ message: "Not authenticated" });
     }
   });
 
+  app.post("/api/me/password", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    const body = parseBody(res, passwordChangeSchema, req.body);
+    if (!body) return;
+    if (!verifyPassword(body.current_password, user.password)) return sendInvalid(res, { current_password: "Password lama salah" });
+    const { new_password } = body;
+
+    // Sign out every other session of this user
+    db.transaction(() => {
+      db.prepare("UPDATE users SET password = ? WHERE id = ?").run(hashPassword(new_password), user.id);
+      db.prepare("DELETE FROM sessions WHERE user_id = ? AND token != ?").run(user.id, req.cookies[SESSION_COOKIE]);
+      audit(user, { action: 'password', entity: 'user', entity_id: user.id, summary: "Mengganti password sendiri" });
+    })();
+    res.json({ success: true });
+  });
+
+  app.post("/api/users/:id/reset-password", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const target = db.prepare("SELECT id, username FROM users WHERE id = ? AND school_id = ?").get(req.params.id, user.school_id) as any;
+    if (!target) return res.status(404).json({ message: "Akun tidak ditemukan" });
+
+    const body = parseBody(res, passwordResetSchema, req.body);
+    if (!body) return;
+
+    db.transaction(() => {
+      db.prepare("UPDATE users SET password = ? WHERE id = ?").run(hashPassword(body.new_password), req.params.id);
+      db.prepare("DELETE FROM sessions WHERE user_id = ?").run(req.params.id);
+      audit(user, { action: 'password', entity: 'user', entity_id: target.id, summary: `Mereset password akun ${target.username}` });
+    })();
+    res.json({ success: true });
+  });
+
+  // Staff accounts with their assignments; student and parent accounts are made from the student page
+  app.get("/api/users", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const ids = db.prepare("SELECT id FROM users WHERE school_id = ? AND role IN ('admin', 'teacher') ORDER BY role, COALESCE(full_name, username)")
+      .all(user.school_id) as { id: number }[];
+    res.json(ids.map(u => staffSnapshot(u.id, user.school_id)));
+  });
+
+  app.post("/api/users", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, staffUserSchema, req.body);
+    if (!body) return;
+    if (!body.password) return sendInvalid(res, { password: "Password wajib diisi untuk akun baru" });
+    const unknown = unknownAssignments(body.assignments, user.school_id);
+    if (unknown) return sendInvalid(res, unknown);
+    // Usernames are unique across all schools since the login form doesn't ask for one
+    if (db.prepare("SELECT id FROM users WHERE username = ?").get(body.username)) {
+      return res.status(409).json({ message: "Username sudah digunakan", errors: { username: "Username sudah digunakan" } } satisfies ApiError);
+    }
+
+    const id = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO users (username, password, role, full_name, school_id) VALUES (?, ?, ?, ?, ?)")
+        .run(body.username, hashPassword(body.password!), body.role, body.full_name, user.school_id).lastInsertRowid);
+      saveAssignments(id, body.assignments);
+      audit(user, { action: 'create', entity: 'user', entity_id: id, after: staffSnapshot(id, user.school_id), summary: `Membuat akun ${body.role === 'admin' ? 'admin' : 'guru'} ${body.username}` });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.put("/api/users/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = staffSnapshot(req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Akun tidak ditemukan" });
+
+    const body = parseBody(res, staffUserSchema, req.body);
+    if (!body) return;
+    const unknown = unknownAssignments(body.assignments, user.school_id);
+    if (unknown) return sendInvalid(res, unknown);
+    if (db.prepare("SELECT id FROM users WHERE username = ? AND id != ?").get(body.username, before.id)) {
+      return res.status(409).json({ message: "Username sudah digunakan", errors: { username: "Username sudah digunakan" } } satisfies ApiError);
+    }
+    const admins = (db.prepare("SELECT COUNT(*) as count FROM users WHERE role = 'admin' AND school_id = ?").get(user.school_id) as { count: number }).count;
+    if (before.role === 'admin' && body.role !== 'admin' && admins === 1) {
+      return sendInvalid(res, { role: "Harus ada setidaknya satu admin" });
+    }
+
+    // The password is left alone here; it is changed through reset-password
+    db.transaction(() => {
+      db.prepare("UPDATE users SET username = ?, full_name = ?, role = ? WHERE id = ?").run(body.username, body.full_name, body.role, before.id);
+      saveAssignments(before.id, body.assignments);
+      audit(user, { action: 'update', entity: 'user', entity_id: before.id, before, after: staffSnapshot(before.id, user.school_id), summary: `Mengubah akun ${body.username}` });
+    })();
+    res.json({ success: true });
+  });
+
   app.get("/api/students", (req, res) => {
     const user = getSessionUser(req);
-    if (!user || user.role !== 'teacher') {
+    if (!user || !isStaff(user)) {
       return res.status(403).json({ message: "Forbidden" });
     }
-    const students = db.prepare("SELECT * FROM students").all();
-    res.json(students);
+
+    // q searches name, class and parent name; class_id takes a comma-separated list. Teachers only get the
+    // students of their own classes.
+    const { q, class_id, sort = 'class', order = 'asc', limit, offset } = req.query;
+    const sortColumn = STUDENT_SORTS[String(sort)];
+    if (!sortColumn) return res.status(400).json({ message: "Urutan tidak valid" });
+    if (order !== 'asc' && order !== 'desc') return res.status(400).json({ message: "Arah urutan tidak valid" });
+    const classIds = class_id ? String(class_id).split(',').map(Number) : [];
+    if (classIds.some(id => !Number.isInteger(id))) return res.status(400).json({ message: "Kelas tidak valid" });
+
+    const visible = visibleClassIds(user);
+    const where = `
+      WHERE s.school_id = @school AND s.archived_at IS NULL
+        AND (@q IS NULL OR s.name LIKE @q ESCAPE '\\' OR c.name LIKE @q ESCAPE '\\' OR s.parent_name LIKE @q ESCAPE '\\')
+        ${classIds.length > 0 ? `AND s.class_id IN (${classIds.join(', ')})` : ''}
+        AND (@visible IS NULL OR s.class_id IN (SELECT value FROM json_each(@visible)))
+    `;
+    const params = {
+      school: user.school_id,
+      q: q ? `%${String(q).trim().replace(/[\\%_]/g, '\\$&')}%` : null,
+      visible: visible ? JSON.stringify(visible) : null,
+    };
+    const total = (db.prepare(`SELECT COUNT(*) as count FROM students s LEFT JOIN classes c ON c.id = s.class_id ${where}`).get(params) as { count: number }).count;
+    const students = db.prepare(`
+      ${STUDENT_SELECT} ${where}
+      ORDER BY ${sortColumn} ${order === 'desc' ? 'DESC' : 'ASC'}, s.name, s.id
+      LIMIT @limit OFFSET @offset
+    `).all({ ...params, limit: Math.min(Math.max(Number(limit) || 25, 1), 200), offset: Math.max(Number(offset) || 0, 0) });
+    res.json({ total, students });
+  });
+
+  app.post("/api/students", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const student = parseBody(res, studentSchema, req.body);
+    if (!student) return;
+    if (!exists('classes', student.class_id, user.school_id)) return sendInvalid(res, { class_id: "Kelas tidak ditemukan" });
+    if (!canManageClass(user, student.class_id)) return res.status(403).json({ message: "Forbidden" });
+
+    // Optional login account for the student
+    const { account } = student;
+    if (account && db.prepare("SELECT id FROM users WHERE username = ?").get(account.username)) {
+      return res.status(409).json({ message: "Username sudah digunakan", errors: { 'account.username': "Username sudah digunakan" } } satisfies ApiError);
+    }
+
+    const createStudent = db.transaction(() => {
+      const result = db.prepare("INSERT INTO students (name, class_id, parent_name, phone, notifications_opt_out, school_id) VALUES (?, ?, ?, ?, ?, ?)")
+        .run(student.name, student.class_id, student.parent_name, student.phone, student.notifications_opt_out ? 1 : 0, user.school_id);
+      const studentId = Number(result.lastInsertRowid);
+      audit(user, { action: 'create', entity: 'student', entity_id: studentId, after: snapshot('students', studentId), summary: `Menambahkan siswa ${student.name}` });
+      if (account) {
+        const accountId = Number(db.prepare("INSERT INTO users (username, password, role, student_id, school_id) VALUES (?, ?, 'student', ?, ?)")
+          .run(account.username, hashPassword(account.password), studentId, user.school_id).lastInsertRowid);
+        audit(user, {
+          action: 'create',
+          entity: 'user',
+          entity_id: accountId,
+          after: { id: accountId, username: account.username, role: 'student', student_id: studentId },
+          summary: `Membuat akun siswa ${account.username}`,
+        });
+      }
+      return studentId;
+    });
+    const id = createStudent();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.put("/api/students/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const existing = schoolRow('students', req.params.id, user.school_id);
+    if (!existing) return res.status(404).json({ message: "Siswa tidak ditemukan" });
+    if (!canManageClass(user, existing.class_id)) return res.status(403).json({ message: "Forbidden" });
+
+    const student = parseBody(res, studentSchema, req.body);
+    if (!student) return;
+    if (!exists('classes', student.class_id, user.school_id)) return sendInvalid(res, { class_id: "Kelas tidak ditemukan" });
+    // Moving a student hands them over to the other class, which its own wali kelas has to do
+    if (!canManageClass(user, student.class_id)) return sendInvalid(res, { class_id: "Anda bukan wali kelas dari kelas tujuan" });
+
+    db.transaction(() => {
+      db.prepare("UPDATE students SET name = ?, class_id = ?, parent_name = ?, phone = ?, notifications_opt_out = ? WHERE id = ?")
+        .run(student.name, student.class_id, student.parent_name, student.phone, student.notifications_opt_out ? 1 : 0, req.params.id);
+      audit(user, { action: 'update', entity: 'student', entity_id: Number(req.params.id), before: existing, after: snapshot('students', req.params.id), summary: `Mengubah data siswa ${student.name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  // Archiving keeps attendance, grades and behavior history; the student just leaves lists and stats
+  app.post("/api/students/:id/archive", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    if (!studentInSchool(req.params.id, user.school_id)) return res.status(404).json({ message: "Siswa tidak ditemukan" });
+    if (!canManageClass(user, studentClassId(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    const archived = db.transaction(() => {
+      const before = snapshot('students', req.params.id) as any;
+      const result = db.prepare("UPDATE students SET archived_at = ? WHERE id = ? AND archived_at IS NULL")
+        .run(new Date().toISOString(), req.params.id);
+      if (result.changes === 0) return false;
+      audit(user, { action: 'archive', entity: 'student', entity_id: before.id, before, after: snapshot('students', req.params.id), summary: `Mengarsipkan siswa ${before.name}` });
+      evaluateStudentAlerts(db, before.id);
+      return true;
+    })();
+    if (!archived) return res.status(404).json({ message: "Siswa tidak ditemukan" });
+    res.json({ success: true });
   });
 
   app.get("/api/students/:id", (req, res) => {
     const user = getSessionUser(req);
     if (!user) return res.status(401).json({ message: "Unauthorized" });
 
-    // Students can only see their own data
-    if (user.role === 'student' && user.student_id !== parseInt(req.params.id)) {
+    if (!canViewStudent(user, parseInt(req.params.id))) {
       return res.status(403).json({ message: "Forbidden" });
     }
 
-    const student = db.prepare("SELECT * FROM students WHERE id = ?").get(req.params.id);
-    const attendance = db.prepare("SELECT * FROM attendance WHERE student_id = ? ORDER BY date DESC").all(req.params.id);
-    const grades = db.prepare("SELECT * FROM grades WHERE student_id = ? ORDER BY date DESC").all(req.params.id);
-    const behavior = db.prepare("SELECT * FROM behavior WHERE student_id = ? ORDER BY date DESC").all(req.params.id);
-    res.json({ ...student, attendance, grades, behavior });
+    const student = db.prepare(`${STUDENT_SELECT} WHERE s.id = ?`).get(req.params.id);
+    const grades = annotateGrades(db, (student as any)?.class_id ?? null, db.prepare(`
+      SELECT g.*, sub.name as subject, t.name as assessment_type
+      FROM grades g LEFT JOIN subjects sub ON sub.id = g.subject_id LEFT JOIN assessment_types t ON t.id = g.assessment_type_id
+      WHERE g.student_id = ? AND g.deleted_at IS NULL ORDER BY g.date DESC
+    `).all(req.params.id) as any[]);
+    const termId = currentTermId(user.school_id);
+    const final_scores = termId ? computeFinalScores(db, Number(req.params.id), termId) : [];
+    const behavior = db.prepare(`
+      SELECT b.*, bc.name as category FROM behavior b LEFT JOIN behavior_categories bc ON bc.id = b.category_id
+      WHERE b.student_id = ? AND b.deleted_at IS NULL ORDER BY b.date DESC
+    `).all(req.params.id);
+    const behavior_points = termId ? behaviorPoints(db, Number(req.params.id), termId) : null;
+    const account = isStaff(user)
+      ? db.prepare("SELECT id, username FROM users WHERE student_id = ?").get(req.params.id) ?? null
+      : undefined;
+    const parents = isStaff(user)
+      ? db.prepare(`
+          SELECT u.id, u.username FROM parent_students ps JOIN users u ON u.id = ps.user_id
+          WHERE ps.student_id = ? ORDER BY u.username
+        `).all(req.params.id)
+      : undefined;
+    const alerts = isStaff(user)
+      ? listAlerts(db, { school_id: user.school_id, statuses: ['open', 'acknowledged'], student_id: Number(req.params.id) })
+      : undefined;
+    const followups = isStaff(user)
+      ? listFollowups(db, { school_id: user.school_id, statuses: FOLLOWUP_STATUSES, student_id: Number(req.params.id) })
+      : undefined;
+    res.json({ ...student, grades, final_scores, final_scores_term_id: termId, behavior, behavior_points, account, parents, alerts, followups });
+  });
+
+  // Attendance for a date range (default: this month) laid out per day, with the rate over school days so far.
+  // Days with a record count as school days even when the calendar has them off, same as the recap.
+  app.get("/api/students/:id/attendance", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+    if (!canViewStudent(user, parseInt(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    const today = daysAgo(0);
+    const range = parseBody(res, dateRangeQuerySchema, {
+      from: req.query.from ?? `${today.slice(0, 7)}-01`,
+      to: req.query.to ?? new Date(Date.UTC(Number(today.slice(0, 4)), Number(today.slice(5, 7)), 0)).toISOString().split('T')[0],
+    });
+    if (!range) return;
+    const { from, to } = range;
+    if (eachDay(from, to).length > 366) return res.status(400).json({ message: "Rentang tanggal maksimal satu tahun" });
+
+    const records = db.prepare(`
+      SELECT * FROM attendance WHERE student_id = ? AND date BETWEEN ? AND ? AND deleted_at IS NULL ORDER BY date DESC
+    `).all(req.params.id, from, to) as any[];
+    const byDate = new Map(records.map(r => [r.date, r]));
+    const off = daysOff(db, user.school_id, from, to);
+    const schoolDays = new Set(schoolDaysBetween(db, user.school_id, from, to));
+
+    const days = eachDay(from, to).map(date => {
+      const entry = off.get(date);
+      return {
+        date,
+        school_day: schoolDays.has(date) || byDate.has(date),
+        off: entry ? { type: entry.type, description: entry.description } : null,
+        status: byDate.get(date)?.status ?? null,
+      };
+    });
+
+    // Both sides stop at today; records entered ahead, like an approved absence request, count once their day comes
+    const counted = days.filter(d => d.school_day && d.date <= today);
+    const count = (...statuses: string[]) => records.filter(r => r.date <= today && statuses.includes(r.status)).length;
+    res.json({
+      from,
+      to,
+      records,
+      days,
+      summary: {
+        school_days: counted.length,
+        present: count('present'),
+        late: count('late'),
+        sick: count('sick'),
+        excused: count('excused'),
+        absent: count('absent'),
+        percentage: counted.length > 0 ? Math.round(count('present', 'late') / counted.length * 1000) / 10 : null,
+      },
+    });
+  });
+
+  // Link a parent account to a student, creating the account if the username is new
+  app.post("/api/students/:id/parents", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const student = schoolRow('students', req.params.id, user.school_id);
+    if (!student) return res.status(404).json({ message: "Siswa tidak ditemukan" });
+    if (!canManageClass(user, student.class_id)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, parentLinkSchema, req.body);
+    if (!body) return;
+    const { username, password } = body;
+
+    const existing = db.prepare("SELECT * FROM users WHERE username = ?").get(username) as any;
+    // A parent with children in two schools needs an account in each
+    if (existing && (existing.role !== 'parent' || existing.school_id !== user.school_id)) {
+      return res.status(409).json({ message: "Username sudah digunakan", errors: { username: "Username sudah digunakan" } } satisfies ApiError);
+    }
+    if (!existing && !password) return sendInvalid(res, { password: "Password wajib diisi untuk akun baru" });
+
+    const linkParent = db.transaction(() => {
+      const parentId = existing
+        ? existing.id
+        : Number(db.prepare("INSERT INTO users (username, password, role, student_id, school_id) VALUES (?, ?, 'parent', NULL, ?)")
+            .run(username, hashPassword(password!), user.school_id).lastInsertRowid);
+      const linked = db.prepare("INSERT OR IGNORE INTO parent_students (user_id, student_id) VALUES (?, ?)").run(parentId, req.params.id);
+      if (linked.changes > 0) {
+        audit(user, {
+          action: 'link',
+          entity: 'student',
+          entity_id: student.id,
+          after: { user_id: parentId, username },
+          summary: `Menautkan akun orang tua ${username} ke ${student.name}`,
+        });
+      }
+      return parentId;
+    });
+    const id = linkParent();
+    res.status(existing ? 200 : 201).json({ success: true, id });
+  });
+
+  app.delete("/api/students/:id/parents/:userId", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    if (!studentInSchool(req.params.id, user.school_id)) return res.status(404).json({ message: "Siswa tidak ditemukan" });
+    if (!canManageClass(user, studentClassId(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    const parent = db.prepare("SELECT id, username FROM users WHERE id = ?").get(req.params.userId) as any;
+    db.transaction(() => {
+      const result = db.prepare("DELETE FROM parent_students WHERE user_id = ? AND student_id = ?").run(req.params.userId, req.params.id);
+      if (result.changes === 0) return;
+      audit(user, {
+        action: 'unlink',
+        entity: 'student',
+        entity_id: Number(req.params.id),
+        before: { user_id: parent.id, username: parent.username },
+        summary: `Melepas akun orang tua ${parent.username} dari ${studentName(req.params.id)}`,
+      });
+    })();
+    res.json({ success: true });
+  });
+
+  app.get("/api/classes", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    const classes = db.prepare(`
+      SELECT c.*, (SELECT COUNT(*) FROM students s WHERE s.class_id = c.id AND s.archived_at IS NULL) as student_count
+      FROM classes c WHERE c.school_id = ? ORDER BY c.name
+    `).all(user.school_id);
+    res.json(classes);
+  });
+
+  app.post("/api/classes", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, classSchema, req.body);
+    if (!body) return;
+    const { name } = body;
+    if (body.homeroom_teacher_id && !staffAccount(body.homeroom_teacher_id, user.school_id)) return sendInvalid(res, { homeroom_teacher_id: "Akun guru tidak ditemukan" });
+    if (db.prepare("SELECT id FROM classes WHERE name = ? AND school_id = ?").get(name, user.school_id)) return res.status(409).json({ message: "Kelas sudah ada" });
+
+    const id = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO classes (name, homeroom_teacher, homeroom_teacher_id, school_id) VALUES (?, ?, ?, ?)")
+        .run(name, homeroomName(body, user.school_id), body.homeroom_teacher_id, user.school_id).lastInsertRowid);
+      audit(user, { action: 'create', entity: 'class', entity_id: id, after: snapshot('classes', id), summary: `Menambahkan kelas ${name}` });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.put("/api/classes/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, classSchema, req.body);
+    if (!body) return;
+    const { name } = body;
+    if (body.homeroom_teacher_id && !staffAccount(body.homeroom_teacher_id, user.school_id)) return sendInvalid(res, { homeroom_teacher_id: "Akun guru tidak ditemukan" });
+    if (db.prepare("SELECT id FROM classes WHERE name = ? AND school_id = ? AND id != ?").get(name, user.school_id, req.params.id)) {
+      return res.status(409).json({ message: "Kelas sudah ada" });
+    }
+
+    const before = schoolRow('classes', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Kelas tidak ditemukan" });
+    db.transaction(() => {
+      db.prepare("UPDATE classes SET name = ?, homeroom_teacher = ?, homeroom_teacher_id = ? WHERE id = ?")
+        .run(name, homeroomName(body, user.school_id), body.homeroom_teacher_id, req.params.id);
+      audit(user, { action: 'update', entity: 'class', entity_id: Number(req.params.id), before, after: snapshot('classes', req.params.id), summary: `Mengubah kelas ${name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.delete("/api/classes/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('classes', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Kelas tidak ditemukan" });
+    const inUse = db.prepare("SELECT 1 FROM students WHERE class_id = ? UNION SELECT 1 FROM attendance WHERE class_id = ?")
+      .get(req.params.id, req.params.id);
+    if (inUse) return res.status(409).json({ message: "Kelas masih dipakai oleh data siswa atau kehadiran" });
+    // Teaching assignments go with the class, like its KKM
+    db.transaction(() => {
+      db.prepare("DELETE FROM kkm WHERE class_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM teaching_assignments WHERE class_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM classes WHERE id = ?").run(req.params.id);
+      audit(user, { action: 'delete', entity: 'class', entity_id: before.id, before, summary: `Menghapus kelas ${before.name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.get("/api/subjects", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    res.json(db.prepare("SELECT * FROM subjects WHERE school_id = ? ORDER BY name").all(user.school_id));
+  });
+
+  app.post("/api/subjects", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, subjectSchema, req.body);
+    if (!body) return;
+    const { name } = body;
+    if (db.prepare("SELECT id FROM subjects WHERE name = ? AND school_id = ?").get(name, user.school_id)) return res.status(409).json({ message: "Mata pelajaran sudah ada" });
+
+    const id = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO subjects (name, code, school_id) VALUES (?, ?, ?)").run(name, body.code, user.school_id).lastInsertRowid);
+      audit(user, { action: 'create', entity: 'subject', entity_id: id, after: snapshot('subjects', id), summary: `Menambahkan mata pelajaran ${name}` });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.put("/api/subjects/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, subjectSchema, req.body);
+    if (!body) return;
+    const { name } = body;
+    if (db.prepare("SELECT id FROM subjects WHERE name = ? AND school_id = ? AND id != ?").get(name, user.school_id, req.params.id)) {
+      return res.status(409).json({ message: "Mata pelajaran sudah ada" });
+    }
+
+    const before = schoolRow('subjects', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Mata pelajaran tidak ditemukan" });
+    db.transaction(() => {
+      db.prepare("UPDATE subjects SET name = ?, code = ? WHERE id = ?").run(name, body.code, req.params.id);
+      audit(user, { action: 'update', entity: 'subject', entity_id: Number(req.params.id), before, after: snapshot('subjects', req.params.id), summary: `Mengubah mata pelajaran ${name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.delete("/api/subjects/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('subjects', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Mata pelajaran tidak ditemukan" });
+    if (db.prepare("SELECT 1 FROM grades WHERE subject_id = ?").get(req.params.id)) {
+      return res.status(409).json({ message: "Mata pelajaran masih dipakai oleh data nilai" });
+    }
+    db.transaction(() => {
+      db.prepare("DELETE FROM assessment_weights WHERE subject_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM kkm WHERE subject_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM teaching_assignments WHERE subject_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM subjects WHERE id = ?").run(req.params.id);
+      audit(user, { action: 'delete', entity: 'subject', entity_id: before.id, before, summary: `Menghapus mata pelajaran ${before.name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.get("/api/academic-years", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    res.json(db.prepare("SELECT * FROM academic_years WHERE school_id = ? ORDER BY start_date DESC").all(user.school_id));
+  });
+
+  app.post("/api/academic-years", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, academicYearSchema, req.body);
+    if (!body) return;
+    const { name, start_date, end_date } = body;
+    if (db.prepare("SELECT id FROM academic_years WHERE name = ? AND school_id = ?").get(name, user.school_id)) {
+      return res.status(409).json({ message: "Tahun ajaran sudah ada" });
+    }
+
+    const id = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO academic_years (name, start_date, end_date, school_id) VALUES (?, ?, ?, ?)")
+        .run(name, start_date, end_date, user.school_id).lastInsertRowid);
+      audit(user, { action: 'create', entity: 'academic_year', entity_id: id, after: snapshot('academic_years', id), summary: `Menambahkan tahun ajaran ${name}` });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.put("/api/academic-years/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, academicYearSchema, req.body);
+    if (!body) return;
+    const { name, start_date, end_date } = body;
+
+    const before = schoolRow('academic_years', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Tahun ajaran tidak ditemukan" });
+    db.transaction(() => {
+      db.prepare("UPDATE academic_years SET name = ?, start_date = ?, end_date = ? WHERE id = ?").run(name, start_date, end_date, req.params.id);
+      audit(user, { action: 'update', entity: 'academic_year', entity_id: Number(req.params.id), before, after: snapshot('academic_years', req.params.id), summary: `Mengubah tahun ajaran ${name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.delete("/api/academic-years/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('academic_years', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Tahun ajaran tidak ditemukan" });
+    if (db.prepare("SELECT 1 FROM terms WHERE academic_year_id = ?").get(req.params.id)) {
+      return res.status(409).json({ message: "Hapus semester pada tahun ajaran ini terlebih dahulu" });
+    }
+    db.transaction(() => {
+      db.prepare("DELETE FROM academic_years WHERE id = ?").run(req.params.id);
+      audit(user, { action: 'delete', entity: 'academic_year', entity_id: before.id, before, summary: `Menghapus tahun ajaran ${before.name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.get("/api/terms", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    const terms = db.prepare(`
+      SELECT t.*, y.name as academic_year FROM terms t JOIN academic_years y ON y.id = t.academic_year_id
+      WHERE y.school_id = ? ORDER BY t.start_date DESC
+    `).all(user.school_id);
+    res.json(terms);
+  });
+
+  app.post("/api/terms", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, termSchema, req.body);
+    if (!body) return;
+    const { academic_year_id, name, start_date, end_date } = body;
+    if (!exists('academic_years', academic_year_id, user.school_id)) return sendInvalid(res, { academic_year_id: "Tahun ajaran tidak ditemukan" });
+    if (db.prepare("SELECT id FROM terms WHERE academic_year_id = ? AND name = ?").get(academic_year_id, name)) {
+      return res.status(409).json({ message: "Semester sudah ada" });
+    }
+
+    // Existing rows dated inside the new term are assigned to it
+    const createTerm = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO terms (academic_year_id, name, start_date, end_date) VALUES (?, ?, ?, ?)")
+        .run(academic_year_id, name, start_date, end_date).lastInsertRowid);
+      db.prepare("UPDATE grades SET term_id = ? WHERE school_id = ? AND term_id IS NULL AND date BETWEEN ? AND ?").run(id, user.school_id, start_date, end_date);
+      db.prepare("UPDATE attendance SET term_id = ? WHERE school_id = ? AND term_id IS NULL AND date BETWEEN ? AND ?").run(id, user.school_id, start_date, end_date);
+      audit(user, { action: 'create', entity: 'term', entity_id: id, after: snapshot('terms', id), summary: `Menambahkan semester ${name}` });
+      return id;
+    });
+    res.status(201).json({ success: true, id: createTerm() });
+  });
+
+  app.put("/api/terms/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, termUpdateSchema, req.body);
+    if (!body) return;
+    const { name, start_date, end_date } = body;
+
+    const before = schoolRow('terms', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Semester tidak ditemukan" });
+    // Rows of the old and the new date range are assigned again, so the rapor follows the corrected dates
+    db.transaction(() => {
+      db.prepare("UPDATE terms SET name = ?, start_date = ?, end_date = ? WHERE id = ?").run(name, start_date, end_date, req.params.id);
+      for (const table of ['grades', 'attendance']) {
+        db.prepare(`
+          UPDATE ${table} SET term_id = ${termForDate(`${table}.student_id`, `${table}.date`)}
+          WHERE school_id = ? AND (term_id = ? OR date BETWEEN ? AND ?)
+        `).run(user.school_id, before.id, start_date, end_date);
+      }
+      audit(user, { action: 'update', entity: 'term', entity_id: Number(req.params.id), before, after: snapshot('terms', req.params.id), summary: `Mengubah semester ${name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.delete("/api/terms/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('terms', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Semester tidak ditemukan" });
+    const inUse = db.prepare(`
+      SELECT 1 FROM grades WHERE term_id = ? UNION SELECT 1 FROM attendance WHERE term_id = ?
+      UNION SELECT 1 FROM behavior_followups WHERE term_id = ?
+    `).get(req.params.id, req.params.id, req.params.id);
+    if (inUse) return res.status(409).json({ message: "Semester masih dipakai oleh data nilai, kehadiran atau tindak lanjut perilaku" });
+    db.transaction(() => {
+      db.prepare("DELETE FROM terms WHERE id = ?").run(req.params.id);
+      audit(user, { action: 'delete', entity: 'term', entity_id: before.id, before, summary: `Menghapus semester ${before.name}` });
+    })();
+    res.json({ success: true });
+  });
+
+  // Holidays and other days without lessons; with from/to only the entries overlapping that range
+  app.get("/api/school-calendar", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    if (req.query.from || req.query.to) {
+      const range = parseBody(res, dateRangeQuerySchema, req.query);
+      if (!range) return;
+      return res.json(listCalendar(db, user.school_id, range.from, range.to));
+    }
+    res.json(db.prepare("SELECT * FROM school_calendar WHERE school_id = ? ORDER BY start_date DESC, id DESC").all(user.school_id));
+  });
+
+  app.post("/api/school-calendar", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, calendarEntrySchema, req.body);
+    if (!body) return;
+    const { start_date, end_date, type, description } = body;
+
+    const id = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO school_calendar (start_date, end_date, type, description, school_id) VALUES (?, ?, ?, ?, ?)")
+        .run(start_date, end_date, type, description, user.school_id).lastInsertRowid);
+      audit(user, { action: 'create', entity: 'school_calendar', entity_id: id, after: snapshot('school_calendar', id), summary: `Menambahkan hari libur ${description}` });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.delete("/api/school-calendar/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('school_calendar', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Hari libur tidak ditemukan" });
+    db.transaction(() => {
+      db.prepare("DELETE FROM school_calendar WHERE id = ?").run(before.id);
+      audit(user, { action: 'delete', entity: 'school_calendar', entity_id: before.id, before, summary: `Menghapus hari libur ${before.description}` });
+    })();
+    res.json({ success: true });
+  });
+
+  app.get("/api/assessment-types", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    res.json(db.prepare("SELECT * FROM assessment_types ORDER BY id").all());
+  });
+
+  // Assessment weights and the KKM of every class for one subject
+  app.get("/api/subjects/:id/grading", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const subjectId = Number(req.params.id);
+    if (!exists('subjects', subjectId, user.school_id)) return res.status(404).json({ message: "Mata pelajaran tidak ditemukan" });
+
+    const classes = db.prepare("SELECT id, name FROM classes WHERE school_id = ? ORDER BY name").all(user.school_id) as { id: number; name: string }[];
+    res.json({
+      weights: getWeights(db, subjectId),
+      kkm: classes.map(c => ({ class_id: c.id, class: c.name, score: getKkm(db, subjectId, c.id) })),
+      default_kkm: DEFAULT_KKM,
+    });
+  });
+
+  app.put("/api/subjects/:id/grading", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const subject = schoolRow('subjects', req.params.id, user.school_id) as { id: number; name: string } | null;
+    if (!subject) return res.status(404).json({ message: "Mata pelajaran tidak ditemukan" });
+
+    const body = parseBody(res, subjectGradingSchema, req.body);
+    if (!body) return;
+    const { weights, kkm } = body;
+    const unknown: FieldErrors = {};
+    weights.forEach((w, i) => { if (!assessmentTypeExists(w.assessment_type_id)) unknown[`weights.${i}.assessment_type_id`] = "Jenis penilaian tidak ditemukan"; });
+    kkm.forEach((k, i) => { if (!exists('classes', k.class_id, user.school_id)) unknown[`kkm.${i}.class_id`] = "Kelas tidak ditemukan"; });
+    if (Object.keys(unknown).length > 0) return sendInvalid(res, unknown);
+
+    const before = { weights: getWeights(db, subject.id), kkm: db.prepare("SELECT class_id, score FROM kkm WHERE subject_id = ?").all(subject.id) };
+    db.transaction(() => {
+      const saveWeight = db.prepare(`
+        INSERT INTO assessment_weights (subject_id, assessment_type_id, weight) VALUES (?, ?, ?)
+        ON CONFLICT(subject_id, assessment_type_id) DO UPDATE SET weight = excluded.weight
+      `);
+      for (const w of weights) saveWeight.run(subject.id, w.assessment_type_id, w.weight);
+      const saveKkm = db.prepare("INSERT INTO kkm (subject_id, class_id, score) VALUES (?, ?, ?) ON CONFLICT(subject_id, class_id) DO UPDATE SET score = excluded.score");
+      for (const k of kkm) saveKkm.run(subject.id, k.class_id, k.score);
+      audit(user, {
+        action: 'update',
+        entity: 'subject',
+        entity_id: subject.id,
+        before,
+        after: { weights: getWeights(db, subject.id), kkm: db.prepare("SELECT class_id, score FROM kkm WHERE subject_id = ?").all(subject.id) },
+        summary: `Mengubah bobot dan KKM ${subject.name}`,
+      });
+    })();
+    res.json({ success: true });
+  });
+
+  app.get("/api/students/:id/final-scores", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+    if (!canViewStudent(user, parseInt(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    const termId = req.query.term_id ? Number(req.query.term_id) : currentTermId(user.school_id);
+    if (!termId || !exists('terms', termId, user.school_id)) return res.status(404).json({ message: "Semester tidak ditemukan" });
+    res.json(computeFinalScores(db, parseInt(req.params.id), termId));
+  });
+
+  app.get("/api/settings", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    res.json(getSchoolSettings(db, user.school_id));
+  });
+
+  app.put("/api/settings", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, settingsSchema, req.body);
+    if (!body) return;
+
+    const save = db.prepare("INSERT INTO settings (school_id, key, value) VALUES (?, ?, ?) ON CONFLICT(school_id, key) DO UPDATE SET value = excluded.value");
+    db.transaction(() => {
+      const before = getSchoolSettings(db, user.school_id);
+      // Keys left out of the request keep their value; an empty one clears it
+      for (const [key, value] of Object.entries(body)) {
+        if (key in req.body) save.run(user.school_id, key, value ?? '');
+      }
+      audit(user, { action: 'update', entity: 'settings', entity_id: null, before, after: getSchoolSettings(db, user.school_id), summary: "Mengubah identitas sekolah" });
+    })();
+    res.json({ success: true });
+  });
+
+  // Rapor for one student; format=html (default), pdf or json
+  app.get("/api/reports/students/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+    if (!canViewStudent(user, parseInt(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    const termId = Number(req.query.term_id);
+    const report = exists('terms', termId, user.school_id) ? buildReportCard(db, parseInt(req.params.id), termId) : null;
+    if (!report) return res.status(404).json({ message: "Siswa atau semester tidak ditemukan" });
+    sendReports(res, user.school_id, [report], req.query.format, `rapor-${report.student.name}`);
+  });
+
+  // Rapor for every active student in a class, one per page
+  app.get("/api/reports/classes/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const classItem = schoolRow('classes', req.params.id, user.school_id);
+    const termId = Number(req.query.term_id);
+    if (!classItem || !exists('terms', termId, user.school_id)) {
+      return res.status(404).json({ message: "Kelas atau semester tidak ditemukan" });
+    }
+    if (!canManageClass(user, classItem.id)) return res.status(403).json({ message: "Forbidden" });
+
+    const studentIds = db.prepare("SELECT id FROM students WHERE class_id = ? AND archived_at IS NULL ORDER BY name")
+      .all(req.params.id) as { id: number }[];
+    const reports = studentIds.map(s => buildReportCard(db, s.id, termId)!);
+    sendReports(res, user.school_id, reports, req.query.format, `rapor-kelas-${classItem.name}`);
+  });
+
+  // Spreadsheet import: returns a dry-run plan, or applies it in one transaction when commit is true
+  app.post("/api/import/:kind", async (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const kind = req.params.kind as ImportKind;
+    if (!(kind in IMPORT_FIELDS)) return res.status(404).json({ message: "Jenis impor tidak dikenal" });
+
+    const body = parseBody(res, importSchema, req.body);
+    if (!body) return;
+    const { file_name, content, mapping, commit } = body;
+
+    let sheet;
+    try {
+      sheet = await parseSpreadsheet(file_name, Buffer.from(content, 'base64'));
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message || "File tidak dapat dibaca" });
+    }
+
+    // Planning and the commit run after an await, where Express 4 no longer catches what they throw
+    try {
+      const columns: Record<string, number | null> = mapping ?? suggestMapping(kind, sheet.headers);
+      const missing = IMPORT_FIELDS[kind].filter(f => f.required && (columns[f.field] === null || columns[f.field] === undefined));
+      const rows = missing.length > 0 ? [] : (kind === 'students' ? planStudentImport : planGradeImport)(db, user.school_id, sheet, columns);
+      const summary = {
+        create: rows.filter(r => r.action === 'create').length,
+        update: rows.filter(r => r.action === 'update').length,
+        reject: rows.filter(r => r.action === 'reject').length,
+      };
+
+      if (!commit) {
+        return res.json({ headers: sheet.headers, fields: IMPORT_FIELDS[kind], mapping: columns, missing: missing.map(f => f.label), summary, rows });
+      }
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `Kolom wajib belum dipetakan: ${missing.map(f => f.label).join(', ')}` });
+      }
+
+      // Rejected rows are skipped; everything else lands together or not at all
+      const at = new Date().toISOString();
+      db.transaction(() => {
+        for (const r of rows) {
+          const d = r.data;
+          if (kind === 'students' && r.action === 'create') {
+            const id = db.prepare("INSERT INTO students (name, class_id, parent_name, phone, school_id) VALUES (?, ?, ?, ?, ?)")
+              .run(d.name, d.class_id, d.parent_name, d.phone, user.school_id).lastInsertRowid;
+            audit(user, { action: 'create', entity: 'student', entity_id: Number(id), after: snapshot('students', id), summary: `Impor siswa baru ${d.name}` }, at);
+          } else if (kind === 'students' && r.action === 'update') {
+            const before = snapshot('students', r.existing_id);
+            db.prepare("UPDATE students SET parent_name = COALESCE(?, parent_name), phone = COALESCE(?, phone) WHERE id = ?")
+              .run(d.parent_name, d.phone, r.existing_id);
+            audit(user, { action: 'update', entity: 'student', entity_id: r.existing_id!, before, after: snapshot('students', r.existing_id), summary: `Impor data siswa ${d.name}` }, at);
+          } else if (kind === 'grades' && r.action === 'create') {
+            const id = db.prepare(`
+              INSERT INTO grades (student_id, subject_id, assessment_type_id, term_id, score, date, school_id)
+              VALUES (@student_id, @subject_id, @assessment_type_id, ${TERM_FOR_DATE}, @score, @date, ${STUDENT_SCHOOL})
+            `).run({ student_id: d.student_id, subject_id: d.subject_id, assessment_type_id: d.assessment_type_id, score: d.score, date: d.date }).lastInsertRowid;
+            audit(user, { action: 'create', entity: 'grade', entity_id: Number(id), after: snapshot('grades', id), summary: `Impor nilai ${d.subject} ${studentName(d.student_id)}: ${d.score}` }, at);
+            evaluateStudentAlerts(db, d.student_id);
+            queueNotification(db, 'new_grade', d.student_id, Number(id), { tanggal: d.date, mapel: d.subject, nilai: String(d.score) });
+          } else if (kind === 'grades' && r.action === 'update') {
+            const before = snapshot('grades', r.existing_id);
+            db.prepare("UPDATE grades SET score = ? WHERE id = ?").run(d.score, r.existing_id);
+            audit(user, { action: 'update', entity: 'grade', entity_id: r.existing_id!, before, after: snapshot('grades', r.existing_id), summary: `Impor nilai ${d.subject} ${studentName(d.student_id)}: ${d.score}` }, at);
+            evaluateStudentAlerts(db, d.student_id);
+          }
+        }
+      })();
+      res.json({ success: true, created: summary.create, updated: summary.update, rejected: summary.reject });
+    } catch (error) {
+      console.error('Import failed:', error);
+      res.status(500).json({ message: "Gagal mengimpor data" });
+    }
+  });
+
+  app.post("/api/attendance", idempotentWrite, (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, attendanceSchema, req.body);
+    if (!body) return;
+    if (!activeStudent(body.student_id, user.school_id)) return sendInvalid(res, { student_id: "Siswa tidak ditemukan" });
+    if (!canEditRecords(user, 'attendance', body)) return res.status(403).json({ message: "Forbidden" });
+    db.transaction(() => saveAttendance(user, body.student_id, body.date, body.status))();
+    res.json({ success: true });
+  });
+
+  // Roll call: every student in a class with their recorded status for the date (null if not yet taken)
+  app.get("/api/attendance/roll", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const query = parseBody(res, rollQuerySchema, req.query);
+    if (!query) return;
+    const { class_id, date } = query;
+    if (!exists('classes', class_id, user.school_id)) return res.status(404).json({ message: "Kelas tidak ditemukan" });
+    if (!canManageClass(user, class_id)) return res.status(403).json({ message: "Forbidden" });
+
+    const roll = db.prepare(`
+      SELECT s.id as student_id, s.name, a.status
+      FROM students s
+      LEFT JOIN attendance a ON a.student_id = s.id AND a.date = ? AND a.deleted_at IS NULL
+      WHERE s.class_id = ? AND s.archived_at IS NULL
+      ORDER BY s.name
+    `).all(date, class_id);
+    res.json(roll);
+  });
+
+  // Monthly rekap absensi for a class; format=json (default), csv or xlsx
+  app.get("/api/attendance/recap", async (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const { class_id, month, format } = req.query;
+    if (typeof month !== 'string' || !MONTH_PATTERN.test(month)) return res.status(400).json({ message: "Bulan tidak valid" });
+    if (!exists('classes', Number(class_id), user.school_id)) return res.status(404).json({ message: "Kelas tidak ditemukan" });
+    if (!canSeeClass(user, Number(class_id))) return res.status(403).json({ message: "Forbidden" });
+
+    try {
+      const recap = buildAttendanceRecap(db, Number(class_id), month);
+      if (!recap) return res.status(404).json({ message: "Kelas tidak ditemukan" });
+
+      const filename = `rekap-absensi-${recap.class}-${month}`.replace(/[^A-Za-z0-9_-]+/g, '-');
+      if (format === 'csv') {
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        return res.type('text/csv').send(recapToCsv(recap));
+      }
+      if (format === 'xlsx') {
+        const file = await recapToXlsx(recap);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+        return res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet').send(file);
+      }
+      res.json(recap);
+    } catch (error) {
+      console.error('Attendance recap failed:', error);
+      res.status(500).json({ message: "Gagal membuat rekap absensi" });
+    }
+  });
+
+  app.post("/api/attendance/batch", idempotentWrite, (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, attendanceBatchSchema, req.body);
+    if (!body) return;
+    const { date, records } = body;
+    const missing = failedChecks(Object.fromEntries(records.map((r, i) => [`records.${i}.student_id`, !activeStudent(r.student_id, user.school_id) && "Siswa tidak ditemukan"])));
+    if (missing) return sendInvalid(res, missing);
+    if (!records.every(r => canEditRecords(user, 'attendance', r))) return res.status(403).json({ message: "Forbidden" });
+
+    const at = new Date().toISOString();
+    const saveRoll = db.transaction((rows: { student_id: number; status: string }[]) => {
+      for (const r of rows) saveAttendance(user, r.student_id, date, r.status, at);
+    });
+    saveRoll(records);
+    res.json({ success: true, saved: records.length });
+  });
+
+  // Absence requests (izin/sakit) sent by a student or their parent and decided by the wali kelas
+  app.get("/api/students/:id/absence-requests", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+    if (!canViewStudent(user, parseInt(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    res.json(listAbsenceRequests(db, { school_id: user.school_id, statuses: [...ABSENCE_REQUEST_STATUSES], student_id: Number(req.params.id) }));
+  });
+
+  app.post("/api/students/:id/absence-requests", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+    // Staff record the attendance themselves
+    if (isStaff(user) || !canViewStudent(user, parseInt(req.params.id))) return res.status(403).json({ message: "Forbidden" });
+
+    const studentId = Number(req.params.id);
+    if (!activeStudent(studentId, user.school_id)) return res.status(404).json({ message: "Siswa tidak ditemukan" });
+    const body = parseBody(res, absenceRequestSchema, req.body);
+    if (!body) return;
+    if (body.start_date < daysAgo(ABSENCE_BACKDATE_DAYS)) {
+      return sendInvalid(res, { start_date: `Tanggal mulai paling lama ${ABSENCE_BACKDATE_DAYS} hari yang lalu` });
+    }
+    const overlapping = db.prepare("SELECT 1 FROM absence_requests WHERE student_id = ? AND status != 'rejected' AND start_date <= ? AND end_date >= ?")
+      .get(studentId, body.end_date, body.start_date);
+    if (overlapping) {
+      return res.status(409).json({ message: "Sudah ada pengajuan izin pada tanggal tersebut", errors: { start_date: "Sudah ada pengajuan izin pada tanggal tersebut" } } satisfies ApiError);
+    }
+    const note = body.note ? { ...body.note, content: Buffer.from(body.note.content, 'base64') } : null;
+    const problem = note && checkNote(note.file_name, note.content);
+    if (problem) return sendInvalid(res, { note: problem });
+
+    // The file is written first; if the insert fails it is removed again
+    const stored = note ? saveNote(notesDir, note.file_name, note.content) : null;
+    try {
+      const id = db.transaction(() => {
+        const id = Number(db.prepare(`
+          INSERT INTO absence_requests (school_id, student_id, requested_by, type, start_date, end_date, reason, note_file, note_name, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(user.school_id, studentId, user.id, body.type, body.start_date, body.end_date, body.reason, stored, note?.file_name ?? null, new Date().toISOString()).lastInsertRowid);
+        audit(user, {
+          action: 'create',
+          entity: 'absence_request',
+          entity_id: id,
+          after: snapshot('absence_requests', id),
+          summary: `Pengajuan ${ATTENDANCE_STATUS_LABELS[body.type].toLowerCase()} ${studentName(studentId)} ${body.start_date} s.d. ${body.end_date}`,
+        });
+        return id;
+      })();
+      res.status(201).json({ success: true, id });
+    } catch (error) {
+      if (stored) removeNote(notesDir, stored);
+      throw error;
+    }
+  });
+
+  // The approval queue; status takes a comma-separated list and defaults to pending. Teachers see the
+  // requests of the classes they are wali kelas of.
+  app.get("/api/absence-requests", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const statuses = String(req.query.status || 'pending').split(',') as AbsenceRequestStatus[];
+    if (statuses.some(s => !ABSENCE_REQUEST_STATUSES.includes(s))) return res.status(400).json({ message: "Status pengajuan tidak valid" });
+    res.json(listAbsenceRequests(db, { school_id: user.school_id, statuses, class_ids: managedClassIds(user) }));
+  });
+
+  // Approving writes the request's status into attendance for every school day it covers, except days the
+  // student turned out to be present
+  for (const decision of ['approve', 'reject'] as const) {
+    app.post(`/api/absence-requests/:id/${decision}`, (req, res) => {
+      const user = getSessionUser(req);
+      if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+      const before = schoolRow('absence_requests', req.params.id, user.school_id);
+      if (!before) return res.status(404).json({ message: "Pengajuan izin tidak ditemukan" });
+      if (!canManageClass(user, studentClassId(before.student_id))) return res.status(403).json({ message: "Forbidden" });
+      if (before.status !== 'pending') return res.status(409).json({ message: "Pengajuan izin sudah diputuskan" });
+      const body = parseBody(res, absenceDecisionSchema, req.body ?? {});
+      if (!body) return;
+
+      const at = new Date().toISOString();
+      const days = db.transaction(() => {
+        db.prepare("UPDATE absence_requests SET status = ?, decided_by = ?, decided_at = ?, decision_note = ? WHERE id = ?")
+          .run(decision === 'approve' ? 'approved' : 'rejected', user.id, at, body.decision_note, before.id);
+        audit(user, {
+          action: 'update',
+          entity: 'absence_request',
+          entity_id: before.id,
+          before,
+          after: snapshot('absence_requests', before.id),
+          summary: `${decision === 'approve' ? 'Menyetujui' : 'Menolak'} pengajuan ${ATTENDANCE_STATUS_LABELS[before.type].toLowerCase()} ${studentName(before.student_id)} ${before.start_date} s.d. ${before.end_date}`,
+        }, at);
+        if (decision === 'reject') return [];
+        const absent = schoolDaysBetween(db, user.school_id, before.start_date, before.end_date).filter(date => {
+          const existing = findAttendance.get(before.student_id, date) as any;
+          return !existing || existing.deleted_at || !['present', 'late'].includes(existing.status);
+        });
+        for (const date of absent) saveAttendance(user, before.student_id, date, before.type, at);
+        return absent;
+      })();
+      res.json({ success: true, days });
+    });
+  }
+
+  app.get("/api/absence-requests/:id/note", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    const request = schoolRow('absence_requests', req.params.id, user.school_id);
+    if (!request) return res.status(404).json({ message: "Pengajuan izin tidak ditemukan" });
+    if (!canViewStudent(user, request.student_id)) return res.status(403).json({ message: "Forbidden" });
+    const note = notePath(notesDir, request.note_file);
+    if (!note) return res.status(404).json({ message: "Surat keterangan tidak ditemukan" });
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.type(note.mime).download(path.resolve(note.file), request.note_name);
+  });
+
+  app.post("/api/grades", idempotentWrite, (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, gradeSchema, req.body);
+    if (!body) return;
+    const { student_id, subject_id, assessment_type_id, score, date, remedial_of } = body;
+    const missing = failedChecks({
+      student_id: !activeStudent(student_id, user.school_id) && "Siswa tidak ditemukan",
+      subject_id: !exists('subjects', subject_id, user.school_id) && "Mata pelajaran tidak ditemukan",
+      assessment_type_id: !assessmentTypeExists(assessment_type_id) && "Jenis penilaian tidak ditemukan",
+    });
+    if (missing) return sendInvalid(res, missing);
+    if (!canEditRecords(user, 'grades', body)) return sendInvalid(res, { subject_id: NOT_YOUR_SUBJECT });
+
+    // A remedial retake must point at the same student's original score in the same subject, below KKM
+    if (remedial_of) {
+      const original = db.prepare("SELECT g.*, s.class_id FROM grades g JOIN students s ON s.id = g.student_id WHERE g.id = ? AND g.deleted_at IS NULL")
+        .get(remedial_of) as any;
+      if (!original || original.student_id !== student_id || original.subject_id !== subject_id || original.remedial_of !== null) {
+        return sendInvalid(res, { remedial_of: "Nilai asal remedial tidak valid" });
+      }
+      if (original.score >= getKkm(db, original.subject_id, original.class_id)) {
+        return sendInvalid(res, { remedial_of: "Nilai asal sudah mencapai KKM" });
+      }
+    }
+    const id = db.transaction(() => {
+      const id = db.prepare(`
+        INSERT INTO grades (student_id, subject_id, assessment_type_id, remedial_of, term_id, score, date, school_id)
+        VALUES (@student_id, @subject_id, @assessment_type_id, @remedial_of, ${TERM_FOR_DATE}, @score, @date, ${STUDENT_SCHOOL})
+      `).run({ student_id, subject_id, assessment_type_id, remedial_of, score, date }).lastInsertRowid;
+      const subject = db.prepare("SELECT name FROM subjects WHERE id = ?").get(subject_id) as { name: string };
+      audit(user, { action: 'create', entity: 'grade', entity_id: Number(id), after: snapshot('grades', id), summary: `Nilai ${subject.name} ${studentName(student_id)}: ${score}` });
+      evaluateStudentAlerts(db, student_id);
+      queueNotification(db, 'new_grade', student_id, Number(id), { tanggal: date, mapel: subject.name, nilai: String(score) });
+      return Number(id);
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.post("/api/behavior", idempotentWrite, (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, behaviorSchema, req.body);
+    if (!body) return;
+    const { student_id, category_id, date } = body;
+    const category = schoolRow('behavior_categories', category_id, user.school_id) as BehaviorCategory | null;
+    const missing = failedChecks({
+      student_id: !activeStudent(student_id, user.school_id) && "Siswa tidak ditemukan",
+      category_id: !category && "Kategori perilaku tidak ditemukan",
+    });
+    if (missing || !category) return sendInvalid(res, missing!);
+    if (!canEditRecords(user, 'behavior', body)) return res.status(403).json({ message: "Forbidden" });
+    const description = body.description ?? category.name;
+    const insert = db.prepare("INSERT INTO behavior (student_id, category_id, type, points, description, date, school_id) VALUES (?, ?, ?, ?, ?, ?, ?)");
+    const id = db.transaction(() => {
+      const id = Number(insert.run(student_id, category.id, category.type, category.points, description, date, user.school_id).lastInsertRowid);
+      audit(user, {
+        action: 'create',
+        entity: 'behavior',
+        entity_id: id,
+        after: snapshot('behavior', id),
+        summary: `Catatan ${category.type === 'positive' ? 'positif' : 'negatif'} untuk ${studentName(student_id)}: ${category.name} (${category.points} poin)`,
+      });
+      evaluateStudentAlerts(db, student_id);
+      applySanctions(db, student_id, date);
+      if (category.type === 'negative') queueNotification(db, 'negative_behavior', student_id, id, { tanggal: date, catatan: description });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  app.put("/api/attendance/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = db.prepare("SELECT * FROM attendance WHERE id = ? AND school_id = ? AND deleted_at IS NULL").get(req.params.id, user.school_id) as any;
+    if (!before) return res.status(404).json({ message: "Data kehadiran tidak ditemukan" });
+    if (!canEditRecords(user, 'attendance', before)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, attendanceUpdateSchema, req.body);
+    if (!body) return;
+    const { status } = body;
+
+    db.transaction(() => {
+      db.prepare("UPDATE attendance SET status = ? WHERE id = ?").run(status, before.id);
+      audit(user, {
+        action: 'update',
+        entity: 'attendance',
+        entity_id: before.id,
+        before,
+        after: snapshot('attendance', before.id),
+        summary: `Absensi ${studentName(before.student_id)} ${before.date}: ${ATTENDANCE_STATUS_LABELS[before.status]} → ${ATTENDANCE_STATUS_LABELS[status]}`,
+      });
+      evaluateStudentAlerts(db, before.student_id);
+      if (status === 'absent' && before.date === daysAgo(0)) queueNotification(db, 'absent_today', before.student_id, before.date, { tanggal: before.date });
+      else if (before.status === 'absent') cancelNotification(db, 'absent_today', before.student_id, before.date);
+    })();
+    res.json({ success: true });
+  });
+
+  app.put("/api/grades/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = db.prepare("SELECT * FROM grades WHERE id = ? AND school_id = ? AND deleted_at IS NULL").get(req.params.id, user.school_id) as any;
+    if (!before) return res.status(404).json({ message: "Nilai tidak ditemukan" });
+    if (!canEditRecords(user, 'grades', before)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, gradeUpdateSchema, req.body);
+    if (!body) return;
+    const { subject_id, assessment_type_id, score, date } = body;
+    const missing = failedChecks({
+      subject_id: !exists('subjects', subject_id, user.school_id) && "Mata pelajaran tidak ditemukan",
+      assessment_type_id: !assessmentTypeExists(assessment_type_id) && "Jenis penilaian tidak ditemukan",
+    });
+    if (missing) return sendInvalid(res, missing);
+    if (!canEditRecords(user, 'grades', { student_id: before.student_id, subject_id })) return sendInvalid(res, { subject_id: NOT_YOUR_SUBJECT });
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE grades SET subject_id = @subject_id, assessment_type_id = @assessment_type_id, score = @score, date = @date, term_id = ${TERM_FOR_DATE}
+        WHERE id = @id
+      `).run({ subject_id, assessment_type_id, score, date, student_id: before.student_id, id: before.id });
+      const subject = db.prepare("SELECT name FROM subjects WHERE id = ?").get(subject_id) as { name: string };
+      audit(user, {
+        action: 'update',
+        entity: 'grade',
+        entity_id: before.id,
+        before,
+        after: snapshot('grades', before.id),
+        summary: `Nilai ${subject.name} ${studentName(before.student_id)}: ${before.score} → ${score}`,
+      });
+      evaluateStudentAlerts(db, before.student_id);
+    })();
+    res.json({ success: true });
+  });
+
+  app.put("/api/behavior/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = db.prepare("SELECT * FROM behavior WHERE id = ? AND school_id = ? AND deleted_at IS NULL").get(req.params.id, user.school_id) as any;
+    if (!before) return res.status(404).json({ message: "Catatan perilaku tidak ditemukan" });
+    if (!canEditRecords(user, 'behavior', before)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, behaviorUpdateSchema, req.body);
+    if (!body) return;
+    const { category_id, date } = body;
+    const category = schoolRow('behavior_categories', category_id, user.school_id) as BehaviorCategory | null;
+    if (!category) return sendInvalid(res, { category_id: "Kategori perilaku tidak ditemukan" });
+    const description = body.description ?? category.name;
+    db.transaction(() => {
+      // Points are only re-copied from the catalog when the category changes
+      const points = category.id === before.category_id ? before.points : category.points;
+      db.prepare("UPDATE behavior SET category_id = ?, type = ?, points = ?, description = ?, date = ? WHERE id = ?")
+        .run(category.id, category.type, points, description, date, before.id);
+      audit(user, {
+        action: 'update',
+        entity: 'behavior',
+        entity_id: before.id,
+        before,
+        after: snapshot('behavior', before.id),
+        summary: `Mengubah catatan perilaku ${studentName(before.student_id)}`,
+      });
+      evaluateStudentAlerts(db, before.student_id);
+      applySanctions(db, before.student_id, date);
+    })();
+    res.json({ success: true });
+  });
+
+  // Deletes only set deleted_at, so a record can be restored (e.g. by "Batalkan" right after deleting)
+  for (const [path, type] of Object.entries(RECORD_TYPES)) {
+    app.delete(`/api/${path}/:id`, (req, res) => {
+      const user = getSessionUser(req);
+      if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+      const before = db.prepare(`SELECT * FROM ${type.table} WHERE id = ? AND school_id = ? AND deleted_at IS NULL`).get(req.params.id, user.school_id) as any;
+      if (!before) return res.status(404).json({ message: "Data tidak ditemukan" });
+      if (!canEditRecords(user, type.table, before)) return res.status(403).json({ message: "Forbidden" });
+
+      db.transaction(() => {
+        db.prepare(`UPDATE ${type.table} SET deleted_at = ? WHERE id = ?`).run(new Date().toISOString(), before.id);
+        audit(user, { action: 'delete', entity: type.entity, entity_id: before.id, before, after: snapshot(type.table, before.id), summary: `Menghapus ${type.describe(before)}` });
+        evaluateStudentAlerts(db, before.student_id);
+        cancelNotification(db, type.notification, before.student_id, type.entity === 'attendance' ? before.date : before.id);
+      })();
+      res.json({ success: true });
+    });
+
+    app.post(`/api/${path}/:id/restore`, (req, res) => {
+      const user = getSessionUser(req);
+      if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+      const before = db.prepare(`SELECT * FROM ${type.table} WHERE id = ? AND school_id = ? AND deleted_at IS NOT NULL`).get(req.params.id, user.school_id) as any;
+      if (!before) return res.status(404).json({ message: "Data tidak ditemukan" });
+      if (!canEditRecords(user, type.table, before)) return res.status(403).json({ message: "Forbidden" });
+
+      db.transaction(() => {
+        db.prepare(`UPDATE ${type.table} SET deleted_at = NULL WHERE id = ?`).run(before.id);
+        audit(user, { action: 'restore', entity: type.entity, entity_id: before.id, before, after: snapshot(type.table, before.id), summary: `Memulihkan ${type.describe(before)}` });
+        evaluateStudentAlerts(db, before.student_id);
+        if (type.table === 'behavior') applySanctions(db, before.student_id, before.date);
+      })();
+      res.json({ success: true });
+    });
+  }
+
+  // Early-warning alerts; status takes a comma-separated list and defaults to open,acknowledged
+  app.get("/api/alerts", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const statuses = String(req.query.status || 'open,acknowledged').split(',') as AlertStatus[];
+    if (statuses.some(s => !ALERT_STATUSES.includes(s))) return res.status(400).json({ message: "Status peringatan tidak valid" });
+    res.json(listAlerts(db, { school_id: user.school_id, statuses, student_id: req.query.student_id ? Number(req.query.student_id) : undefined, class_ids: visibleClassIds(user) }));
+  });
+
+  // acknowledge: a teacher is following up; resolve: closed by hand even if the condition still holds
+  for (const action of ['acknowledge', 'resolve'] as const) {
+    app.post(`/api/alerts/:id/${action}`, (req, res) => {
+      const user = getSessionUser(req);
+      if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+      const before = schoolRow('alerts', req.params.id, user.school_id);
+      if (!before) return res.status(404).json({ message: "Peringatan tidak ditemukan" });
+      if (!canViewStudent(user, before.student_id)) return res.status(403).json({ message: "Forbidden" });
+      if (before.status === 'resolved') return res.status(409).json({ message: "Peringatan sudah selesai" });
+
+      db.transaction(() => {
+        if (action === 'acknowledge') {
+          db.prepare("UPDATE alerts SET status = 'acknowledged', acknowledged_by = ?, updated_at = ? WHERE id = ?").run(user.id, new Date().toISOString(), before.id);
+        } else {
+          db.prepare("UPDATE alerts SET status = 'resolved', resolved_by = ?, updated_at = ? WHERE id = ?").run(user.id, new Date().toISOString(), before.id);
+        }
+        audit(user, {
+          action: 'update',
+          entity: 'alert',
+          entity_id: before.id,
+          before,
+          after: snapshot('alerts', before.id),
+          summary: `${action === 'acknowledge' ? 'Menindaklanjuti' : 'Menutup'} peringatan ${studentName(before.student_id)}: ${before.message}`,
+        });
+      })();
+      res.json({ success: true });
+    });
+  }
+
+  app.get("/api/behavior-categories", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+    res.json(db.prepare("SELECT * FROM behavior_categories WHERE school_id = ? ORDER BY type DESC, points, name").all(user.school_id));
+  });
+
+  app.post("/api/behavior-categories", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, behaviorCategorySchema, req.body);
+    if (!body) return;
+    const { name, type, points } = body;
+    if (db.prepare("SELECT id FROM behavior_categories WHERE name = ? AND school_id = ?").get(name, user.school_id)) return res.status(409).json({ message: "Kategori sudah ada" });
+
+    const id = db.transaction(() => {
+      const id = Number(db.prepare("INSERT INTO behavior_categories (name, type, points, school_id) VALUES (?, ?, ?, ?)")
+        .run(name, type, points, user.school_id).lastInsertRowid);
+      audit(user, { action: 'create', entity: 'behavior_category', entity_id: id, after: snapshot('behavior_categories', id), summary: `Menambahkan kategori perilaku ${name}` });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  // Changing the points only affects notes saved afterwards
+  app.put("/api/behavior-categories/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('behavior_categories', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Kategori tidak ditemukan" });
+    const body = parseBody(res, behaviorCategorySchema, req.body);
+    if (!body) return;
+    const { name, type, points } = body;
+    if (db.prepare("SELECT id FROM behavior_categories WHERE name = ? AND school_id = ? AND id != ?").get(name, user.school_id, before.id)) {
+      return res.status(409).json({ message: "Kategori sudah ada" });
+    }
+
+    db.transaction(() => {
+      db.prepare("UPDATE behavior_categories SET name = ?, type = ?, points = ? WHERE id = ?").run(name, type, points, before.id);
+      audit(user, { action: 'update', entity: 'behavior_category', entity_id: before.id, before, after: snapshot('behavior_categories', before.id), summary: `Mengubah kategori perilaku ${name}` });
+    })();
+    res.json({ success: true });
   });
 
-  app.post("/api/attendance", (req, res) => {
+  app.delete("/api/behavior-categories/:id", (req, res) => {
     const user = getSessionUser(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ message: "Forbidden" });
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('behavior_categories', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Kategori tidak ditemukan" });
+    if (db.prepare("SELECT 1 FROM behavior WHERE category_id = ?").get(before.id)) {
+      return res.status(409).json({ message: "Kategori masih dipakai oleh catatan perilaku" });
+    }
 
-    const { student_id, date, status } = req.body;
-    const insert = db.prepare("INSERT INTO attendance (student_id, date, status) VALUES (?, ?, ?)");
-    insert.run(student_id, date, status);
+    db.transaction(() => {
+      db.prepare("DELETE FROM behavior_categories WHERE id = ?").run(before.id);
+      audit(user, { action: 'delete', entity: 'behavior_category', entity_id: before.id, before, summary: `Menghapus kategori perilaku ${before.name}` });
+    })();
     res.json({ success: true });
   });
 
-  app.post("/api/grades", (req, res) => {
+  app.get("/api/sanction-thresholds", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    res.json(db.prepare("SELECT * FROM sanction_thresholds WHERE school_id = ? ORDER BY points").all(user.school_id));
+  });
+
+  app.put("/api/sanction-thresholds/:id", (req, res) => {
     const user = getSessionUser(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ message: "Forbidden" });
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('sanction_thresholds', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Ambang sanksi tidak ditemukan" });
+    const body = parseBody(res, sanctionThresholdSchema, req.body);
+    if (!body) return;
+    const { points, enabled } = body;
 
-    const { student_id, subject, score, date } = req.body;
-    const insert = db.prepare("INSERT INTO grades (student_id, subject, score, date) VALUES (?, ?, ?, ?)");
-    insert.run(student_id, subject, score, date);
+    db.transaction(() => {
+      db.prepare("UPDATE sanction_thresholds SET points = ?, enabled = ? WHERE id = ?").run(points, enabled ? 1 : 0, before.id);
+      audit(user, { action: 'update', entity: 'sanction_threshold', entity_id: before.id, before, after: snapshot('sanction_thresholds', before.id), summary: `Mengubah ambang ${before.label}` });
+    })();
     res.json({ success: true });
   });
 
-  app.post("/api/behavior", (req, res) => {
+  // Follow-ups opened by sanction thresholds; status takes a comma-separated list and defaults to open
+  app.get("/api/behavior-followups", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const statuses = String(req.query.status || 'open').split(',') as FollowupStatus[];
+    if (statuses.some(s => !FOLLOWUP_STATUSES.includes(s))) return res.status(400).json({ message: "Status tindak lanjut tidak valid" });
+    res.json(listFollowups(db, { school_id: user.school_id, statuses, student_id: req.query.student_id ? Number(req.query.student_id) : undefined, class_ids: visibleClassIds(user) }));
+  });
+
+  app.post("/api/behavior-followups/:id/complete", (req, res) => {
     const user = getSessionUser(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ message: "Forbidden" });
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
 
-    const { student_id, type, description, date } = req.body;
-    const insert = db.prepare("INSERT INTO behavior (student_id, type, description, date) VALUES (?, ?, ?, ?)");
-    insert.run(student_id, type, description, date);
+    const before = schoolRow('behavior_followups', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Tindak lanjut tidak ditemukan" });
+    // Sanctions such as calling in the parents are handled by the wali kelas
+    if (!canManageClass(user, studentClassId(before.student_id))) return res.status(403).json({ message: "Forbidden" });
+    if (before.status === 'done') return res.status(409).json({ message: "Tindak lanjut sudah selesai" });
+    const body = parseBody(res, followupCompleteSchema, req.body);
+    if (!body) return;
+
+    db.transaction(() => {
+      db.prepare("UPDATE behavior_followups SET status = 'done', notes = ?, completed_at = ?, completed_by = ? WHERE id = ?")
+        .run(body.notes, new Date().toISOString(), user.id, before.id);
+      audit(user, {
+        action: 'update',
+        entity: 'behavior_followup',
+        entity_id: before.id,
+        before,
+        after: snapshot('behavior_followups', before.id),
+        summary: `Menyelesaikan ${before.label} untuk ${studentName(before.student_id)}`,
+      });
+    })();
     res.json({ success: true });
   });
 
+  app.get("/api/alert-rules", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    res.json(db.prepare("SELECT * FROM alert_rules WHERE school_id = ? ORDER BY id").all(user.school_id));
+  });
+
+  app.put("/api/alert-rules/:id", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('alert_rules', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Aturan tidak ditemukan" });
+
+    const body = parseBody(res, alertRuleSchema, req.body);
+    if (!body) return;
+    const { threshold, window_days, enabled } = body;
+    if (before.type !== 'consecutive_absences' && window_days === null) return sendInvalid(res, { window_days: "Periode wajib diisi" });
+
+    db.transaction(() => {
+      db.prepare("UPDATE alert_rules SET threshold = ?, window_days = ?, enabled = ? WHERE id = ?")
+        .run(threshold, before.type === 'consecutive_absences' ? null : window_days, enabled ? 1 : 0, before.id);
+      audit(user, { action: 'update', entity: 'alert_rule', entity_id: before.id, before, after: snapshot('alert_rules', before.id), summary: "Mengubah aturan peringatan dini" });
+    })();
+    evaluateAllAlerts(db);
+    res.json({ success: true });
+  });
+
+  app.get("/api/notification-templates", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    res.json(db.prepare("SELECT * FROM notification_templates WHERE school_id = ? ORDER BY event").all(user.school_id));
+  });
+
+  app.put("/api/notification-templates/:event", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    if (!NOTIFICATION_EVENTS.includes(req.params.event as NotificationEvent)) return res.status(404).json({ message: "Template tidak ditemukan" });
+    const template = parseBody(res, notificationTemplateSchema, req.body);
+    if (!template) return;
+
+    const findTemplate = db.prepare("SELECT * FROM notification_templates WHERE school_id = ? AND event = ?");
+    const before = findTemplate.get(user.school_id, req.params.event);
+    db.transaction(() => {
+      db.prepare("UPDATE notification_templates SET body = ?, enabled = ? WHERE school_id = ? AND event = ?")
+        .run(template.body, template.enabled ? 1 : 0, user.school_id, req.params.event);
+      audit(user, {
+        action: 'update',
+        entity: 'notification_template',
+        entity_id: null,
+        before,
+        after: findTemplate.get(user.school_id, req.params.event),
+        summary: "Mengubah template notifikasi orang tua",
+      });
+    })();
+    res.json({ success: true });
+  });
+
+  // Outbox, newest first; filter with status=pending|sent|failed|cancelled
+  app.get("/api/notifications", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const status = req.query.status ? String(req.query.status) : null;
+    const messages = db.prepare(`
+      SELECT n.*, s.name as student_name FROM notification_outbox n JOIN students s ON s.id = n.student_id
+      WHERE s.school_id = ? AND (? IS NULL OR n.status = ?) ORDER BY n.created_at DESC, n.id DESC LIMIT 100
+    `).all(user.school_id, status, status);
+    res.json(messages);
+  });
+
+  app.post("/api/notifications/:id/retry", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isAdmin(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const before = schoolRow('notification_outbox', req.params.id, user.school_id);
+    if (!before) return res.status(404).json({ message: "Pesan tidak ditemukan" });
+    if (before.status === 'sent') return res.status(409).json({ message: "Pesan sudah terkirim" });
+
+    db.transaction(() => {
+      db.prepare("UPDATE notification_outbox SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ?").run(new Date().toISOString(), before.id);
+      audit(user, {
+        action: 'update',
+        entity: 'notification',
+        entity_id: before.id,
+        before,
+        after: snapshot('notification_outbox', before.id),
+        summary: `Mengirim ulang notifikasi untuk orang tua ${studentName(before.student_id)}`,
+      });
+    })();
+    res.json({ success: true });
+  });
+
+  // Figures of every school for the foundation
+  app.get("/api/schools", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isFoundation(user)) return res.status(403).json({ message: "Forbidden" });
+    res.json(listSchoolStats(db) satisfies SchoolStats[]);
+  });
+
+  app.post("/api/schools", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isFoundation(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const body = parseBody(res, schoolSchema, req.body);
+    if (!body) return;
+    if (db.prepare("SELECT id FROM schools WHERE name = ?").get(body.name)) {
+      return res.status(409).json({ message: "Sekolah sudah ada", errors: { name: "Sekolah sudah ada" } } satisfies ApiError);
+    }
+    if (db.prepare("SELECT id FROM users WHERE username = ?").get(body.admin_username)) {
+      return res.status(409).json({ message: "Username sudah digunakan", errors: { admin_username: "Username sudah digunakan" } } satisfies ApiError);
+    }
+
+    const id = db.transaction(() => {
+      const id = createSchool(db, body.name);
+      const adminId = Number(db.prepare("INSERT INTO users (username, password, role, full_name, school_id) VALUES (?, ?, 'admin', ?, ?)")
+        .run(body.admin_username, hashPassword(body.admin_password), body.admin_full_name, id).lastInsertRowid);
+      audit(user, {
+        action: 'create',
+        entity: 'school',
+        entity_id: id,
+        after: { ...snapshot('schools', id) as object, admin: { id: adminId, username: body.admin_username } },
+        summary: `Menambahkan sekolah ${body.name} dengan admin ${body.admin_username}`,
+      });
+      return id;
+    })();
+    res.status(201).json({ success: true, id });
+  });
+
+  // Snapshots hold every school's data, so they are the foundation's to take and restore
+  app.get("/api/backups", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isFoundation(user)) return res.status(403).json({ message: "Forbidden" });
+    res.json(listSnapshots(backupConfig) satisfies BackupSnapshot[]);
+  });
+
+  app.post("/api/backups", async (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isFoundation(user)) return res.status(403).json({ message: "Forbidden" });
+    if (backupBusy) return res.status(409).json({ message: "Pencadangan atau pemulihan lain sedang berjalan" });
+
+    backupBusy = true;
+    try {
+      const name = await takeSnapshot(db, backupConfig, 'manual');
+      audit(user, { action: 'create', entity: 'backup', entity_id: null, summary: `Membuat cadangan database ${name}` });
+      res.status(201).json({ success: true, name });
+    } catch (error) {
+      console.error('Backup failed:', error);
+      res.status(500).json({ message: "Gagal membuat cadangan database" });
+    } finally {
+      backupBusy = false;
+    }
+  });
+
+  app.get("/api/backups/:name/download", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isFoundation(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const file = snapshotPath(backupConfig, req.params.name);
+    if (!file) return res.status(404).json({ message: "Cadangan tidak ditemukan" });
+    res.download(path.resolve(file), req.params.name);
+  });
+
+  // Replaces every record with the snapshot's. The current data is kept as a pre-restore snapshot first,
+  // and all sessions end because the snapshot's sessions table may hold tokens that were since logged out.
+  app.post("/api/backups/:name/restore", async (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isFoundation(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const file = snapshotPath(backupConfig, req.params.name);
+    if (!file) return res.status(404).json({ message: "Cadangan tidak ditemukan" });
+    const problem = checkSnapshot(file);
+    if (problem) return res.status(422).json({ message: problem });
+    if (backupBusy) return res.status(409).json({ message: "Pencadangan atau pemulihan lain sedang berjalan" });
+
+    backupBusy = true;
+    try {
+      const safety = await takeSnapshot(db, backupConfig, 'pre-restore');
+      await restoreSnapshot(db, file);
+      runMigrations(db);
+      db.prepare("DELETE FROM sessions").run();
+      audit(user, {
+        action: 'restore',
+        entity: 'backup',
+        entity_id: null,
+        summary: `Memulihkan database dari cadangan ${req.params.name} (data sebelumnya disimpan di ${safety})`,
+      });
+      res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: 'none', secure: true });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Restore failed:', error);
+      res.status(500).json({ message: "Gagal memulihkan database" });
+    } finally {
+      backupBusy = false;
+    }
+  });
+
+  // Change history, newest first; filter by user_id, entity, entity_id, action and a from/to date range.
+  // Teachers only see their own changes.
+  app.get("/api/audit", (req, res) => {
+    const user = getSessionUser(req);
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
+
+    const { user_id, entity, entity_id, action, limit, offset } = req.query;
+    const range = parseBody(res, auditQuerySchema, req.query);
+    if (!range) return;
+
+    res.json(listAudit(db, {
+      school_id: user.school_id,
+      user_id: isAdmin(user) ? (user_id ? Number(user_id) : undefined) : user.id,
+      entity: entity ? String(entity) : undefined,
+      entity_id: entity_id ? Number(entity_id) : undefined,
+      action: action ? String(action) : undefined,
+      from: range.from ?? undefined,
+      to: range.to ?? undefined,
+      limit: Math.min(Math.max(Number(limit) || 50, 1), 500),
+      offset: Math.max(Number(offset) || 0, 0),
+    }));
+  });
+
   app.get("/api/stats", (req, res) => {
     const user = getSessionUser(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ message: "Forbidden" });
+    if (!user || !isStaff(user)) return res.status(403).json({ message: "Forbidden" });
 
-    const totalStudents = db.prepare("SELECT COUNT(*) as count FROM students").get() as { count: number };
+    // Teachers get the figures of their own classes
+    const visible: Scope = { school: user.school_id, classIds: visibleClassIds(user) };
     const today = new Date().toISOString().split('T')[0];
-    const attendanceToday = db.prepare("SELECT status, COUNT(*) as count FROM attendance WHERE date = ? GROUP BY status").all(today);
+    const totalStudents = db.prepare(`SELECT COUNT(*) as count FROM students s WHERE s.archived_at IS NULL AND ${IN_CLASSES}`)
+      .get({ school: visible.school, classes: classFilter(visible.classIds) }) as { count: number };
+    const attendanceToday = db.prepare(`
+      SELECT a.status, COUNT(*) as count
+      FROM attendance a JOIN students s ON s.id = a.student_id
+      WHERE a.date = @today AND a.deleted_at IS NULL AND s.archived_at IS NULL AND ${IN_CLASSES}
+      GROUP BY a.status
+    `).all({ today, school: visible.school, classes: classFilter(visible.classIds) });
+
+    const last30 = periods(30).current;
+    const classes = (db.prepare(`
+      SELECT c.id, c.name, COUNT(s.id) as student_count
+      FROM classes c LEFT JOIN students s ON s.class_id = c.id AND s.archived_at IS NULL
+      WHERE c.school_id = ? GROUP BY c.id ORDER BY c.name
+    `).all(user.school_id) as { id: number; name: string; student_count: number }[]).filter(c => canSeeClass(user, c.id));
+
     res.json({
       totalStudents: totalStudents.count,
-      attendanceToday
+      attendanceToday,
+      averageScore: compare(30, p => averageScore(p, visible)),
+      attendanceRate: {
+        last7: compare(7, p => attendanceRate(p, visible)),
+        last30: compare(30, p => attendanceRate(p, visible)),
+      },
+      negativeBehavior: {
+        last7: compare(7, p => negativeNotes(p, visible)),
+        last30: compare(30, p => negativeNotes(p, visible)),
+      },
+      classBreakdown: classes.map(c => ({
+        ...c,
+        attendanceRate: attendanceRate(last30, { school: user.school_id, classIds: [c.id] }),
+        averageScore: averageScore(last30, { school: user.school_id, classIds: [c.id] }),
+        negativeBehavior: negativeNotes(last30, { school: user.school_id, classIds: [c.id] }),
+      })),
     });
   });
 
+  // Every other path belongs to the app's client-side routes; unknown API paths must not fall through to index.html
+  app.use("/api", (_req, res) => {
+    res.status(404).json({ message: "Alamat API tidak ditemukan" } satisfies ApiError);
+  });
+
+  // Bodies that aren't valid JSON never reach a route; answer them in the same shape as a failed validation
+  app.use((error: any, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (error?.type === 'entity.parse.failed') return res.status(400).json({ message: "Format data tidak valid" } satisfies ApiError);
+    if (error?.type === 'entity.too.large') return res.status(413).json({ message: "Ukuran data terlalu besar" } satisfies ApiError);
+    next(error);
+  });
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
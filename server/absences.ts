@@ -0,0 +1,72 @@
+import type Database from "better-sqlite3";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { AbsenceRequest, AbsenceRequestStatus } from "../src/schemas";
+
+// Doctor's notes and letters attached to absence requests are files in ABSENCE_NOTES_DIR (default
+// ./uploads/absence-notes). They are stored under a random name; the name as uploaded is only kept in the
+// database for the download.
+export const notesDirFromEnv = () => process.env.ABSENCE_NOTES_DIR || path.join('uploads', 'absence-notes');
+
+const MAX_NOTE_BYTES = 5 * 1024 * 1024;
+
+// A phone photo or a scanned PDF. The content has to match the extension, so nothing else can be uploaded
+// under a harmless name and later served back to a teacher's browser.
+const NOTE_TYPES: Record<string, { mime: string; magic: number[] }> = {
+  '.pdf': { mime: 'application/pdf', magic: [0x25, 0x50, 0x44, 0x46] },
+  '.jpg': { mime: 'image/jpeg', magic: [0xff, 0xd8, 0xff] },
+  '.jpeg': { mime: 'image/jpeg', magic: [0xff, 0xd8, 0xff] },
+  '.png': { mime: 'image/png', magic: [0x89, 0x50, 0x4e, 0x47] },
+};
+
+const STORED_NAME = /^[a-f0-9]{32}\.(pdf|jpg|jpeg|png)$/;
+
+// Why a note can't be accepted, or null when it can
+export const checkNote = (fileName: string, content: Buffer) => {
+  const type = NOTE_TYPES[path.extname(fileName).toLowerCase()];
+  if (!type) return "Surat keterangan harus berupa PDF, JPG atau PNG";
+  if (content.length > MAX_NOTE_BYTES) return "Ukuran surat keterangan maksimal 5 MB";
+  if (!type.magic.every((byte, i) => content[i] === byte)) return "Isi file tidak sesuai dengan jenisnya";
+  return null;
+};
+
+// Returns the stored name; check the note with checkNote first
+export const saveNote = (dir: string, fileName: string, content: Buffer) => {
+  fs.mkdirSync(dir, { recursive: true });
+  const stored = `${crypto.randomBytes(16).toString('hex')}${path.extname(fileName).toLowerCase()}`;
+  fs.writeFileSync(path.join(dir, stored), content);
+  return stored;
+};
+
+export const removeNote = (dir: string, stored: string) => {
+  if (STORED_NAME.test(stored)) fs.rmSync(path.join(dir, stored), { force: true });
+};
+
+// Path and content type of a stored note, or null when the file is gone
+export const notePath = (dir: string, stored: string | null) => {
+  if (!stored || !STORED_NAME.test(stored)) return null;
+  const file = path.join(dir, stored);
+  return fs.existsSync(file) ? { file, mime: NOTE_TYPES[path.extname(stored)].mime } : null;
+};
+
+// Requests of one school, pending first; class_ids, when given, keeps only students of those classes
+export const listAbsenceRequests = (
+  db: Database.Database,
+  filter: { school_id: number; statuses: AbsenceRequestStatus[]; student_id?: number; class_ids?: number[] | null },
+) =>
+  db.prepare(`
+    SELECT r.id, r.student_id, s.name as student_name, s.class_id, c.name as class, r.type, r.start_date, r.end_date,
+      r.reason, r.note_name, r.status, requester.username as requested_by, r.created_at,
+      decider.username as decided_by, r.decided_at, r.decision_note
+    FROM absence_requests r JOIN students s ON s.id = r.student_id LEFT JOIN classes c ON c.id = s.class_id
+      JOIN users requester ON requester.id = r.requested_by LEFT JOIN users decider ON decider.id = r.decided_by
+    WHERE r.school_id = ? AND r.status IN (${filter.statuses.map(() => '?').join(', ')}) AND (? IS NULL OR r.student_id = ?)
+      AND (? IS NULL OR s.class_id IN (SELECT value FROM json_each(?)))
+    ORDER BY r.status = 'pending' DESC, r.start_date DESC, r.id DESC
+  `).all(
+    filter.school_id,
+    ...filter.statuses,
+    filter.student_id ?? null, filter.student_id ?? null,
+    filter.class_ids ? JSON.stringify(filter.class_ids) : null, filter.class_ids ? JSON.stringify(filter.class_ids) : null,
+  ) as AbsenceRequest[];
@@ -0,0 +1,116 @@
+import type Database from "better-sqlite3";
+import type { AlertItem, AlertRule, AlertRuleType, AlertStatus } from "../src/schemas";
+
+export const ALERT_STATUSES: AlertStatus[] = ['open', 'acknowledged', 'resolved'];
+
+// One problem a rule found for a student; `scope` separates several findings of the same rule (one per subject)
+type Finding = { scope: string; value: number; message: string };
+
+const sinceDays = (days: number) => new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const RULE_CHECKS: Record<AlertRuleType, (db: Database.Database, studentId: number, rule: AlertRule) => Finding[]> = {
+  // Streak of `absent` counted back from the most recent recorded day
+  consecutive_absences: (db, studentId, rule) => {
+    let streak = 0;
+    const rows = db.prepare("SELECT status FROM attendance WHERE student_id = ? AND deleted_at IS NULL ORDER BY date DESC")
+      .iterate(studentId) as IterableIterator<{ status: string }>;
+    for (const row of rows) {
+      if (row.status !== 'absent') break;
+      streak++;
+    }
+    return streak >= rule.threshold ? [{ scope: '', value: streak, message: `Alpa ${streak} hari berturut-turut` }] : [];
+  },
+
+  low_subject_average: (db, studentId, rule) => {
+    const rows = db.prepare(`
+      SELECT g.subject_id, sub.name, ROUND(AVG(g.score), 1) as average
+      FROM grades g JOIN subjects sub ON sub.id = g.subject_id
+      WHERE g.student_id = ? AND g.deleted_at IS NULL AND g.date >= ?
+      GROUP BY g.subject_id HAVING AVG(g.score) < ?
+    `).all(studentId, sinceDays(rule.window_days ?? 90), rule.threshold) as { subject_id: number; name: string; average: number }[];
+    return rows.map(r => ({
+      scope: String(r.subject_id),
+      value: r.average,
+      message: `Rata-rata ${r.name} ${r.average}, di bawah ${rule.threshold}`,
+    }));
+  },
+
+  negative_behavior: (db, studentId, rule) => {
+    const days = rule.window_days ?? 30;
+    const { count } = db.prepare(`
+      SELECT COUNT(*) as count FROM behavior
+      WHERE student_id = ? AND type = 'negative' AND deleted_at IS NULL AND date >= ?
+    `).get(studentId, sinceDays(days)) as { count: number };
+    return count >= rule.threshold ? [{ scope: '', value: count, message: `${count} catatan negatif dalam ${days} hari terakhir` }] : [];
+  },
+};
+
+// Brings a student's alerts in line with the current data and rules: new findings open an alert,
+// findings that still hold update theirs, and alerts whose condition cleared are resolved.
+// A finding a teacher already resolved by hand is not reopened until its value changes.
+export const evaluateStudentAlerts = (db: Database.Database, studentId: number) => {
+  const now = new Date().toISOString();
+  const student = db.prepare("SELECT archived_at, school_id FROM students WHERE id = ?").get(studentId) as { archived_at: string | null; school_id: number } | undefined;
+  const rules = db.prepare("SELECT * FROM alert_rules WHERE enabled = 1 AND school_id = ?").all(student?.school_id ?? null) as AlertRule[];
+
+  const findings = new Map<string, Finding & { rule_type: AlertRuleType }>();
+  if (student && !student.archived_at) {
+    for (const rule of rules) {
+      for (const f of RULE_CHECKS[rule.type]?.(db, studentId, rule) ?? []) findings.set(`${rule.type}|${f.scope}`, { ...f, rule_type: rule.type });
+    }
+  }
+
+  const active = db.prepare("SELECT * FROM alerts WHERE student_id = ? AND status != 'resolved'").all(studentId) as any[];
+  const lastResolved = db.prepare(`
+    SELECT value, resolved_by FROM alerts WHERE student_id = ? AND rule_type = ? AND scope = ? AND status = 'resolved'
+    ORDER BY updated_at DESC, id DESC LIMIT 1
+  `);
+
+  for (const [key, f] of findings) {
+    const current = active.find(a => `${a.rule_type}|${a.scope}` === key);
+    if (current) {
+      if (current.value !== f.value || current.message !== f.message) {
+        db.prepare("UPDATE alerts SET value = ?, message = ?, updated_at = ? WHERE id = ?").run(f.value, f.message, now, current.id);
+      }
+      continue;
+    }
+    const previous = lastResolved.get(studentId, f.rule_type, f.scope) as { value: number; resolved_by: number | null } | undefined;
+    if (previous && previous.resolved_by !== null && previous.value === f.value) continue;
+    db.prepare(`
+      INSERT INTO alerts (student_id, rule_type, scope, status, message, value, created_at, updated_at)
+      VALUES (?, ?, ?, 'open', ?, ?, ?, ?)
+    `).run(studentId, f.rule_type, f.scope, f.message, f.value, now, now);
+  }
+
+  for (const a of active) {
+    if (!findings.has(`${a.rule_type}|${a.scope}`)) {
+      db.prepare("UPDATE alerts SET status = 'resolved', resolved_by = NULL, updated_at = ? WHERE id = ?").run(now, a.id);
+    }
+  }
+};
+
+// Every active student, plus archived ones that still have alerts to close
+export const evaluateAllAlerts = (db: Database.Database) => {
+  const students = db.prepare(`
+    SELECT id FROM students WHERE archived_at IS NULL
+    UNION SELECT student_id FROM alerts WHERE status != 'resolved'
+  `).all() as { id: number }[];
+  db.transaction(() => {
+    for (const s of students) evaluateStudentAlerts(db, s.id);
+  })();
+};
+
+// Alerts of one school; class_ids limits the list to those classes, e.g. a teacher's, and null or left out means every class
+export const listAlerts = (db: Database.Database, filter: { school_id: number; statuses: AlertStatus[]; student_id?: number; class_ids?: number[] | null }) =>
+  db.prepare(`
+    SELECT a.*, s.name as student_name, c.name as class
+    FROM alerts a JOIN students s ON s.id = a.student_id LEFT JOIN classes c ON c.id = s.class_id
+    WHERE s.school_id = ? AND a.status IN (${filter.statuses.map(() => '?').join(', ')}) AND (? IS NULL OR a.student_id = ?)
+      AND (? IS NULL OR s.class_id IN (SELECT value FROM json_each(?)))
+    ORDER BY a.status = 'open' DESC, a.updated_at DESC
+  `).all(
+    filter.school_id,
+    ...filter.statuses,
+    filter.student_id ?? null, filter.student_id ?? null,
+    filter.class_ids ? JSON.stringify(filter.class_ids) : null, filter.class_ids ? JSON.stringify(filter.class_ids) : null,
+  ) as AlertItem[];
@@ -0,0 +1,70 @@
+import type Database from "better-sqlite3";
+import type { AuditAction, AuditLogEntry } from "../src/schemas";
+
+export type AuditEntry = {
+  action: AuditAction;
+  entity: string;
+  entity_id: number | null;
+  before?: unknown;
+  after?: unknown;
+  summary: string;
+};
+
+export type AuditQuery = {
+  school_id: number | null; // null is the foundation's own log
+  user_id?: number;
+  entity?: string;
+  entity_id?: number;
+  action?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  limit: number;
+  offset: number;
+};
+
+const toJson = (value: unknown) => value === undefined || value === null ? null : JSON.stringify(value);
+
+// Call inside the same transaction as the change so the log never disagrees with the data.
+// Entries written by one request can share `at`, which lets the activity feed group them.
+// The entry goes to the log of the actor's school.
+export const recordAudit = (
+  db: Database.Database,
+  actor: { id: number; username: string; school_id: number | null },
+  entry: AuditEntry,
+  at = new Date().toISOString(),
+) => {
+  db.prepare(`
+    INSERT INTO audit_log (school_id, user_id, username, action, entity, entity_id, before, after, summary, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(actor.school_id, actor.id, actor.username, entry.action, entry.entity, entry.entity_id, toJson(entry.before), toJson(entry.after), entry.summary, at);
+};
+
+// Newest first, with before/after parsed back into objects
+export const listAudit = (db: Database.Database, query: AuditQuery) => {
+  const where = `
+    WHERE school_id IS @school_id
+      AND (@user_id IS NULL OR user_id = @user_id)
+      AND (@entity IS NULL OR entity = @entity)
+      AND (@entity_id IS NULL OR entity_id = @entity_id)
+      AND (@action IS NULL OR action = @action)
+      AND (@from IS NULL OR created_at >= @from)
+      AND (@to IS NULL OR created_at < date(@to, '+1 day'))
+  `;
+  const params = {
+    school_id: query.school_id,
+    user_id: query.user_id ?? null,
+    entity: query.entity ?? null,
+    entity_id: query.entity_id ?? null,
+    action: query.action ?? null,
+    from: query.from ?? null,
+    to: query.to ?? null,
+  };
+
+  const total = (db.prepare(`SELECT COUNT(*) as count FROM audit_log ${where}`).get(params) as { count: number }).count;
+  const rows = db.prepare(`SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT @limit OFFSET @offset`)
+    .all({ ...params, limit: query.limit, offset: query.offset }) as any[];
+  return {
+    total,
+    entries: rows.map((r): AuditLogEntry => ({ ...r, before: r.before ? JSON.parse(r.before) : null, after: r.after ? JSON.parse(r.after) : null })),
+  };
+};
@@ -0,0 +1,109 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { LATEST_SCHEMA_VERSION } from "./migrations";
+import type { BackupKind, BackupSnapshot } from "../src/schemas";
+
+// Snapshots are whole database files named after when and why they were taken, e.g.
+// school-20261019T020000Z-daily.db. The name is the only id, so anything else in the folder is ignored.
+const NAME_PATTERN = /^school-(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z-(manual|daily|pre-restore)\.db$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Transfer everything in one step, so the copy is never left half written between event loop turns
+const ALL_PAGES = 1_000_000_000;
+
+export type BackupConfig = { dir: string; retentionDays: number };
+
+// BACKUP_DIR (default ./backups) and BACKUP_RETENTION_DAYS (default 14, for daily snapshots only)
+export const backupConfigFromEnv = (): BackupConfig => ({
+  dir: process.env.BACKUP_DIR || 'backups',
+  retentionDays: Number(process.env.BACKUP_RETENTION_DAYS) || 14,
+});
+
+const parseName = (name: string): BackupSnapshot | null => {
+  const match = name.match(NAME_PATTERN);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, kind] = match;
+  return { name, kind: kind as BackupKind, created_at: `${y}-${mo}-${d}T${h}:${mi}:${s}.000Z`, size: 0 };
+};
+
+// Newest first
+export const listSnapshots = (config: BackupConfig): BackupSnapshot[] => {
+  if (!fs.existsSync(config.dir)) return [];
+  return fs.readdirSync(config.dir)
+    .map(parseName)
+    .filter((snapshot): snapshot is BackupSnapshot => snapshot !== null)
+    .map(snapshot => ({ ...snapshot, size: fs.statSync(path.join(config.dir, snapshot.name)).size }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// Path of a listed snapshot, or null; names from requests never reach the file system unchecked
+export const snapshotPath = (config: BackupConfig, name: string) => {
+  if (!NAME_PATTERN.test(name)) return null;
+  const file = path.join(config.dir, name);
+  return fs.existsSync(file) ? file : null;
+};
+
+// Uses SQLite's online backup, so the copy is consistent even while requests keep writing. It is written
+// under a temporary name first and only renamed once complete, so a crash never leaves a broken snapshot.
+export const takeSnapshot = async (db: Database.Database, config: BackupConfig, kind: BackupKind) => {
+  fs.mkdirSync(config.dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  const name = `school-${stamp}-${kind}.db`;
+  const partial = path.join(config.dir, `${name}.partial`);
+  await db.backup(partial, { progress: () => ALL_PAGES });
+  fs.renameSync(partial, path.join(config.dir, name));
+  return name;
+};
+
+// Why a snapshot can't be restored, or null when it is sound
+export const checkSnapshot = (file: string): string | null => {
+  let snapshot: Database.Database;
+  try {
+    snapshot = new Database(file, { readonly: true, fileMustExist: true });
+  } catch {
+    return "Berkas cadangan tidak dapat dibuka";
+  }
+  try {
+    const integrity = snapshot.pragma('integrity_check', { simple: true });
+    if (integrity !== 'ok') return `Pemeriksaan integritas gagal: ${integrity}`;
+    const { version } = snapshot.prepare("SELECT MAX(version) as version FROM schema_migrations").get() as { version: number | null };
+    if (!version) return "Berkas ini bukan database aplikasi ini";
+    if (version > LATEST_SCHEMA_VERSION) return "Cadangan ini dibuat oleh versi aplikasi yang lebih baru";
+    return null;
+  } catch {
+    return "Berkas cadangan rusak atau bukan database aplikasi ini";
+  } finally {
+    snapshot.close();
+  }
+};
+
+// Copies the snapshot over the live database file through the same backup API. The copy is written by a
+// second connection that backup() opens on db.name, under SQLite's file locks; the server's own connection
+// stays open and reads the restored pages on its next query, so no restart is needed. An older snapshot may
+// still need the caller to run migrations afterwards.
+export const restoreSnapshot = async (db: Database.Database, file: string) => {
+  const snapshot = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    await snapshot.backup(db.name, { progress: () => ALL_PAGES });
+  } finally {
+    snapshot.close();
+  }
+};
+
+// Daily snapshots past the retention window are removed, but the newest one always stays.
+// Manual and pre-restore snapshots are kept until someone deletes them from the folder.
+export const pruneSnapshots = (config: BackupConfig) => {
+  const cutoff = new Date(Date.now() - config.retentionDays * DAY_MS).toISOString();
+  const [, ...older] = listSnapshots(config).filter(s => s.kind === 'daily');
+  for (const snapshot of older.filter(s => s.created_at < cutoff)) fs.unlinkSync(path.join(config.dir, snapshot.name));
+};
+
+// Called on startup and every hour; takes a snapshot once the last daily one is a day old
+export const runDailySnapshot = async (db: Database.Database, config: BackupConfig) => {
+  const last = listSnapshots(config).find(s => s.kind === 'daily');
+  if (last && Date.now() - new Date(last.created_at).getTime() < DAY_MS) return;
+  await takeSnapshot(db, config, 'daily');
+  pruneSnapshots(config);
+};
@@ -0,0 +1,62 @@
+import type Database from "better-sqlite3";
+import type { BehaviorPoints } from "../src/schemas";
+
+export type FollowupStatus = 'open' | 'done';
+
+export const FOLLOWUP_STATUSES: FollowupStatus[] = ['open', 'done'];
+
+type Term = { id: number; name: string; start_date: string; end_date: string };
+
+// Terms belong to a school through their academic year
+const termForDate = (db: Database.Database, schoolId: number, date: string) =>
+  db.prepare(`
+    SELECT t.id, t.name, t.start_date, t.end_date FROM terms t JOIN academic_years y ON y.id = t.academic_year_id
+    WHERE y.school_id = ? AND ? BETWEEN t.start_date AND t.end_date ORDER BY t.start_date LIMIT 1
+  `).get(schoolId, date) as Term | undefined;
+
+export const behaviorPoints = (db: Database.Database, studentId: number, termId: number): BehaviorPoints | null => {
+  const term = db.prepare("SELECT id, name, start_date, end_date FROM terms WHERE id = ?").get(termId) as Term | undefined;
+  if (!term) return null;
+
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(CASE WHEN type = 'negative' THEN points END), 0) as violation,
+      COALESCE(SUM(CASE WHEN type = 'positive' THEN points END), 0) as achievement
+    FROM behavior WHERE student_id = ? AND date BETWEEN ? AND ? AND deleted_at IS NULL
+  `).get(studentId, term.start_date, term.end_date) as { violation: number; achievement: number };
+  return { term_id: term.id, term: term.name, ...row, balance: row.violation - row.achievement };
+};
+
+// Opens a follow-up for every enabled threshold the student's balance has reached in the term of `date`.
+// Each action is opened once per term; follow-ups stay when the balance later drops, since the letter or
+// summons may already have gone out.
+export const applySanctions = (db: Database.Database, studentId: number, date: string) => {
+  const student = db.prepare("SELECT school_id FROM students WHERE id = ?").get(studentId) as { school_id: number } | undefined;
+  const term = student && termForDate(db, student.school_id, date);
+  if (!term) return;
+  const points = behaviorPoints(db, studentId, term.id)!;
+
+  const thresholds = db.prepare("SELECT * FROM sanction_thresholds WHERE school_id = ? AND enabled = 1 AND points <= ? ORDER BY points")
+    .all(student.school_id, points.balance) as { action: string; label: string }[];
+  const insert = db.prepare(`
+    INSERT INTO behavior_followups (student_id, term_id, action, label, points, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(student_id, term_id, action) DO NOTHING
+  `);
+  const now = new Date().toISOString();
+  for (const t of thresholds) insert.run(studentId, term.id, t.action, t.label, points.balance, now);
+};
+
+// Open follow-ups of one school first; class_ids, when given, keeps only students of those classes
+export const listFollowups = (db: Database.Database, filter: { school_id: number; statuses: FollowupStatus[]; student_id?: number; class_ids?: number[] | null }) =>
+  db.prepare(`
+    SELECT f.*, s.name as student_name, s.class_id, c.name as class, t.name as term
+    FROM behavior_followups f JOIN students s ON s.id = f.student_id LEFT JOIN classes c ON c.id = s.class_id
+      LEFT JOIN terms t ON t.id = f.term_id
+    WHERE s.school_id = ? AND f.status IN (${filter.statuses.map(() => '?').join(', ')}) AND (? IS NULL OR f.student_id = ?)
+      AND (? IS NULL OR s.class_id IN (SELECT value FROM json_each(?)))
+    ORDER BY f.status = 'open' DESC, f.created_at DESC
+  `).all(
+    filter.school_id,
+    ...filter.statuses,
+    filter.student_id ?? null, filter.student_id ?? null,
+    filter.class_ids ? JSON.stringify(filter.class_ids) : null, filter.class_ids ? JSON.stringify(filter.class_ids) : null,
+  );
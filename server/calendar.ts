@@ -0,0 +1,36 @@
+import type Database from "better-sqlite3";
+import type { CalendarEntry } from "../src/schemas";
+
+const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+// Every date from `from` to `to`, both inclusive
+export const eachDay = (from: string, to: string) => {
+  const days: string[] = [];
+  for (let d = new Date(`${from}T00:00:00Z`); toISODate(d) <= to; d.setUTCDate(d.getUTCDate() + 1)) days.push(toISODate(d));
+  return days;
+};
+
+// A school's entries overlapping the range, oldest first
+export const listCalendar = (db: Database.Database, schoolId: number, from: string, to: string) =>
+  db.prepare("SELECT id, start_date, end_date, type, description FROM school_calendar WHERE school_id = ? AND start_date <= ? AND end_date >= ? ORDER BY start_date, id")
+    .all(schoolId, to, from) as CalendarEntry[];
+
+// Days off in the range, keyed by date, with the entry that makes them one
+export const daysOff = (db: Database.Database, schoolId: number, from: string, to: string) => {
+  const off = new Map<string, CalendarEntry>();
+  for (const entry of listCalendar(db, schoolId, from, to)) {
+    for (const day of eachDay(entry.start_date > from ? entry.start_date : from, entry.end_date < to ? entry.end_date : to)) {
+      if (!off.has(day)) off.set(day, entry);
+    }
+  }
+  return off;
+};
+
+// Weekdays in the range that aren't a holiday or non-school day
+export const schoolDaysBetween = (db: Database.Database, schoolId: number, from: string, to: string) => {
+  const off = daysOff(db, schoolId, from, to);
+  return eachDay(from, to).filter(day => {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !off.has(day);
+  });
+};
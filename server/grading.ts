@@ -0,0 +1,72 @@
+import type Database from "better-sqlite3";
+import type { FinalScore, RemedialStatus } from "../src/schemas";
+
+// Pass mark for a subject and class that has no KKM set
+export const DEFAULT_KKM = 75;
+
+export type AssessmentWeight = { assessment_type_id: number; code: string; name: string; weight: number };
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const getKkm = (db: Database.Database, subjectId: number, classId: number | null) => {
+  const row = db.prepare("SELECT score FROM kkm WHERE subject_id = ? AND class_id = ?").get(subjectId, classId) as { score: number } | undefined;
+  return row?.score ?? DEFAULT_KKM;
+};
+
+// Weight of every assessment type for a subject, falling back to the type's default
+export const getWeights = (db: Database.Database, subjectId: number) =>
+  db.prepare(`
+    SELECT t.id as assessment_type_id, t.code, t.name, COALESCE(w.weight, t.default_weight) as weight
+    FROM assessment_types t LEFT JOIN assessment_weights w ON w.assessment_type_id = t.id AND w.subject_id = ?
+    ORDER BY t.id
+  `).all(subjectId) as AssessmentWeight[];
+
+// A remedial retake lifts a score below KKM, but never above the KKM itself
+const effectiveScore = (score: number, remedialScore: number | null, kkm: number) =>
+  remedialScore === null ? score : Math.max(score, Math.min(remedialScore, kkm));
+
+// Weighted final score per subject for a student's term. Weights are re-scaled over the assessment types
+// that have scores so far, so a mid-term average isn't dragged down by a UAS that hasn't happened yet.
+export const computeFinalScores = (db: Database.Database, studentId: number, termId: number): FinalScore[] => {
+  const student = db.prepare("SELECT class_id FROM students WHERE id = ?").get(studentId) as { class_id: number | null } | undefined;
+  const grades = db.prepare(`
+    SELECT g.subject_id, sub.name as subject, g.assessment_type_id, g.score,
+      (SELECT MAX(r.score) FROM grades r WHERE r.remedial_of = g.id AND r.deleted_at IS NULL) as remedial_score
+    FROM grades g JOIN subjects sub ON sub.id = g.subject_id
+    WHERE g.student_id = ? AND g.term_id = ? AND g.deleted_at IS NULL AND g.remedial_of IS NULL
+    ORDER BY sub.name
+  `).all(studentId, termId) as { subject_id: number; subject: string; assessment_type_id: number; score: number; remedial_score: number | null }[];
+
+  const subjectIds = Array.from(new Set(grades.map(g => g.subject_id)));
+  return subjectIds.map(subjectId => {
+    const subjectGrades = grades.filter(g => g.subject_id === subjectId);
+    const kkm = getKkm(db, subjectId, student?.class_id ?? null);
+    const components = getWeights(db, subjectId).flatMap(w => {
+      const scores = subjectGrades.filter(g => g.assessment_type_id === w.assessment_type_id).map(g => effectiveScore(g.score, g.remedial_score, kkm));
+      if (scores.length === 0) return [];
+      return [{ assessment_type_id: w.assessment_type_id, name: w.name, weight: w.weight, average: round1(scores.reduce((a, b) => a + b, 0) / scores.length), count: scores.length }];
+    });
+
+    const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+    const final = totalWeight > 0 ? round1(components.reduce((sum, c) => sum + c.average * c.weight, 0) / totalWeight) : null;
+    return { subject_id: subjectId, subject: subjectGrades[0].subject, kkm, components, final, passed: final === null ? null : final >= kkm };
+  });
+};
+
+// Adds the KKM and remedial status to a student's grade rows for the detail view
+export const annotateGrades = <T extends { id: number; subject_id: number; score: number; remedial_of: number | null }>(
+  db: Database.Database,
+  classId: number | null,
+  grades: T[],
+) =>
+  grades.map(g => {
+    const kkm = getKkm(db, g.subject_id, classId);
+    let remedial_status: RemedialStatus | null = null;
+    if (g.remedial_of !== null) {
+      remedial_status = 'retake';
+    } else if (g.score < kkm) {
+      const retakes = grades.filter(r => r.remedial_of === g.id);
+      remedial_status = retakes.length === 0 ? 'required' : retakes.some(r => r.score >= kkm) ? 'passed' : 'failed';
+    }
+    return { ...g, kkm, below_kkm: g.score < kkm, remedial_status };
+  });
@@ -0,0 +1,46 @@
+import type Database from "better-sqlite3";
+import type express from "express";
+
+// How long a key is remembered; a device that was offline longer than this has to re-enter its writes
+const KEY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,100}$/;
+
+// Writes sent with an Idempotency-Key header are applied once: a repeat with the same key gets the first
+// response back instead of creating the record again, which is what makes replaying the offline queue safe.
+// The handler runs inside a transaction together with storing the key, so a write can never be committed
+// without its key. Only synchronous handlers may be wrapped. Rejected requests (4xx) are not remembered,
+// so the same key can be retried once the problem is fixed.
+export const idempotent = (
+  db: Database.Database,
+  userOf: (req: express.Request) => { id: number } | null,
+): express.RequestHandler => (req, res, next) => {
+  const key = req.get('Idempotency-Key');
+  const user = key ? userOf(req) : null;
+  if (!key || !user) return next();
+  if (!KEY_PATTERN.test(key)) return res.status(400).json({ message: "Idempotency-Key tidak valid" });
+
+  const stored = db.prepare("SELECT * FROM idempotency_keys WHERE user_id = ? AND key = ?").get(user.id, key) as any;
+  if (stored) {
+    if (stored.method !== req.method || stored.path !== req.path) {
+      return res.status(422).json({ message: "Idempotency-Key sudah dipakai untuk permintaan lain" });
+    }
+    res.setHeader('Idempotent-Replayed', 'true');
+    return res.status(stored.status).json(JSON.parse(stored.response));
+  }
+
+  const send = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      db.prepare(`
+        INSERT INTO idempotency_keys (user_id, key, method, path, status, response, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(user.id, key, req.method, req.path, res.statusCode, JSON.stringify(body), new Date().toISOString());
+    }
+    return send(body);
+  };
+  db.transaction(() => next())();
+};
+
+export const pruneIdempotencyKeys = (db: Database.Database) => {
+  db.prepare("DELETE FROM idempotency_keys WHERE created_at < ?").run(new Date(Date.now() - KEY_TTL_MS).toISOString());
+};
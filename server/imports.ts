@@ -0,0 +1,226 @@
+import type Database from "better-sqlite3";
+import ExcelJS from "exceljs";
+
+export type ImportKind = 'students' | 'grades';
+
+export type Sheet = { headers: string[]; rows: string[][] };
+
+export type ImportRow = {
+  row: number; // 1-based spreadsheet row, counting the header
+  action: 'create' | 'update' | 'reject';
+  reasons: string[];
+  data: Record<string, any>;
+  existing_id?: number;
+};
+
+// Fields each import understands, with header names we map automatically
+export const IMPORT_FIELDS: Record<ImportKind, { field: string; label: string; required: boolean; aliases: string[] }[]> = {
+  students: [
+    { field: 'name', label: 'Nama Siswa', required: true, aliases: ['nama', 'nama siswa', 'name'] },
+    { field: 'class', label: 'Kelas', required: true, aliases: ['kelas', 'class', 'rombel'] },
+    { field: 'parent_name', label: 'Nama Orang Tua', required: false, aliases: ['orang tua', 'nama orang tua', 'wali', 'parent', 'parent_name'] },
+    { field: 'phone', label: 'Telepon', required: false, aliases: ['telepon', 'no hp', 'hp', 'phone', 'telp'] },
+  ],
+  grades: [
+    { field: 'student', label: 'Siswa (ID atau nama)', required: true, aliases: ['siswa', 'nama', 'nama siswa', 'student', 'id siswa', 'student_id'] },
+    { field: 'class', label: 'Kelas', required: false, aliases: ['kelas', 'class'] },
+    { field: 'subject', label: 'Mata Pelajaran', required: true, aliases: ['mapel', 'mata pelajaran', 'subject', 'pelajaran'] },
+    { field: 'assessment', label: 'Jenis Penilaian', required: false, aliases: ['jenis', 'jenis penilaian', 'penilaian', 'kategori', 'assessment'] },
+    { field: 'score', label: 'Nilai', required: true, aliases: ['nilai', 'score', 'skor'] },
+    { field: 'date', label: 'Tanggal', required: true, aliases: ['tanggal', 'date', 'tgl'] },
+  ],
+};
+
+const PHONE_PATTERN = /^\+?[0-9]{8,15}$/;
+
+// Minimal RFC 4180 parser; Indonesian Excel exports often use ';' so the delimiter is sniffed from the header
+const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows;
+};
+
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    if ('richText' in value) return value.richText.map(r => r.text).join('');
+  }
+  return String(value);
+};
+
+export const parseSpreadsheet = async (fileName: string, content: Buffer): Promise<Sheet> => {
+  let table: string[][];
+  if (/\.xlsx$/i.test(fileName)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(content as any);
+    const sheet = workbook.worksheets[0];
+    table = [];
+    sheet?.eachRow({ includeEmpty: true }, (row) => {
+      const values = row.values as ExcelJS.CellValue[]; // 1-based, index 0 is empty
+      table.push(values.slice(1).map(cellToString));
+    });
+  } else if (/\.csv$/i.test(fileName)) {
+    table = parseCsv(content.toString('utf8').replace(/^\uFEFF/, ''));
+  } else {
+    throw new Error("Format file harus CSV atau XLSX");
+  }
+
+  const [headerRow = [], ...rows] = table;
+  return {
+    headers: headerRow.map(h => h.trim()),
+    rows: rows.map(r => r.map(c => c.trim())),
+  };
+};
+
+// Picks a column for each field by matching header names against known aliases
+export const suggestMapping = (kind: ImportKind, headers: string[]): Record<string, number | null> => {
+  const normalized = headers.map(h => h.toLowerCase().replace(/[_\s]+/g, ' ').trim());
+  return Object.fromEntries(IMPORT_FIELDS[kind].map(f => {
+    const index = normalized.findIndex(h => f.aliases.includes(h));
+    return [f.field, index >= 0 ? index : null];
+  }));
+};
+
+// Accepts 2026-10-19, 19/10/2026 and 19-10-2026
+const parseDate = (value: string): string | null => {
+  let y: string, m: string, d: string;
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (iso) [, y, m, d] = iso;
+  else if (local) [, d, m, y] = local;
+  else return null;
+
+  const date = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+};
+
+const pick = (row: string[], mapping: Record<string, number | null>, field: string) => {
+  const index = mapping[field];
+  return index === null || index === undefined ? '' : (row[index] ?? '');
+};
+
+const isBlank = (row: string[]) => row.every(c => !c);
+
+// Both plans only match classes, subjects and students of the importing school
+export const planStudentImport = (db: Database.Database, schoolId: number, sheet: Sheet, mapping: Record<string, number | null>): ImportRow[] => {
+  const findClass = db.prepare("SELECT id FROM classes WHERE school_id = ? AND name = ?");
+  const findStudent = db.prepare("SELECT id FROM students WHERE name = ? COLLATE NOCASE AND class_id = ? AND archived_at IS NULL");
+  const seen = new Set<string>();
+
+  return sheet.rows.flatMap((row, i): ImportRow[] => {
+    if (isBlank(row)) return [];
+    const reasons: string[] = [];
+    const name = pick(row, mapping, 'name');
+    const className = pick(row, mapping, 'class');
+    const phone = pick(row, mapping, 'phone').replace(/[\s-]/g, '');
+
+    if (!name) reasons.push("Nama siswa kosong");
+    else if (name.length > 100) reasons.push("Nama siswa lebih dari 100 karakter");
+    const classRow = className ? findClass.get(schoolId, className) as { id: number } | undefined : undefined;
+    if (!className) reasons.push("Kelas kosong");
+    else if (!classRow) reasons.push(`Kelas "${className}" tidak dikenal`);
+    if (phone && !PHONE_PATTERN.test(phone)) reasons.push("Nomor telepon tidak valid");
+
+    const key = `${name.toLowerCase()}|${classRow?.id}`;
+    if (name && classRow && seen.has(key)) reasons.push("Duplikat dengan baris sebelumnya");
+    seen.add(key);
+
+    const data = { name, class_id: classRow?.id, class: className, parent_name: pick(row, mapping, 'parent_name') || null, phone: phone || null };
+    if (reasons.length > 0) return [{ row: i + 2, action: 'reject', reasons, data }];
+
+    const existing = findStudent.get(name, classRow!.id) as { id: number } | undefined;
+    return [{ row: i + 2, action: existing ? 'update' : 'create', reasons, data, existing_id: existing?.id }];
+  });
+};
+
+export const planGradeImport = (db: Database.Database, schoolId: number, sheet: Sheet, mapping: Record<string, number | null>): ImportRow[] => {
+  const findStudentById = db.prepare("SELECT id FROM students WHERE school_id = ? AND id = ? AND archived_at IS NULL");
+  const findStudentsByName = db.prepare(`
+    SELECT s.id FROM students s LEFT JOIN classes c ON c.id = s.class_id
+    WHERE s.school_id = ? AND s.name = ? COLLATE NOCASE AND s.archived_at IS NULL AND (? = '' OR c.name = ?)
+  `);
+  const findSubject = db.prepare("SELECT id FROM subjects WHERE school_id = ? AND (name = ? OR code = ? COLLATE NOCASE)");
+  // Accepts the code (uh, uts) or the name (Ulangan Harian); a blank column means ulangan harian
+  const findAssessment = db.prepare("SELECT id FROM assessment_types WHERE code = ? COLLATE NOCASE OR name = ? COLLATE NOCASE");
+  const findGrade = db.prepare(`
+    SELECT id FROM grades
+    WHERE student_id = ? AND subject_id = ? AND assessment_type_id = ? AND date = ? AND deleted_at IS NULL AND remedial_of IS NULL
+  `);
+  const seen = new Set<string>();
+
+  return sheet.rows.flatMap((row, i): ImportRow[] => {
+    if (isBlank(row)) return [];
+    const reasons: string[] = [];
+    const studentRef = pick(row, mapping, 'student');
+    const className = pick(row, mapping, 'class');
+    const subjectRef = pick(row, mapping, 'subject');
+    const scoreText = pick(row, mapping, 'score').replace(',', '.');
+    const dateText = pick(row, mapping, 'date');
+
+    let studentId: number | undefined;
+    if (!studentRef) {
+      reasons.push("Siswa kosong");
+    } else if (/^\d+$/.test(studentRef)) {
+      studentId = (findStudentById.get(schoolId, studentRef) as { id: number } | undefined)?.id;
+      if (!studentId) reasons.push(`Siswa dengan ID ${studentRef} tidak dikenal`);
+    } else {
+      const matches = findStudentsByName.all(schoolId, studentRef, className, className) as { id: number }[];
+      if (matches.length === 0) reasons.push(`Siswa "${studentRef}" tidak dikenal`);
+      else if (matches.length > 1) reasons.push(`Nama "${studentRef}" ada di beberapa kelas, isi kolom kelas`);
+      else studentId = matches[0].id;
+    }
+
+    const subject = subjectRef ? findSubject.get(schoolId, subjectRef, subjectRef) as { id: number } | undefined : undefined;
+    if (!subjectRef) reasons.push("Mata pelajaran kosong");
+    else if (!subject) reasons.push(`Mata pelajaran "${subjectRef}" tidak dikenal`);
+
+    const score = Number(scoreText);
+    if (!scoreText || isNaN(score)) reasons.push("Nilai bukan angka");
+    else if (score < 0 || score > 100) reasons.push("Nilai di luar rentang 0-100");
+
+    const date = parseDate(dateText);
+    if (!date) reasons.push(`Tanggal "${dateText}" tidak valid`);
+
+    const assessmentRef = pick(row, mapping, 'assessment') || 'uh';
+    const assessment = findAssessment.get(assessmentRef, assessmentRef) as { id: number } | undefined;
+    if (!assessment) reasons.push(`Jenis penilaian "${assessmentRef}" tidak dikenal`);
+
+    // The same grade twice, keyed like the lookup of an existing grade
+    const key = `${studentId}|${subject?.id}|${assessment?.id}|${date}`;
+    if (studentId && subject && assessment && date && seen.has(key)) reasons.push("Duplikat dengan baris sebelumnya");
+    seen.add(key);
+
+    const data = { student_id: studentId, student: studentRef, class: className, subject_id: subject?.id, subject: subjectRef, assessment_type_id: assessment?.id, score, date };
+    if (reasons.length > 0) return [{ row: i + 2, action: 'reject', reasons, data }];
+
+    const existing = findGrade.get(studentId, subject!.id, assessment!.id, date) as { id: number } | undefined;
+    return [{ row: i + 2, action: existing ? 'update' : 'create', reasons, data, existing_id: existing?.id }];
+  });
+};
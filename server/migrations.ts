@@ -0,0 +1,638 @@
+import type Database from "better-sqlite3";
+import { hashPassword, isHashed } from "./passwords";
+
+type Migration = {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+};
+
+// "10 a" / " 10-A " / "10-a" all become "10-A"
+const normalizeClassName = (name: string) => name.trim().replace(/[\s_-]+/g, '-').toUpperCase();
+
+const normalizeSubjectName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+const hasColumn = (db: Database.Database, table: string, column: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some(c => c.name === column);
+
+// Append new migrations at the end with the next version number; never edit one that has shipped.
+// Early migrations use IF NOT EXISTS so databases created by the old startup block upgrade cleanly.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        password TEXT NOT NULL,
+        role TEXT NOT NULL, -- teacher, student, parent
+        student_id INTEGER, -- set for students only
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS students (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        class TEXT NOT NULL,
+        parent_name TEXT,
+        phone TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS attendance (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER,
+        date TEXT NOT NULL,
+        status TEXT NOT NULL, -- present, absent, late, sick
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS grades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER,
+        subject TEXT NOT NULL,
+        score REAL,
+        date TEXT NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS behavior (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER,
+        type TEXT NOT NULL, -- positive, negative
+        description TEXT,
+        date TEXT NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      );
+    `),
+  },
+  {
+    version: 2,
+    name: "one attendance record per student per day",
+    up: (db) => db.exec(`
+      DELETE FROM attendance WHERE id NOT IN (
+        SELECT MAX(id) FROM attendance GROUP BY student_id, date
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_student_date ON attendance(student_id, date);
+    `),
+  },
+  {
+    version: 3,
+    name: "student archiving",
+    up: (db) => {
+      // archived_at stays NULL while the student is active
+      if (!hasColumn(db, 'students', 'archived_at')) {
+        db.exec("ALTER TABLE students ADD COLUMN archived_at TEXT");
+      }
+    },
+  },
+  {
+    version: 4,
+    name: "hashed passwords and sessions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          token TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+      const users = db.prepare("SELECT id, password FROM users").all() as { id: number; password: string }[];
+      const rehash = db.prepare("UPDATE users SET password = ? WHERE id = ?");
+      for (const u of users) {
+        if (!isHashed(u.password)) rehash.run(hashPassword(u.password), u.id);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: "parent accounts",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS parent_students (
+        user_id INTEGER NOT NULL,
+        student_id INTEGER NOT NULL,
+        PRIMARY KEY (user_id, student_id),
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      );
+    `),
+  },
+  {
+    version: 6,
+    name: "classes, subjects and academic terms",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE classes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL COLLATE NOCASE
+        );
+
+        CREATE TABLE subjects (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+          code TEXT
+        );
+
+        CREATE TABLE academic_years (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL, -- e.g. 2026/2027
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL
+        );
+
+        CREATE TABLE terms (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          academic_year_id INTEGER NOT NULL,
+          name TEXT NOT NULL, -- Ganjil, Genap
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          UNIQUE (academic_year_id, name),
+          FOREIGN KEY (academic_year_id) REFERENCES academic_years(id)
+        );
+
+        ALTER TABLE students ADD COLUMN class_id INTEGER REFERENCES classes(id);
+        ALTER TABLE grades ADD COLUMN subject_id INTEGER REFERENCES subjects(id);
+        ALTER TABLE grades ADD COLUMN term_id INTEGER REFERENCES terms(id);
+        ALTER TABLE attendance ADD COLUMN class_id INTEGER REFERENCES classes(id);
+        ALTER TABLE attendance ADD COLUMN term_id INTEGER REFERENCES terms(id);
+      `);
+
+      // Move the free-text class and subject values over to the new tables
+      const insertClass = db.prepare("INSERT OR IGNORE INTO classes (name) VALUES (?)");
+      const findClass = db.prepare("SELECT id FROM classes WHERE name = ?");
+      const setStudentClass = db.prepare("UPDATE students SET class_id = ? WHERE id = ?");
+      for (const s of db.prepare("SELECT id, class FROM students").all() as { id: number; class: string }[]) {
+        const name = normalizeClassName(s.class);
+        insertClass.run(name);
+        setStudentClass.run((findClass.get(name) as { id: number }).id, s.id);
+      }
+
+      const insertSubject = db.prepare("INSERT OR IGNORE INTO subjects (name) VALUES (?)");
+      const findSubject = db.prepare("SELECT id FROM subjects WHERE name = ?");
+      const setGradeSubject = db.prepare("UPDATE grades SET subject_id = ? WHERE id = ?");
+      for (const g of db.prepare("SELECT id, subject FROM grades").all() as { id: number; subject: string }[]) {
+        const name = normalizeSubjectName(g.subject);
+        insertSubject.run(name);
+        setGradeSubject.run((findSubject.get(name) as { id: number }).id, g.id);
+      }
+
+      db.exec(`
+        UPDATE attendance SET class_id = (SELECT class_id FROM students WHERE students.id = attendance.student_id);
+        ALTER TABLE students DROP COLUMN class;
+        ALTER TABLE grades DROP COLUMN subject;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "school settings and homeroom teachers",
+    up: (db) => db.exec(`
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY, -- school_name, school_address, school_city
+        value TEXT
+      );
+
+      ALTER TABLE classes ADD COLUMN homeroom_teacher TEXT;
+    `),
+  },
+  {
+    version: 8,
+    name: "audit log",
+    up: (db) => db.exec(`
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER,
+        username TEXT NOT NULL, -- kept so entries stay readable if the account is removed
+        action TEXT NOT NULL, -- create, update, delete, restore, archive, link, unlink, password
+        entity TEXT NOT NULL, -- student, attendance, grade, behavior, class, subject, ...
+        entity_id INTEGER,
+        before TEXT, -- JSON snapshot of the row before the change
+        after TEXT, -- JSON snapshot of the row after the change
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_audit_log_entity ON audit_log(entity, entity_id);
+      CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+    `),
+  },
+  {
+    version: 9,
+    name: "soft delete for attendance, grades and behavior",
+    up: (db) => db.exec(`
+      ALTER TABLE attendance ADD COLUMN deleted_at TEXT;
+      ALTER TABLE grades ADD COLUMN deleted_at TEXT;
+      ALTER TABLE behavior ADD COLUMN deleted_at TEXT;
+    `),
+  },
+  {
+    version: 10,
+    name: "early-warning alerts",
+    up: (db) => db.exec(`
+      CREATE TABLE alert_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT UNIQUE NOT NULL, -- consecutive_absences, low_subject_average, negative_behavior
+        threshold REAL NOT NULL,
+        window_days INTEGER, -- look-back period; unused by consecutive_absences
+        enabled INTEGER NOT NULL DEFAULT 1
+      );
+
+      INSERT INTO alert_rules (type, threshold, window_days) VALUES
+        ('consecutive_absences', 3, NULL),
+        ('low_subject_average', 70, 90),
+        ('negative_behavior', 3, 30);
+
+      CREATE TABLE alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        rule_type TEXT NOT NULL,
+        scope TEXT NOT NULL DEFAULT '', -- what within the rule the alert is about, e.g. the subject id for low_subject_average
+        status TEXT NOT NULL DEFAULT 'open', -- open, acknowledged, resolved
+        message TEXT NOT NULL,
+        value REAL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        acknowledged_by INTEGER,
+        resolved_by INTEGER, -- NULL when resolved automatically
+        FOREIGN KEY (student_id) REFERENCES students(id)
+      );
+
+      CREATE INDEX idx_alerts_student ON alerts(student_id, rule_type, scope);
+      CREATE INDEX idx_alerts_status ON alerts(status);
+    `),
+  },
+  {
+    version: 11,
+    name: "parent notifications",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE notification_templates (
+          event TEXT PRIMARY KEY, -- absent_today, negative_behavior, new_grade
+          body TEXT NOT NULL, -- placeholders: {nama} {kelas} {tanggal} {mapel} {nilai} {catatan} {sekolah}
+          enabled INTEGER NOT NULL DEFAULT 1
+        );
+
+        CREATE TABLE notification_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          student_id INTEGER NOT NULL,
+          event TEXT NOT NULL,
+          ref TEXT NOT NULL, -- what triggered it (attendance date, grade or behavior id), so it is queued once
+          phone TEXT NOT NULL,
+          body TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, failed, cancelled
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          sent_at TEXT,
+          FOREIGN KEY (student_id) REFERENCES students(id)
+        );
+
+        CREATE UNIQUE INDEX idx_notification_outbox_ref ON notification_outbox(student_id, event, ref);
+        CREATE INDEX idx_notification_outbox_due ON notification_outbox(status, next_attempt_at);
+
+        ALTER TABLE students ADD COLUMN notifications_opt_out INTEGER NOT NULL DEFAULT 0;
+      `);
+
+      const insert = db.prepare("INSERT INTO notification_templates (event, body) VALUES (?, ?)");
+      insert.run('absent_today', "Yth. Bapak/Ibu, kami informasikan bahwa {nama} ({kelas}) tidak hadir tanpa keterangan pada {tanggal}. Mohon konfirmasi kepada wali kelas. - {sekolah}");
+      insert.run('negative_behavior', "Yth. Bapak/Ibu, terdapat catatan perilaku untuk {nama} ({kelas}) pada {tanggal}: {catatan}. - {sekolah}");
+      insert.run('new_grade', "Yth. Bapak/Ibu, nilai {mapel} {nama} ({kelas}) pada {tanggal}: {nilai}. - {sekolah}");
+    },
+  },
+  {
+    version: 12,
+    name: "assessment types, weights and KKM",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE assessment_types (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          code TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          default_weight REAL NOT NULL -- used for subjects without their own weights
+        );
+
+        INSERT INTO assessment_types (code, name, default_weight) VALUES
+          ('tugas', 'Tugas', 20),
+          ('uh', 'Ulangan Harian', 30),
+          ('uts', 'UTS', 20),
+          ('uas', 'UAS', 30);
+
+        CREATE TABLE assessment_weights (
+          subject_id INTEGER NOT NULL,
+          assessment_type_id INTEGER NOT NULL,
+          weight REAL NOT NULL,
+          PRIMARY KEY (subject_id, assessment_type_id),
+          FOREIGN KEY (subject_id) REFERENCES subjects(id),
+          FOREIGN KEY (assessment_type_id) REFERENCES assessment_types(id)
+        );
+
+        CREATE TABLE kkm (
+          subject_id INTEGER NOT NULL,
+          class_id INTEGER NOT NULL,
+          score REAL NOT NULL,
+          PRIMARY KEY (subject_id, class_id),
+          FOREIGN KEY (subject_id) REFERENCES subjects(id),
+          FOREIGN KEY (class_id) REFERENCES classes(id)
+        );
+
+        ALTER TABLE grades ADD COLUMN assessment_type_id INTEGER REFERENCES assessment_types(id);
+        ALTER TABLE grades ADD COLUMN remedial_of INTEGER REFERENCES grades(id); -- set on a remedial retake of a grade below KKM
+      `);
+
+      // Existing scores were mostly daily quizzes
+      db.prepare("UPDATE grades SET assessment_type_id = (SELECT id FROM assessment_types WHERE code = 'uh')").run();
+    },
+  },
+  {
+    version: 13,
+    name: "school calendar",
+    up: (db) => db.exec(`
+      CREATE TABLE school_calendar (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        start_date TEXT NOT NULL,
+        end_date TEXT NOT NULL, -- inclusive; equal to start_date for a single day
+        type TEXT NOT NULL, -- holiday, non_school
+        description TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_school_calendar_dates ON school_calendar (start_date, end_date);
+    `),
+  },
+  {
+    version: 14,
+    name: "behavior points and sanctions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE behavior_categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+          type TEXT NOT NULL, -- positive (poin prestasi), negative (poin pelanggaran)
+          points INTEGER NOT NULL
+        );
+
+        -- Points are copied from the category when a note is saved, so changing the catalog doesn't rewrite history.
+        -- Notes written before this migration have no category and count 0 points.
+        ALTER TABLE behavior ADD COLUMN category_id INTEGER REFERENCES behavior_categories(id);
+        ALTER TABLE behavior ADD COLUMN points INTEGER NOT NULL DEFAULT 0;
+
+        CREATE TABLE sanction_thresholds (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT UNIQUE NOT NULL, -- warning_letter, parent_summons, counselor_referral
+          label TEXT NOT NULL,
+          points INTEGER NOT NULL, -- net violation points in a term that trigger the action
+          enabled INTEGER NOT NULL DEFAULT 1
+        );
+
+        INSERT INTO sanction_thresholds (action, label, points) VALUES
+          ('warning_letter', 'Surat Peringatan', 25),
+          ('parent_summons', 'Panggilan Orang Tua', 50),
+          ('counselor_referral', 'Rujukan Guru BK', 75);
+
+        CREATE TABLE behavior_followups (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          student_id INTEGER NOT NULL,
+          term_id INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          label TEXT NOT NULL,
+          points INTEGER NOT NULL, -- balance when the threshold was crossed
+          status TEXT NOT NULL DEFAULT 'open', -- open, done
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          completed_at TEXT,
+          completed_by INTEGER,
+          UNIQUE (student_id, term_id, action),
+          FOREIGN KEY (student_id) REFERENCES students(id),
+          FOREIGN KEY (term_id) REFERENCES terms(id),
+          FOREIGN KEY (completed_by) REFERENCES users(id)
+        );
+      `);
+
+      const insert = db.prepare("INSERT INTO behavior_categories (name, type, points) VALUES (?, ?, ?)");
+      insert.run('Terlambat masuk sekolah', 'negative', 5);
+      insert.run('Tidak mengerjakan tugas', 'negative', 5);
+      insert.run('Seragam tidak lengkap', 'negative', 5);
+      insert.run('Membolos', 'negative', 15);
+      insert.run('Berkelahi', 'negative', 25);
+      insert.run('Aktif di kelas', 'positive', 5);
+      insert.run('Membantu teman', 'positive', 5);
+      insert.run('Juara lomba tingkat sekolah', 'positive', 10);
+      insert.run('Juara lomba tingkat kota/provinsi', 'positive', 25);
+    },
+  },
+  {
+    version: 15,
+    name: "idempotency keys",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE idempotency_keys (
+          user_id INTEGER NOT NULL,
+          key TEXT NOT NULL,
+          method TEXT NOT NULL,
+          path TEXT NOT NULL,
+          status INTEGER NOT NULL,
+          response TEXT NOT NULL, -- JSON body replayed for a repeated request
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (user_id, key),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: "admin role and teaching assignments",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE users ADD COLUMN full_name TEXT;
+        ALTER TABLE classes ADD COLUMN homeroom_teacher_id INTEGER REFERENCES users(id);
+
+        CREATE TABLE teaching_assignments (
+          user_id INTEGER NOT NULL,
+          subject_id INTEGER NOT NULL,
+          class_id INTEGER NOT NULL,
+          PRIMARY KEY (user_id, subject_id, class_id),
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (subject_id) REFERENCES subjects(id),
+          FOREIGN KEY (class_id) REFERENCES classes(id)
+        );
+      `);
+      // Every teacher could do everything until now; they become admins so an upgrade locks nobody out,
+      // and an admin then turns the others into scoped teachers
+      db.prepare("UPDATE users SET role = 'admin' WHERE role = 'teacher'").run();
+    },
+  },
+  {
+    version: 17,
+    name: "schools",
+    up: (db) => {
+      // Everything recorded so far belongs to the one school the app ran for
+      const settingName = db.prepare("SELECT value FROM settings WHERE key = 'school_name'").get() as { value: string | null } | undefined;
+      db.exec(`
+        CREATE TABLE schools (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+          created_at TEXT NOT NULL
+        );
+      `);
+      db.prepare("INSERT INTO schools (id, name, created_at) VALUES (1, ?, ?)")
+        .run(settingName?.value?.trim() || 'Sekolah Utama', new Date().toISOString());
+
+      // NULL school_id on users and audit_log means the foundation (yayasan) level, above the schools
+      for (const table of ['users', 'sessions', 'students', 'attendance', 'grades', 'behavior', 'school_calendar', 'audit_log']) {
+        db.exec(`
+          ALTER TABLE ${table} ADD COLUMN school_id INTEGER REFERENCES schools(id);
+          UPDATE ${table} SET school_id = 1;
+        `);
+      }
+      db.exec(`
+        CREATE INDEX idx_users_school ON users(school_id);
+        CREATE INDEX idx_students_school ON students(school_id);
+        CREATE INDEX idx_attendance_school_date ON attendance(school_id, date);
+        CREATE INDEX idx_grades_school_date ON grades(school_id, date);
+        CREATE INDEX idx_behavior_school_date ON behavior(school_id, date);
+        CREATE INDEX idx_audit_log_school ON audit_log(school_id, created_at);
+      `);
+
+      // Names and keys that were unique across the app become unique per school. SQLite can't change a
+      // UNIQUE constraint in place, so these tables are copied into a new definition.
+      const rebuild = (table: string, columns: string, definition: string) => db.exec(`
+        CREATE TABLE ${table}_new (${definition});
+        INSERT INTO ${table}_new (school_id, ${columns}) SELECT 1, ${columns} FROM ${table};
+        DROP TABLE ${table};
+        ALTER TABLE ${table}_new RENAME TO ${table};
+      `);
+      rebuild('classes', 'id, name, homeroom_teacher, homeroom_teacher_id', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        name TEXT NOT NULL COLLATE NOCASE,
+        homeroom_teacher TEXT,
+        homeroom_teacher_id INTEGER REFERENCES users(id),
+        UNIQUE (school_id, name)
+      `);
+      rebuild('subjects', 'id, name, code', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        name TEXT NOT NULL COLLATE NOCASE,
+        code TEXT,
+        UNIQUE (school_id, name)
+      `);
+      rebuild('academic_years', 'id, name, start_date, end_date', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        name TEXT NOT NULL, -- e.g. 2026/2027
+        start_date TEXT NOT NULL,
+        end_date TEXT NOT NULL,
+        UNIQUE (school_id, name)
+      `);
+      rebuild('behavior_categories', 'id, name, type, points', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        name TEXT NOT NULL COLLATE NOCASE,
+        type TEXT NOT NULL, -- positive (poin prestasi), negative (poin pelanggaran)
+        points INTEGER NOT NULL,
+        UNIQUE (school_id, name)
+      `);
+      rebuild('settings', 'key, value', `
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        key TEXT NOT NULL, -- school_name, school_address, school_city
+        value TEXT,
+        PRIMARY KEY (school_id, key)
+      `);
+      rebuild('alert_rules', 'id, type, threshold, window_days, enabled', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        type TEXT NOT NULL, -- consecutive_absences, low_subject_average, negative_behavior
+        threshold REAL NOT NULL,
+        window_days INTEGER, -- look-back period; unused by consecutive_absences
+        enabled INTEGER NOT NULL DEFAULT 1,
+        UNIQUE (school_id, type)
+      `);
+      rebuild('notification_templates', 'event, body, enabled', `
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        event TEXT NOT NULL, -- absent_today, negative_behavior, new_grade
+        body TEXT NOT NULL, -- placeholders: {nama} {kelas} {tanggal} {mapel} {nilai} {catatan} {sekolah}
+        enabled INTEGER NOT NULL DEFAULT 1,
+        PRIMARY KEY (school_id, event)
+      `);
+      rebuild('sanction_thresholds', 'id, action, label, points, enabled', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        school_id INTEGER NOT NULL REFERENCES schools(id),
+        action TEXT NOT NULL, -- warning_letter, parent_summons, counselor_referral
+        label TEXT NOT NULL,
+        points INTEGER NOT NULL, -- net violation points in a term that trigger the action
+        enabled INTEGER NOT NULL DEFAULT 1,
+        UNIQUE (school_id, action)
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: "absence requests",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE absence_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          school_id INTEGER NOT NULL REFERENCES schools(id),
+          student_id INTEGER NOT NULL REFERENCES students(id),
+          requested_by INTEGER NOT NULL REFERENCES users(id), -- the student or a parent
+          type TEXT NOT NULL, -- sick, excused
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          note_file TEXT, -- stored file name in the notes folder, see server/absences.ts
+          note_name TEXT, -- file name as uploaded
+          status TEXT NOT NULL DEFAULT 'pending', -- pending, approved, rejected
+          decided_by INTEGER REFERENCES users(id),
+          decided_at TEXT,
+          decision_note TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_absence_requests_school_status ON absence_requests(school_id, status);
+        CREATE INDEX idx_absence_requests_student ON absence_requests(student_id, start_date);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Applies pending migrations in order, each in its own transaction.
+// Refuses to run against a database written by a newer version of the app.
+export const runMigrations = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const current = (db.prepare("SELECT MAX(version) as version FROM schema_migrations").get() as { version: number | null }).version ?? 0;
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Database schema version ${current} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Upgrade the app before starting it.`);
+  }
+
+  // Rebuilding a table drops the old one, which enforced foreign keys would refuse while other tables still
+  // point at it. They are switched off while migrating (it can't be done inside a transaction) and each
+  // migration must leave every reference intact before it commits.
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)");
+  const pending = migrations.filter(m => m.version > current);
+  if (pending.length === 0) return;
+  db.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db);
+        const broken = db.pragma('foreign_key_check') as { table: string }[];
+        if (broken.length > 0) throw new Error(`Migration ${migration.version} left broken references in ${broken[0].table}`);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      console.log(`Applied migration ${migration.version}: ${migration.name}`);
+    }
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+};
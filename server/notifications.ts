@@ -0,0 +1,104 @@
+import type Database from "better-sqlite3";
+import fs from "fs";
+import type { NotificationEvent } from "../src/schemas";
+import { getSchoolSettings } from "./reports";
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['absent_today', 'negative_behavior', 'new_grade'];
+
+export type OutgoingMessage = { to: string; body: string };
+
+// A gateway (SMS, WhatsApp, ...) only has to implement send; throwing marks the attempt as failed
+export type NotificationTransport = {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<void>;
+};
+
+export const consoleTransport: NotificationTransport = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`[notifikasi] ke ${message.to}: ${message.body}`);
+  },
+};
+
+// Appends one JSON line per message, for local testing without a gateway
+export const createFileTransport = (file: string): NotificationTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.promises.appendFile(file, JSON.stringify({ ...message, sent_at: new Date().toISOString() }) + '\n');
+  },
+});
+
+// NOTIFICATION_TRANSPORT=file (default) or console
+export const transportFromEnv = (): NotificationTransport =>
+  process.env.NOTIFICATION_TRANSPORT === 'console'
+    ? consoleTransport
+    : createFileTransport(process.env.NOTIFICATION_LOG_FILE || 'notifications.log');
+
+const MAX_ATTEMPTS = 5;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const renderTemplate = (body: string, vars: Record<string, string>) =>
+  body.replace(/\{(\w+)\}/g, (match, key) => vars[key] ?? match);
+
+// Queues a message for the student's parent; does nothing if the template is off or the student opted out or has no phone
+export const queueNotification = (
+  db: Database.Database,
+  event: NotificationEvent,
+  studentId: number,
+  ref: string | number,
+  vars: { tanggal: string; mapel?: string; nilai?: string; catatan?: string },
+) => {
+  const student = db.prepare(`
+    SELECT s.name, s.phone, s.school_id, c.name as class FROM students s LEFT JOIN classes c ON c.id = s.class_id
+    WHERE s.id = ? AND s.archived_at IS NULL AND s.notifications_opt_out = 0
+  `).get(studentId) as { name: string; phone: string | null; school_id: number; class: string | null } | undefined;
+  if (!student?.phone) return;
+  const template = db.prepare("SELECT body FROM notification_templates WHERE school_id = ? AND event = ? AND enabled = 1")
+    .get(student.school_id, event) as { body: string } | undefined;
+  if (!template) return;
+
+  const body = renderTemplate(template.body, {
+    nama: student.name,
+    kelas: student.class ?? '',
+    sekolah: getSchoolSettings(db, student.school_id).school_name,
+    ...vars,
+    tanggal: formatDate(vars.tanggal),
+  });
+  const now = new Date().toISOString();
+  // A cancelled message for the same trigger is queued again; anything else already queued is left alone
+  db.prepare(`
+    INSERT INTO notification_outbox (student_id, event, ref, phone, body, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(student_id, event, ref) DO UPDATE SET
+      status = 'pending', phone = excluded.phone, body = excluded.body, attempts = 0, next_attempt_at = excluded.next_attempt_at
+    WHERE status = 'cancelled'
+  `).run(studentId, event, String(ref), student.phone, body, now, now);
+};
+
+// Sends due messages one by one; failures back off exponentially and give up after MAX_ATTEMPTS
+export const processOutbox = async (db: Database.Database, transport: NotificationTransport) => {
+  const due = db.prepare(`
+    SELECT * FROM notification_outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY id LIMIT 50
+  `).all(new Date().toISOString()) as any[];
+
+  for (const message of due) {
+    try {
+      await transport.send({ to: message.phone, body: message.body });
+      db.prepare("UPDATE notification_outbox SET status = 'sent', attempts = attempts + 1, last_error = NULL, sent_at = ? WHERE id = ?")
+        .run(new Date().toISOString(), message.id);
+    } catch (error: any) {
+      const attempts = message.attempts + 1;
+      const retryAt = new Date(Date.now() + 60 * 1000 * 2 ** attempts).toISOString();
+      db.prepare("UPDATE notification_outbox SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?")
+        .run(attempts >= MAX_ATTEMPTS ? 'failed' : 'pending', attempts, String(error?.message ?? error), retryAt, message.id);
+    }
+  }
+};
+
+// Withdraws a message that has not gone out yet, e.g. when an absence is corrected or a grade deleted
+export const cancelNotification = (db: Database.Database, event: NotificationEvent, studentId: number, ref: string | number) => {
+  db.prepare("UPDATE notification_outbox SET status = 'cancelled' WHERE student_id = ? AND event = ? AND ref = ? AND status = 'pending'")
+    .run(studentId, event, String(ref));
+};
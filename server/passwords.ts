@@ -0,0 +1,18 @@
+import crypto from "crypto";
+
+// Passwords are stored as "scrypt$<salt>$<hash>"
+export const hashPassword = (password: string) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+export const isHashed = (stored: string) => stored.startsWith('scrypt$');
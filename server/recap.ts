@@ -0,0 +1,90 @@
+import type Database from "better-sqlite3";
+import ExcelJS from "exceljs";
+import type { AttendanceRecap, RecapTotals } from "../src/schemas";
+import { schoolDaysBetween } from "./calendar";
+
+// Cell code and which total each attendance status counts towards; late still counts as present
+const RECAP_CODES: Record<string, { code: string; total: keyof RecapTotals }> = {
+  present: { code: 'H', total: 'hadir' },
+  late: { code: 'T', total: 'hadir' },
+  sick: { code: 'S', total: 'sakit' },
+  excused: { code: 'I', total: 'izin' },
+  absent: { code: 'A', total: 'alpa' },
+};
+
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// School days of the month from the school calendar, plus any other day the class has attendance recorded on
+// (e.g. a Saturday event)
+const schoolDays = (db: Database.Database, schoolId: number, month: string, recorded: string[]) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const last = new Date(Date.UTC(year, monthIndex, 0)).toISOString().split('T')[0];
+  return Array.from(new Set([...schoolDaysBetween(db, schoolId, `${month}-01`, last), ...recorded])).sort();
+};
+
+export const buildAttendanceRecap = (db: Database.Database, classId: number, month: string): AttendanceRecap | null => {
+  const classItem = db.prepare("SELECT name, school_id FROM classes WHERE id = ?").get(classId) as { name: string; school_id: number } | undefined;
+  if (!classItem) return null;
+
+  // Attendance is matched on the class recorded with the row, so students who moved mid-month still appear
+  const records = db.prepare(`
+    SELECT student_id, date, status FROM attendance
+    WHERE class_id = ? AND date BETWEEN ? AND ? AND deleted_at IS NULL
+  `).all(classId, `${month}-01`, `${month}-31`) as { student_id: number; date: string; status: string }[];
+
+  const students = db.prepare(`
+    SELECT id, name FROM students
+    WHERE (class_id = ? AND archived_at IS NULL)
+      OR id IN (SELECT student_id FROM attendance WHERE class_id = ? AND date BETWEEN ? AND ? AND deleted_at IS NULL)
+    ORDER BY name
+  `).all(classId, classId, `${month}-01`, `${month}-31`) as { id: number; name: string }[];
+
+  const days = schoolDays(db, classItem.school_id, month, records.map(r => r.date));
+  const rows = students.map(s => {
+    const cells: Record<string, string> = {};
+    const totals: RecapTotals = { hadir: 0, sakit: 0, izin: 0, alpa: 0 };
+    for (const r of records) {
+      if (r.student_id !== s.id) continue;
+      const mapped = RECAP_CODES[r.status];
+      if (!mapped) continue;
+      cells[r.date] = mapped.code;
+      totals[mapped.total]++;
+    }
+    return { student_id: s.id, name: s.name, cells, totals };
+  });
+
+  return { class: classItem.name, month, days, rows };
+};
+
+const recapTable = (recap: AttendanceRecap) => [
+  ['No', 'Nama Siswa', ...recap.days.map(d => String(Number(d.slice(8)))), 'Hadir', 'Sakit', 'Izin', 'Alpa'],
+  ...recap.rows.map((r, i) => [
+    String(i + 1),
+    r.name,
+    ...recap.days.map(d => r.cells[d] ?? ''),
+    String(r.totals.hadir),
+    String(r.totals.sakit),
+    String(r.totals.izin),
+    String(r.totals.alpa),
+  ]),
+];
+
+export const recapToCsv = (recap: AttendanceRecap) =>
+  recapTable(recap)
+    .map(row => row.map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(','))
+    .join('\r\n');
+
+export const recapToXlsx = async (recap: AttendanceRecap) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(`Rekap ${recap.class} ${recap.month}`);
+  sheet.addRow([`Rekap Absensi Kelas ${recap.class} - ${recap.month}`]).font = { bold: true, size: 14 };
+  sheet.addRow([]);
+  const [header, ...rows] = recapTable(recap);
+  sheet.addRow(header).font = { bold: true };
+  // Numbers go in as numbers so the office can sum them in Excel
+  for (const row of rows) sheet.addRow(row.map((cell, i) => i === 0 || i >= row.length - 4 ? Number(cell) : cell));
+
+  sheet.getColumn(2).width = 28;
+  for (let i = 3; i < header.length - 3; i++) sheet.getColumn(i).width = 4;
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
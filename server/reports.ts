@@ -0,0 +1,234 @@
+import type Database from "better-sqlite3";
+import PDFDocument from "pdfkit";
+import type { SchoolSettings } from "../src/schemas";
+import { computeFinalScores } from "./grading";
+
+export type ReportCard = {
+  student: { id: number; name: string; class: string; parent_name: string | null };
+  homeroom_teacher: string | null;
+  term: { id: number; name: string; academic_year: string; start_date: string; end_date: string };
+  subjects: { subject: string; kkm: number; final: number | null; passed: boolean | null }[];
+  attendance: { present: number; late: number; sick: number; excused: number; absent: number };
+  behavior: { positive: number; negative: number; notes: { type: string; description: string; date: string }[] };
+};
+
+const ATTENDANCE_LABELS: [keyof ReportCard['attendance'], string][] = [
+  ['present', 'Hadir'],
+  ['late', 'Terlambat'],
+  ['sick', 'Sakit'],
+  ['excused', 'Izin'],
+  ['absent', 'Tanpa Keterangan'],
+];
+
+export const getSchoolSettings = (db: Database.Database, schoolId: number): SchoolSettings => {
+  const rows = db.prepare("SELECT key, value FROM settings WHERE school_id = ?").all(schoolId) as { key: string; value: string }[];
+  const values = Object.fromEntries(rows.map(r => [r.key, r.value]));
+  return {
+    school_name: values.school_name || "EduTrack",
+    school_address: values.school_address || "",
+    school_city: values.school_city || "",
+  };
+};
+
+// Collects one student's rapor for a term; returns null when the student or term doesn't exist
+export const buildReportCard = (db: Database.Database, studentId: number, termId: number): ReportCard | null => {
+  const student = db.prepare(`
+    SELECT s.id, s.name, s.parent_name, c.name as class, c.homeroom_teacher
+    FROM students s LEFT JOIN classes c ON c.id = s.class_id WHERE s.id = ?
+  `).get(studentId) as any;
+  const term = db.prepare(`
+    SELECT t.id, t.name, t.start_date, t.end_date, y.name as academic_year
+    FROM terms t JOIN academic_years y ON y.id = t.academic_year_id WHERE t.id = ?
+  `).get(termId) as ReportCard['term'] | undefined;
+  if (!student || !term) return null;
+
+  const subjects = computeFinalScores(db, studentId, termId)
+    .map(s => ({ subject: s.subject, kkm: s.kkm, final: s.final, passed: s.passed }));
+
+  const attendance = { present: 0, late: 0, sick: 0, excused: 0, absent: 0 };
+  const attendanceRows = db.prepare(`
+    SELECT status, COUNT(*) as count FROM attendance WHERE student_id = ? AND term_id = ? AND deleted_at IS NULL GROUP BY status
+  `).all(studentId, termId) as { status: keyof typeof attendance; count: number }[];
+  for (const row of attendanceRows) attendance[row.status] = row.count;
+
+  // Behavior has no term column, so it is matched on the term's date range
+  const notes = db.prepare(`
+    SELECT type, description, date FROM behavior
+    WHERE student_id = ? AND date BETWEEN ? AND ? AND deleted_at IS NULL ORDER BY date
+  `).all(studentId, term.start_date, term.end_date) as ReportCard['behavior']['notes'];
+
+  return {
+    student: { id: student.id, name: student.name, class: student.class, parent_name: student.parent_name },
+    homeroom_teacher: student.homeroom_teacher,
+    term,
+    subjects,
+    attendance,
+    behavior: {
+      positive: notes.filter(n => n.type === 'positive').length,
+      negative: notes.filter(n => n.type === 'negative').length,
+      notes,
+    },
+  };
+};
+
+const passLabel = (passed: boolean | null) => passed === null ? '-' : passed ? 'Tuntas' : 'Belum Tuntas';
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const renderReportSection = (report: ReportCard, school: SchoolSettings, printedOn: string) => `
+  <section class="rapor">
+    <header>
+      <h1>${escapeHtml(school.school_name)}</h1>
+      <p>${escapeHtml(school.school_address)}</p>
+    </header>
+    <h2>Laporan Hasil Belajar Siswa</h2>
+    <table class="identity">
+      <tr><td>Nama Siswa</td><td>: ${escapeHtml(report.student.name)}</td><td>Kelas</td><td>: ${escapeHtml(report.student.class)}</td></tr>
+      <tr><td>Nomor Induk</td><td>: ${report.student.id}</td><td>Semester</td><td>: ${escapeHtml(report.term.name)} ${escapeHtml(report.term.academic_year)}</td></tr>
+    </table>
+
+    <h3>A. Nilai Akademik</h3>
+    <table class="grid">
+      <thead><tr><th>No</th><th>Mata Pelajaran</th><th>KKM</th><th>Nilai Akhir</th><th>Keterangan</th></tr></thead>
+      <tbody>
+        ${report.subjects.length > 0
+          ? report.subjects.map((s, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(s.subject)}</td><td>${s.kkm}</td><td>${s.final ?? '-'}</td><td>${passLabel(s.passed)}</td></tr>`).join('')
+          : '<tr><td colspan="5">Belum ada nilai pada semester ini</td></tr>'}
+      </tbody>
+    </table>
+
+    <h3>B. Ketidakhadiran</h3>
+    <table class="grid">
+      <tbody>
+        ${ATTENDANCE_LABELS.map(([key, label]) => `<tr><td>${label}</td><td>${report.attendance[key]} hari</td></tr>`).join('')}
+      </tbody>
+    </table>
+
+    <h3>C. Catatan Perilaku</h3>
+    <p>Catatan positif: ${report.behavior.positive} &middot; Catatan negatif: ${report.behavior.negative}</p>
+    ${report.behavior.notes.length > 0
+      ? `<ul>${report.behavior.notes.map(n => `<li>${formatDate(n.date)} (${n.type === 'positive' ? 'Positif' : 'Negatif'}): ${escapeHtml(n.description)}</li>`).join('')}</ul>`
+      : ''}
+
+    <div class="signatures">
+      <div>
+        <p>Mengetahui,<br/>Orang Tua/Wali</p>
+        <p class="name">${escapeHtml(report.student.parent_name) || '&nbsp;'}</p>
+      </div>
+      <div>
+        <p>${escapeHtml(school.school_city)}${school.school_city ? ', ' : ''}${printedOn}<br/>Wali Kelas</p>
+        <p class="name">${escapeHtml(report.homeroom_teacher) || '&nbsp;'}</p>
+      </div>
+    </div>
+  </section>
+`;
+
+// A printable page holding one rapor per student, each starting on a new sheet
+export const renderReportsHtml = (reports: ReportCard[], school: SchoolSettings) => {
+  const printedOn = formatDate(new Date().toISOString());
+  return `<!doctype html>
+<html lang="id">
+<head>
+  <meta charset="UTF-8" />
+  <title>Rapor - ${escapeHtml(school.school_name)}</title>
+  <style>
+    body { font-family: "Times New Roman", serif; color: #111; margin: 0; }
+    .rapor { max-width: 800px; margin: 0 auto; padding: 32px; page-break-after: always; }
+    .rapor:last-child { page-break-after: auto; }
+    header { text-align: center; border-bottom: 3px double #111; padding-bottom: 8px; }
+    header h1 { margin: 0; font-size: 22px; text-transform: uppercase; }
+    header p { margin: 4px 0 0; font-size: 13px; }
+    h2 { text-align: center; font-size: 16px; margin: 20px 0; text-transform: uppercase; }
+    h3 { font-size: 14px; margin: 20px 0 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    .grid th, .grid td { border: 1px solid #111; padding: 6px 8px; text-align: left; }
+    .identity td { padding: 2px 4px; }
+    ul { font-size: 13px; padding-left: 20px; }
+    p { font-size: 13px; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 48px; }
+    .signatures div { width: 40%; text-align: center; }
+    .signatures .name { margin-top: 72px; font-weight: bold; text-decoration: underline; }
+    @media print { .rapor { padding: 0; } }
+  </style>
+</head>
+<body>
+  ${reports.map(r => renderReportSection(r, school, printedOn)).join('')}
+</body>
+</html>`;
+};
+
+// Same layout as the HTML rapor, drawn with PDFKit's built-in fonts
+export const renderReportsPdf = (reports: ReportCard[], school: SchoolSettings) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const printedOn = formatDate(new Date().toISOString());
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  const row = (cells: string[], widths: number[], bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? 'Times-Bold' : 'Times-Roman').fontSize(11);
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.rect(x, y, widths[i], 20).stroke();
+      doc.text(cell, x + 5, y + 5, { width: widths[i] - 10, lineBreak: false, ellipsis: true });
+      x += widths[i];
+    });
+    doc.x = left;
+    doc.y = y + 20;
+  };
+
+  reports.forEach((report, index) => {
+    if (index > 0) doc.addPage();
+
+    doc.font('Times-Bold').fontSize(16).text(school.school_name.toUpperCase(), { align: 'center' });
+    doc.font('Times-Roman').fontSize(10).text(school.school_address, { align: 'center' });
+    doc.moveTo(left, doc.y + 4).lineTo(left + width, doc.y + 4).lineWidth(2).stroke().lineWidth(1);
+    doc.moveDown(1.5);
+    doc.font('Times-Bold').fontSize(13).text('LAPORAN HASIL BELAJAR SISWA', { align: 'center' });
+    doc.moveDown();
+
+    doc.font('Times-Roman').fontSize(11);
+    doc.text(`Nama Siswa : ${report.student.name}`, left, doc.y, { continued: false });
+    doc.text(`Kelas      : ${report.student.class}`);
+    doc.text(`Semester   : ${report.term.name} ${report.term.academic_year}`);
+    doc.moveDown();
+
+    doc.font('Times-Bold').text('A. Nilai Akademik');
+    doc.moveDown(0.5);
+    const gradeWidths = [40, width - 300, 60, 90, 110];
+    row(['No', 'Mata Pelajaran', 'KKM', 'Nilai Akhir', 'Keterangan'], gradeWidths, true);
+    if (report.subjects.length > 0) {
+      report.subjects.forEach((s, i) => row([String(i + 1), s.subject, String(s.kkm), String(s.final ?? '-'), passLabel(s.passed)], gradeWidths));
+    } else {
+      row(['', 'Belum ada nilai pada semester ini', '', '', ''], gradeWidths);
+    }
+    doc.moveDown();
+
+    doc.font('Times-Bold').fontSize(11).text('B. Ketidakhadiran');
+    doc.moveDown(0.5);
+    for (const [key, label] of ATTENDANCE_LABELS) row([label, `${report.attendance[key]} hari`], [width / 2, width / 2]);
+    doc.moveDown();
+
+    doc.font('Times-Bold').fontSize(11).text('C. Catatan Perilaku');
+    doc.font('Times-Roman').text(`Catatan positif: ${report.behavior.positive}   Catatan negatif: ${report.behavior.negative}`);
+    for (const n of report.behavior.notes) {
+      doc.text(`- ${formatDate(n.date)} (${n.type === 'positive' ? 'Positif' : 'Negatif'}): ${n.description ?? ''}`);
+    }
+    doc.moveDown(2);
+
+    const signatureY = doc.y;
+    const columnWidth = width / 2 - 20;
+    doc.text('Mengetahui,\nOrang Tua/Wali', left, signatureY, { width: columnWidth, align: 'center' });
+    doc.text(`${school.school_city ? `${school.school_city}, ` : ''}${printedOn}\nWali Kelas`, left + width / 2 + 20, signatureY, { width: columnWidth, align: 'center' });
+    doc.font('Times-Bold');
+    doc.text(report.student.parent_name ?? '', left, signatureY + 90, { width: columnWidth, align: 'center', underline: true });
+    doc.text(report.homeroom_teacher ?? '', left + width / 2 + 20, signatureY + 90, { width: columnWidth, align: 'center', underline: true });
+  });
+
+  doc.end();
+  return doc;
+};
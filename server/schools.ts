@@ -0,0 +1,81 @@
+import type Database from "better-sqlite3";
+import { hashPassword } from "./passwords";
+
+// Starting configuration of a new school, the same the first school got from its migrations; each school's
+// admins change their own copy afterwards
+const DEFAULT_ALERT_RULES: [type: string, threshold: number, windowDays: number | null][] = [
+  ['consecutive_absences', 3, null],
+  ['low_subject_average', 70, 90],
+  ['negative_behavior', 3, 30],
+];
+
+const DEFAULT_TEMPLATES: [event: string, body: string][] = [
+  ['absent_today', "Yth. Bapak/Ibu, kami informasikan bahwa {nama} ({kelas}) tidak hadir tanpa keterangan pada {tanggal}. Mohon konfirmasi kepada wali kelas. - {sekolah}"],
+  ['negative_behavior', "Yth. Bapak/Ibu, terdapat catatan perilaku untuk {nama} ({kelas}) pada {tanggal}: {catatan}. - {sekolah}"],
+  ['new_grade', "Yth. Bapak/Ibu, nilai {mapel} {nama} ({kelas}) pada {tanggal}: {nilai}. - {sekolah}"],
+];
+
+const DEFAULT_SANCTIONS: [action: string, label: string, points: number][] = [
+  ['warning_letter', 'Surat Peringatan', 25],
+  ['parent_summons', 'Panggilan Orang Tua', 50],
+  ['counselor_referral', 'Rujukan Guru BK', 75],
+];
+
+const DEFAULT_BEHAVIOR_CATEGORIES: [name: string, type: 'positive' | 'negative', points: number][] = [
+  ['Terlambat masuk sekolah', 'negative', 5],
+  ['Tidak mengerjakan tugas', 'negative', 5],
+  ['Seragam tidak lengkap', 'negative', 5],
+  ['Membolos', 'negative', 15],
+  ['Berkelahi', 'negative', 25],
+  ['Aktif di kelas', 'positive', 5],
+  ['Membantu teman', 'positive', 5],
+  ['Juara lomba tingkat sekolah', 'positive', 10],
+  ['Juara lomba tingkat kota/provinsi', 'positive', 25],
+];
+
+// Creates the school with the default configuration; call inside a transaction
+export const createSchool = (db: Database.Database, name: string) => {
+  const schoolId = Number(db.prepare("INSERT INTO schools (name, created_at) VALUES (?, ?)").run(name, new Date().toISOString()).lastInsertRowid);
+  db.prepare("INSERT INTO settings (school_id, key, value) VALUES (?, 'school_name', ?)").run(schoolId, name);
+  const rule = db.prepare("INSERT INTO alert_rules (school_id, type, threshold, window_days) VALUES (?, ?, ?, ?)");
+  for (const r of DEFAULT_ALERT_RULES) rule.run(schoolId, ...r);
+  const template = db.prepare("INSERT INTO notification_templates (school_id, event, body) VALUES (?, ?, ?)");
+  for (const t of DEFAULT_TEMPLATES) template.run(schoolId, ...t);
+  const sanction = db.prepare("INSERT INTO sanction_thresholds (school_id, action, label, points) VALUES (?, ?, ?, ?)");
+  for (const t of DEFAULT_SANCTIONS) sanction.run(schoolId, ...t);
+  const category = db.prepare("INSERT INTO behavior_categories (school_id, name, type, points) VALUES (?, ?, ?, ?)");
+  for (const c of DEFAULT_BEHAVIOR_CATEGORIES) category.run(schoolId, ...c);
+  return schoolId;
+};
+
+// FOUNDATION_ADMIN_USERNAME and FOUNDATION_ADMIN_PASSWORD create the foundation account on startup if it
+// doesn't exist yet; an existing account is left alone, so the password can be changed in the app
+export const ensureFoundationAccount = (db: Database.Database) => {
+  const username = process.env.FOUNDATION_ADMIN_USERNAME;
+  const password = process.env.FOUNDATION_ADMIN_PASSWORD;
+  if (!username || !password) return;
+  if (db.prepare("SELECT 1 FROM users WHERE username = ?").get(username)) return;
+  db.prepare("INSERT INTO users (username, password, role, school_id) VALUES (?, ?, 'foundation', NULL)").run(username, hashPassword(password));
+  console.log(`Created foundation account ${username}`);
+};
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+// Figures per school for the foundation; counts and averages only, never a student's name or record
+export const listSchoolStats = (db: Database.Database) => {
+  const since = daysAgo(29);
+  return db.prepare(`
+    SELECT sc.id, sc.name, sc.created_at,
+      (SELECT COUNT(*) FROM students s WHERE s.school_id = sc.id AND s.archived_at IS NULL) as students,
+      (SELECT COUNT(*) FROM users u WHERE u.school_id = sc.id AND u.role IN ('admin', 'teacher')) as staff,
+      (SELECT ROUND(100.0 * SUM(a.status IN ('present', 'late')) / COUNT(*), 1) FROM attendance a
+        WHERE a.school_id = sc.id AND a.date >= @since AND a.deleted_at IS NULL) as attendance_rate,
+      (SELECT ROUND(AVG(g.score), 1) FROM grades g
+        WHERE g.school_id = sc.id AND g.date >= @since AND g.deleted_at IS NULL) as average_score,
+      (SELECT COUNT(*) FROM behavior b
+        WHERE b.school_id = sc.id AND b.type = 'negative' AND b.date >= @since AND b.deleted_at IS NULL) as negative_behavior,
+      (SELECT COUNT(*) FROM alerts al JOIN students s ON s.id = al.student_id
+        WHERE s.school_id = sc.id AND al.status = 'open') as open_alerts
+    FROM schools sc ORDER BY sc.name
+  `).all({ since });
+};
@@ -0,0 +1,69 @@
+import type Database from "better-sqlite3";
+import { hashPassword } from "./passwords";
+import { createSchool } from "./schools";
+
+// Demo data for local development; only runs against an empty database. The app's migrations create school 1,
+// which gets the full demo; a second, smaller school is there to try what each school's accounts can see.
+export const seedDemoData = (db: Database.Database) => {
+  const studentCount = db.prepare("SELECT COUNT(*) as count FROM students").get() as { count: number };
+  const userCount = db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number };
+  if (studentCount.count > 0 || userCount.count > 0) return;
+
+  db.transaction(() => {
+    db.prepare("UPDATE schools SET name = ? WHERE id = 1").run("SMA Negeri 1 Harapan Bangsa");
+    const insertSetting = db.prepare("INSERT INTO settings (school_id, key, value) VALUES (1, ?, ?) ON CONFLICT(school_id, key) DO UPDATE SET value = excluded.value");
+    insertSetting.run("school_name", "SMA Negeri 1 Harapan Bangsa");
+    insertSetting.run("school_address", "Jl. Pendidikan No. 1, Jakarta");
+    insertSetting.run("school_city", "Jakarta");
+
+    const insertClass = db.prepare("INSERT INTO classes (school_id, name, homeroom_teacher) VALUES (?, ?, ?)");
+    const class10A = insertClass.run(1, "10-A", "Dra. Sri Wahyuni").lastInsertRowid;
+    const class10B = insertClass.run(1, "10-B", "Rudi Hartono, S.Pd.").lastInsertRowid;
+    const class11A = insertClass.run(1, "11-A", "Maria Ulfa, S.Pd.").lastInsertRowid;
+
+    const insertSubject = db.prepare("INSERT INTO subjects (school_id, name, code) VALUES (?, ?, ?)");
+    insertSubject.run(1, "Matematika", "MTK");
+    insertSubject.run(1, "Bahasa Indonesia", "BIN");
+    insertSubject.run(1, "Bahasa Inggris", "BIG");
+    insertSubject.run(1, "Ilmu Pengetahuan Alam", "IPA");
+
+    const insertYear = db.prepare("INSERT INTO academic_years (school_id, name, start_date, end_date) VALUES (?, ?, ?, ?)");
+    const year = insertYear.run(1, "2026/2027", "2026-07-13", "2027-06-26").lastInsertRowid;
+    const insertTerm = db.prepare("INSERT INTO terms (academic_year_id, name, start_date, end_date) VALUES (?, ?, ?, ?)");
+    insertTerm.run(year, "Ganjil", "2026-07-13", "2026-12-19");
+    insertTerm.run(year, "Genap", "2027-01-04", "2027-06-26");
+
+    const insertStudent = db.prepare("INSERT INTO students (school_id, name, class_id, parent_name, phone) VALUES (?, ?, ?, ?, ?)");
+    insertStudent.run(1, "Ahmad Fauzi", class10A, "Budi Santoso", "08123456789");
+    insertStudent.run(1, "Siti Aminah", class10A, "Hasan Basri", "08123456780");
+    insertStudent.run(1, "Budi Pratama", class10B, "Agus Setiawan", "08123456781");
+    insertStudent.run(1, "Dewi Lestari", class11A, "Eko Prasetyo", "08123456782");
+
+    const insertUser = db.prepare("INSERT INTO users (school_id, username, password, role, student_id) VALUES (?, ?, ?, ?, ?)");
+    insertUser.run(1, "admin", hashPassword("admin123"), "admin", null);
+    // Wali kelas of 10-A who also teaches Matematika in 10-A and 10-B
+    const teacher = insertUser.run(1, "guru", hashPassword("guru123"), "teacher", null).lastInsertRowid;
+    db.prepare("UPDATE users SET full_name = ? WHERE id = ?").run("Dra. Sri Wahyuni", teacher);
+    db.prepare("UPDATE classes SET homeroom_teacher_id = ? WHERE id = ?").run(teacher, class10A);
+    const assign = db.prepare("INSERT INTO teaching_assignments (user_id, subject_id, class_id) VALUES (?, (SELECT id FROM subjects WHERE school_id = 1 AND code = 'MTK'), ?)");
+    assign.run(teacher, class10A);
+    assign.run(teacher, class10B);
+    insertUser.run(1, "ahmad", hashPassword("siswa123"), "student", 1);
+    insertUser.run(1, "siti", hashPassword("siswa123"), "student", 2);
+    const parent = insertUser.run(1, "budi", hashPassword("ortu123"), "parent", null);
+    db.prepare("INSERT INTO parent_students (user_id, student_id) VALUES (?, ?)").run(parent.lastInsertRowid, 1);
+
+    const other = createSchool(db, "SMP Tunas Harapan");
+    const class7A = insertClass.run(other, "7-A", "Nur Aini, S.Pd.").lastInsertRowid;
+    insertSubject.run(other, "Matematika", "MTK");
+    const otherYear = insertYear.run(other, "2026/2027", "2026-07-13", "2027-06-26").lastInsertRowid;
+    insertTerm.run(otherYear, "Ganjil", "2026-07-13", "2026-12-19");
+    insertTerm.run(otherYear, "Genap", "2027-01-04", "2027-06-26");
+    insertStudent.run(other, "Rina Wulandari", class7A, "Joko Susilo", "08123456783");
+    insertStudent.run(other, "Fajar Nugroho", class7A, "Sri Rahayu", "08123456784");
+    insertUser.run(other, "admin2", hashPassword("admin123"), "admin", null);
+
+    insertUser.run(null, "yayasan", hashPassword("yayasan123"), "foundation", null);
+  })();
+  console.log("Seeded demo data");
+};
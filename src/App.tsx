@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Users, 
   Calendar, 
@@ -19,80 +19,685 @@ import {
   Activity,
   LogOut,
   Lock,
-  User
+  User,
+  ClipboardCheck,
+  Save,
+  Pencil,
+  Archive,
+  X,
+  KeyRound,
+  Link2,
+  BookOpen,
+  Trash2,
+  Printer,
+  Upload,
+  Download,
+  Table,
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  AlertTriangle,
+  Check,
+  Bell,
+  RotateCcw,
+  ChevronUp,
+  ChevronDown,
+  WifiOff,
+  CloudUpload,
+  ShieldAlert,
+  SearchX,
+  UserCog,
+  DatabaseBackup,
+  Building2,
+  CalendarX,
+  FileText
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import {
+  absenceRequestSchema, behaviorSchema, passwordChangeSchema, passwordResetSchema, gradeSchema, parentLinkSchema, schoolSchema, staffUserSchema, studentSchema, validate,
+  type AbsenceRequest, type AbsenceRequestInput, type AbsenceRequestStatus, type AcademicYear, type AlertItem, type AlertRule, type AlertRuleType,
+  type ApiError, type AssessmentType, type Attendance, type AttendanceRecap, type AttendanceStatus, type AuditLogEntry, type Behavior,
+  type BehaviorCategory, type BehaviorPoints, type CalendarEntry, type CalendarEntryType, type ClassItem, type FieldErrors, type FinalScore,
+  type Grade, type NotificationEvent, type RemedialStatus, type BackupKind, type BackupSnapshot, type Schema, type SchoolInput,
+  type SchoolSettings, type SchoolStats, type StaffUser, type Student, type Subject, type Term,
+} from './schemas';
+import { listQueuedWrites, replayQueuedWrites, sendWrite, type QueuedWrite, type RejectedWrite } from './offlineQueue';
+import { guardRoute, parsePath, routePath, type Route, type StudentSection, type Tab } from './routes';
+import {
+  canGrade, canManageClass, canSeeClass, gradableSubjectIds, isAdmin, isFoundation, isStaff, STAFF_ROLES,
+  type Role, type StaffRole, type TeacherScope, type TeachingAssignment,
+} from './permissions';
 
-type UserRole = 'teacher' | 'student';
+type ChildSummary = {
+  id: number;
+  name: string;
+  class: string;
+};
 
 type AuthUser = {
   id: number;
   username: string;
-  role: UserRole;
+  role: Role;
+  full_name: string | null;
   student_id: number | null;
+  school: { id: number; name: string } | null; // null for the foundation
+  children?: ChildSummary[];
+  scope?: TeacherScope; // teachers only
 };
 
-type Student = {
-  id: number;
-  name: string;
-  class: string;
-  parent_name: string;
-  phone: string;
+const ROLE_LABELS: Record<Role, string> = {
+  foundation: 'Yayasan',
+  admin: 'Admin',
+  teacher: 'Guru',
+  student: 'Siswa',
+  parent: 'Orang Tua',
 };
 
-type Attendance = {
-  id: number;
+type RollEntry = {
   student_id: number;
-  date: string;
-  status: 'present' | 'absent' | 'late' | 'sick';
+  name: string;
+  status: AttendanceStatus;
+};
+
+const ATTENDANCE_OPTIONS: { value: AttendanceStatus; label: string; color: string }[] = [
+  { value: 'present', label: 'Hadir', color: 'bg-emerald-600 text-white' },
+  { value: 'late', label: 'Terlambat', color: 'bg-amber-500 text-white' },
+  { value: 'sick', label: 'Sakit', color: 'bg-blue-500 text-white' },
+  { value: 'excused', label: 'Izin', color: 'bg-violet-500 text-white' },
+  { value: 'absent', label: 'Alpa', color: 'bg-red-500 text-white' },
+];
+
+const todayISO = () => new Date().toISOString().split('T')[0];
+
+// Runs the schema the server validates with, so a form can flag mistakes before anything is sent
+const formErrors = <T,>(schema: Schema<T>, body: unknown): FieldErrors => {
+  const result = validate(schema, body);
+  return 'errors' in result ? result.errors : {};
+};
+
+const hasErrors = (errors: FieldErrors) => Object.keys(errors).length > 0;
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-red-500 text-xs mt-1">{message}</p> : null;
+
+// Forbidden and not-found pages
+const StatusPage = ({ icon, title, message, onBack }: { icon: React.ReactNode; title: string; message: string; onBack: () => void }) => (
+  <div className="flex flex-col items-center justify-center text-center py-24">
+    <div className="w-16 h-16 rounded-2xl bg-gray-100 text-gray-400 flex items-center justify-center mb-6">{icon}</div>
+    <h1 className="text-2xl font-bold tracking-tight">{title}</h1>
+    <p className="text-gray-500 mt-2 max-w-md">{message}</p>
+    <button
+      onClick={onBack}
+      className="mt-8 px-4 py-2 rounded-xl text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 transition-colors"
+    >
+      Kembali ke Beranda
+    </button>
+  </div>
+);
+
+const STUDENT_SECTION_LABELS: Record<StudentSection, string> = {
+  attendance: 'Kehadiran',
+  grades: 'Nilai',
+  behavior: 'Perilaku',
+};
+
+const CALENDAR_TYPE_LABELS: Record<CalendarEntryType, string> = {
+  holiday: 'Libur Nasional',
+  non_school: 'Tidak Ada KBM',
+};
+
+// One month of a student's attendance from /api/students/:id/attendance
+type AttendanceCalendar = {
+  from: string;
+  to: string;
+  records: Attendance[];
+  days: { date: string; school_day: boolean; off: { type: CalendarEntryType; description: string } | null; status: AttendanceStatus | null }[];
+  summary: { school_days: number; present: number; late: number; sick: number; excused: number; absent: number; percentage: number | null };
+};
+
+const ATTENDANCE_CELL_COLORS: Record<AttendanceStatus, string> = {
+  present: 'bg-emerald-500 text-white',
+  late: 'bg-amber-400 text-white',
+  sick: 'bg-blue-400 text-white',
+  excused: 'bg-violet-400 text-white',
+  absent: 'bg-red-500 text-white',
+};
+
+const ATTENDANCE_BADGE_COLORS: Record<AttendanceStatus, string> = {
+  present: 'bg-emerald-100 text-emerald-700',
+  late: 'bg-amber-100 text-amber-700',
+  sick: 'bg-blue-100 text-blue-700',
+  excused: 'bg-violet-100 text-violet-700',
+  absent: 'bg-red-100 text-red-700',
+};
+
+const ABSENCE_STATUS_LABELS: Record<AbsenceRequestStatus, { label: string; color: string }> = {
+  pending: { label: 'Menunggu', color: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'Disetujui', color: 'bg-emerald-100 text-emerald-700' },
+  rejected: { label: 'Ditolak', color: 'bg-red-100 text-red-700' },
+};
+
+const absenceDates = (r: { start_date: string; end_date: string }) =>
+  r.start_date === r.end_date
+    ? new Date(r.start_date).toLocaleDateString('id-ID')
+    : `${new Date(r.start_date).toLocaleDateString('id-ID')} – ${new Date(r.end_date).toLocaleDateString('id-ID')}`;
+
+const monthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return { from: `${month}-01`, to: new Date(Date.UTC(year, monthIndex, 0)).toISOString().split('T')[0] };
+};
+
+// Weights and per-class KKM of the subject being edited in Data Akademik
+type SubjectGrading = {
+  subject_id: number;
+  weights: { assessment_type_id: number; name: string; weight: number }[];
+  kkm: { class_id: number; class: string; score: number }[];
 };
 
-type Grade = {
+const REMEDIAL_LABELS: Record<RemedialStatus, { label: string; color: string }> = {
+  required: { label: 'Perlu Remedial', color: 'bg-red-100 text-red-700' },
+  passed: { label: 'Tuntas (Remedial)', color: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: 'Belum Tuntas', color: 'bg-amber-100 text-amber-700' },
+  retake: { label: 'Remedial', color: 'bg-blue-100 text-blue-700' },
+};
+
+type SanctionThreshold = { id: number; action: string; label: string; points: number; enabled: number };
+
+type BehaviorFollowup = {
   id: number;
   student_id: number;
-  subject: string;
-  score: number;
-  date: string;
+  student_name: string;
+  class_id: number | null;
+  class: string | null;
+  term: string | null;
+  label: string;
+  points: number;
+  status: 'open' | 'done';
+  notes: string | null;
+  created_at: string;
+  completed_at: string | null;
 };
 
-type Behavior = {
+type BehaviorForm = { category_id: number | ''; description: string; date: string };
+
+const ALERT_RULE_LABELS: Record<AlertRuleType, { label: string; unit: string }> = {
+  consecutive_absences: { label: 'Alpa berturut-turut', unit: 'hari' },
+  low_subject_average: { label: 'Rata-rata mapel di bawah', unit: 'nilai' },
+  negative_behavior: { label: 'Catatan negatif', unit: 'catatan' },
+};
+
+type NotificationTemplate = { event: NotificationEvent; body: string; enabled: number };
+
+type OutboxMessage = {
   id: number;
   student_id: number;
-  type: 'positive' | 'negative';
-  description: string;
-  date: string;
+  student_name: string;
+  event: NotificationEvent;
+  phone: string;
+  body: string;
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+};
+
+const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  absent_today: 'Alpa hari ini',
+  negative_behavior: 'Catatan perilaku negatif',
+  new_grade: 'Nilai baru',
+};
+
+const OUTBOX_STATUS_LABELS: Record<OutboxMessage['status'], { label: string; color: string }> = {
+  pending: { label: 'Antre', color: 'bg-gray-100 text-gray-600' },
+  sent: { label: 'Terkirim', color: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: 'Gagal', color: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Dibatalkan', color: 'bg-gray-100 text-gray-400' },
+};
+
+type RecordKind = 'attendance' | 'grades' | 'behavior';
+
+// Inline edit state for a grade card or behavior note on the detail page
+type RecordEdit =
+  | { kind: 'grades'; id: number; subject_id: number | ''; assessment_type_id: number | ''; score: string; date: string }
+  | { kind: 'behavior'; id: number; category_id: number | ''; description: string; date: string };
+
+type UndoAction = { message: string; undo: () => Promise<unknown> };
+
+type StudentForm = {
+  id: number | null;
+  name: string;
+  class_id: number | '';
+  parent_name: string;
+  phone: string;
+  notificationsOptOut: boolean;
+  createAccount: boolean;
+  username: string;
+  password: string;
+};
+
+const emptyStudentForm: StudentForm = {
+  id: null,
+  name: '',
+  class_id: '',
+  parent_name: '',
+  phone: '',
+  notificationsOptOut: false,
+  createAccount: false,
+  username: '',
+  password: '',
 };
 
 type StudentDetail = Student & {
-  attendance: Attendance[];
   grades: Grade[];
+  final_scores: FinalScore[];
   behavior: Behavior[];
+  behavior_points: BehaviorPoints | null;
+  followups?: BehaviorFollowup[];
+  account?: { id: number; username: string } | null;
+  parents?: { id: number; username: string }[];
+  alerts?: AlertItem[];
+};
+
+type GradeForm = {
+  subject_id: number | '';
+  assessment_type_id: number | '';
+  remedial_of: Grade | null;
+  score: string;
+  date: string;
+};
+
+type PeriodComparison = { current: number | null; previous: number | null };
+
+type DashboardStats = {
+  totalStudents: number;
+  attendanceToday: { status: AttendanceStatus; count: number }[];
+  averageScore: PeriodComparison;
+  attendanceRate: { last7: PeriodComparison; last30: PeriodComparison };
+  negativeBehavior: { last7: PeriodComparison; last30: PeriodComparison };
+  classBreakdown: {
+    id: number;
+    name: string;
+    student_count: number;
+    attendanceRate: number | null;
+    averageScore: number | null;
+    negativeBehavior: number;
+  }[];
+};
+
+// Change against the previous period; `higherIsBetter` decides whether a rise is shown green or red
+function Trend({ value, higherIsBetter = true, unit = '' }: { value: PeriodComparison; higherIsBetter?: boolean; unit?: string }) {
+  if (value.current === null || value.previous === null) {
+    return <span className="text-xs text-gray-400">Belum ada pembanding</span>;
+  }
+  const delta = Math.round((value.current - value.previous) * 10) / 10;
+  if (delta === 0) {
+    return (
+      <span className="text-xs text-gray-400 flex items-center gap-1">
+        <Minus size={14} /> Sama dengan periode sebelumnya
+      </span>
+    );
+  }
+  const good = delta > 0 === higherIsBetter;
+  return (
+    <span className={`text-xs font-medium flex items-center gap-1 ${good ? 'text-emerald-600' : 'text-red-500'}`}>
+      {delta > 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+      {delta > 0 ? '+' : ''}{delta}{unit} dari periode sebelumnya
+    </span>
+  );
+}
+
+// Entries written by the same request (a roll call, an import) collapse into one feed item
+type ActivityItem = AuditLogEntry & { more: number };
+
+const groupActivity = (entries: AuditLogEntry[]) =>
+  entries.reduce<ActivityItem[]>((items, entry) => {
+    const last = items[items.length - 1];
+    if (last && last.created_at === entry.created_at && last.username === entry.username && last.entity === entry.entity && last.action === entry.action) {
+      last.more++;
+    } else {
+      items.push({ ...entry, more: 0 });
+    }
+    return items;
+  }, []);
+
+const ACTIVITY_COLORS: Record<string, string> = {
+  attendance: 'bg-emerald-500',
+  grade: 'bg-blue-500',
+  behavior: 'bg-amber-500',
+  student: 'bg-purple-500',
+};
+
+const timeAgo = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'Baru saja';
+  if (minutes < 60) return `${minutes} menit yang lalu`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} jam yang lalu`;
+  return `${Math.floor(minutes / (24 * 60))} hari yang lalu`;
+};
+
+const RECAP_CELL_COLORS: Record<string, string> = {
+  H: 'text-emerald-600',
+  T: 'text-amber-600',
+  S: 'text-blue-600',
+  I: 'text-violet-600',
+  A: 'text-red-600',
+};
+
+// Search, filter, sort and page of the Daftar Siswa table, sent as /api/students query parameters
+type StudentQuery = {
+  q: string;
+  class_id: number | '';
+  sort: 'name' | 'class' | 'parent' | 'created';
+  order: 'asc' | 'desc';
+  offset: number;
+};
+
+const STUDENT_PAGE_SIZE = 25;
+
+type ImportKind = 'students' | 'grades';
+
+type ImportPreview = {
+  headers: string[];
+  fields: { field: string; label: string; required: boolean }[];
+  mapping: Record<string, number | null>;
+  missing: string[];
+  summary: { create: number; update: number; reject: number };
+  rows: {
+    row: number;
+    action: 'create' | 'update' | 'reject';
+    reasons: string[];
+    data: Record<string, any>;
+  }[];
+};
+
+const IMPORT_ACTION_LABELS: Record<ImportPreview['rows'][number]['action'], { label: string; color: string }> = {
+  create: { label: 'Baru', color: 'bg-emerald-100 text-emerald-700' },
+  update: { label: 'Perbarui', color: 'bg-blue-100 text-blue-700' },
+  reject: { label: 'Ditolak', color: 'bg-red-100 text-red-700' },
+};
+
+const BACKUP_KIND_LABELS: Record<BackupKind, string> = {
+  manual: 'Manual',
+  daily: 'Harian',
+  'pre-restore': 'Sebelum pemulihan',
+};
+
+type PasswordForm = {
+  // 'change' is the signed-in user's own password, 'reset' is a teacher resetting another account
+  mode: 'change' | 'reset';
+  userId: number | null;
+  username: string;
+  current: string;
+  next: string;
+  confirm: string;
+};
+
+type StaffForm = {
+  id: number | null;
+  username: string;
+  full_name: string;
+  role: StaffRole;
+  password: string; // only asked when creating; existing accounts use Reset Password
+  assignments: { subject_id: number | ''; class_id: number | '' }[];
 };
 
 export default function App() {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [loginForm, setLoginForm] = useState({ username: '', password: '' });
   const [loginError, setLoginError] = useState('');
+
+  // Offline queue for record writes, see offlineQueue.ts
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pendingWrites, setPendingWrites] = useState<QueuedWrite[]>([]);
+  const [rejectedWrites, setRejectedWrites] = useState<RejectedWrite[]>([]);
+  const [syncedAt, setSyncedAt] = useState<number | null>(null);
+  const syncing = useRef(false);
   
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'students' | 'my-profile'>('dashboard');
+  // The screen comes from the URL, see routes.ts
+  const [route, setRoute] = useState<Route>(() => parsePath(window.location.pathname));
   const [students, setStudents] = useState<Student[]>([]);
-  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+  const [studentTotal, setStudentTotal] = useState(0);
+  const [studentQuery, setStudentQuery] = useState<StudentQuery>({ q: '', class_id: '', sort: 'class', order: 'asc', offset: 0 });
+  const [recentStudents, setRecentStudents] = useState<Student[]>([]);
   const [studentDetail, setStudentDetail] = useState<StudentDetail | null>(null);
-  const [stats, setStats] = useState<any>(null);
+  // 403 or 404 from the last detail request, shown as the matching error page
+  const [studentDetailError, setStudentDetailError] = useState<number | null>(null);
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [statsWindow, setStatsWindow] = useState<'last7' | 'last30'>('last7');
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [followups, setFollowups] = useState<BehaviorFollowup[]>([]);
+  // The approval queue on the dashboard and the requests of the open student
+  const [absenceQueue, setAbsenceQueue] = useState<AbsenceRequest[]>([]);
+  const [absenceRequests, setAbsenceRequests] = useState<AbsenceRequest[]>([]);
+  const [absenceForm, setAbsenceForm] = useState<AbsenceRequestInput | null>(null);
+  const [absenceFormError, setAbsenceFormError] = useState('');
+  const [absenceFieldErrors, setAbsenceFieldErrors] = useState<FieldErrors>({});
+  const [notificationTemplates, setNotificationTemplates] = useState<NotificationTemplate[]>([]);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [notificationMessage, setNotificationMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
 
+  const [classes, setClasses] = useState<ClassItem[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [assessmentTypes, setAssessmentTypes] = useState<AssessmentType[]>([]);
+  const [behaviorCategories, setBehaviorCategories] = useState<BehaviorCategory[]>([]);
+  const [newBehaviorCategory, setNewBehaviorCategory] = useState<Omit<BehaviorCategory, 'id'>>({ name: '', type: 'negative', points: 5 });
+  const [sanctionThresholds, setSanctionThresholds] = useState<SanctionThreshold[]>([]);
+  const [subjectGrading, setSubjectGrading] = useState<SubjectGrading | null>(null);
+  const [academicMessage, setAcademicMessage] = useState('');
+  const [schoolSettings, setSchoolSettings] = useState<SchoolSettings>({ school_name: '', school_address: '', school_city: '' });
+  const [reportTermId, setReportTermId] = useState<number | null>(null);
+  const [reportClassId, setReportClassId] = useState<number | null>(null);
+  const [newClassName, setNewClassName] = useState('');
+  const [newSubject, setNewSubject] = useState({ name: '', code: '' });
+  const [newYear, setNewYear] = useState({ name: '', start_date: '', end_date: '' });
+  const [newTerm, setNewTerm] = useState<{ academic_year_id: number | ''; name: string; start_date: string; end_date: string }>(
+    { academic_year_id: '', name: '', start_date: '', end_date: '' }
+  );
+
+  const [rollClassId, setRollClassId] = useState<number | null>(null);
+  const [rollDate, setRollDate] = useState(todayISO());
+  const [roll, setRoll] = useState<RollEntry[]>([]);
+  const [rollSaving, setRollSaving] = useState(false);
+  const [rollMessage, setRollMessage] = useState('');
+
+  const [studentForm, setStudentForm] = useState<StudentForm | null>(null);
+  const [studentFormError, setStudentFormError] = useState('');
+  const [studentFieldErrors, setStudentFieldErrors] = useState<FieldErrors>({});
+  const [studentFormSaving, setStudentFormSaving] = useState(false);
+
+  const [backups, setBackups] = useState<BackupSnapshot[]>([]);
+  const [backupMessage, setBackupMessage] = useState('');
+  const [backupBusy, setBackupBusy] = useState(false);
+
+  const [schools, setSchools] = useState<SchoolStats[]>([]);
+  const [schoolForm, setSchoolForm] = useState<SchoolInput | null>(null);
+  const [schoolFormError, setSchoolFormError] = useState('');
+  const [schoolFieldErrors, setSchoolFieldErrors] = useState<FieldErrors>({});
+
+  const [staffUsers, setStaffUsers] = useState<StaffUser[]>([]);
+  const [staffForm, setStaffForm] = useState<StaffForm | null>(null);
+  const [staffFormError, setStaffFormError] = useState('');
+  const [staffFieldErrors, setStaffFieldErrors] = useState<FieldErrors>({});
+
+  const [passwordForm, setPasswordForm] = useState<PasswordForm | null>(null);
+  const [passwordMessage, setPasswordMessage] = useState('');
+  const [passwordFieldErrors, setPasswordFieldErrors] = useState<FieldErrors>({});
+
+  const [parentLinkForm, setParentLinkForm] = useState({ username: '', password: '' });
+  const [parentLinkMessage, setParentLinkMessage] = useState('');
+  const [parentLinkErrors, setParentLinkErrors] = useState<FieldErrors>({});
+
+  const [recapClassId, setRecapClassId] = useState<number | null>(null);
+  const [recapMonth, setRecapMonth] = useState(todayISO().slice(0, 7));
+  const [recap, setRecap] = useState<AttendanceRecap | null>(null);
+
+  const [importKind, setImportKind] = useState<ImportKind>('students');
+  const [importFile, setImportFile] = useState<{ name: string; content: string } | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importMessage, setImportMessage] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const [gradeForm, setGradeForm] = useState<GradeForm | null>(null);
+  const [gradeFormError, setGradeFormError] = useState('');
+  const [gradeFieldErrors, setGradeFieldErrors] = useState<FieldErrors>({});
+
+  const [behaviorForm, setBehaviorForm] = useState<BehaviorForm | null>(null);
+  const [behaviorFormError, setBehaviorFormError] = useState('');
+  const [behaviorFieldErrors, setBehaviorFieldErrors] = useState<FieldErrors>({});
+
+  const [attendanceMonth, setAttendanceMonth] = useState(todayISO().slice(0, 7));
+  const [attendanceCalendar, setAttendanceCalendar] = useState<AttendanceCalendar | null>(null);
+
+  const [schoolCalendar, setSchoolCalendar] = useState<CalendarEntry[]>([]);
+  const [newCalendarEntry, setNewCalendarEntry] = useState<Omit<CalendarEntry, 'id'>>(
+    { start_date: '', end_date: '', type: 'holiday', description: '' }
+  );
+
+  const [recordEdit, setRecordEdit] = useState<RecordEdit | null>(null);
+  const [recordError, setRecordError] = useState('');
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+
+  const view = user ? guardRoute(route, user) : route;
+  // The sidebar keeps the list (teachers) or profile (students, parents) highlighted on a detail page
+  const activeTab: Tab | null = view.page === 'tab' ? view.tab
+    : view.page === 'student' ? (user && isStaff(user) ? 'students' : 'my-profile')
+    : null;
+  const selectedStudentId = view.page === 'student' ? view.studentId : null;
+  const detailSection: StudentSection | null = view.page === 'student' ? view.section : null;
+  // Students see their own profile, parents their first child until they pick another
+  const viewedStudentId = selectedStudentId
+    ?? (activeTab === 'my-profile' && user && !isStaff(user) ? user.student_id ?? user.children?.[0]?.id ?? null : null);
+
+  const navigate = (next: Route, replace = false) => {
+    const path = routePath(next);
+    if (replace) window.history.replaceState(null, '', path);
+    else if (path !== window.location.pathname) window.history.pushState(null, '', path);
+    setRoute(next);
+  };
+
   useEffect(() => {
     checkAuth();
+    const onPopState = () => setRoute(parsePath(window.location.pathname));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
   }, []);
 
+  useEffect(() => {
+    setStudentDetailError(null);
+    if (user && viewedStudentId) fetchStudentDetail(viewedStudentId);
+  }, [user, viewedStudentId]);
+
+  // Links such as /students/5/grades open the detail page at that card
+  useEffect(() => {
+    if (detailSection && studentDetail?.id === viewedStudentId) {
+      document.getElementById(`section-${detailSection}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [detailSection, studentDetail?.id]);
+
+  // Typing only queries the server once it pauses for 300ms
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setStudentQuery(prev => prev.q === searchTerm.trim() ? prev : { ...prev, q: searchTerm.trim(), offset: 0 });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    if (activeTab === 'students' && user && isStaff(user)) fetchStudents();
+  }, [activeTab, user, studentQuery]);
+
+  useEffect(() => {
+    if (activeTab === 'attendance' && rollClassId) {
+      fetchRoll(rollClassId, rollDate);
+    }
+  }, [activeTab, rollClassId, rollDate]);
+
+  useEffect(() => {
+    if (activeTab === 'recap' && recapClassId && recapMonth) {
+      fetchRecap(recapClassId, recapMonth);
+    }
+  }, [activeTab, recapClassId, recapMonth]);
+
+  useEffect(() => {
+    if (activeTab === 'dashboard' && user && isStaff(user)) {
+      fetchActivity();
+      fetchAlerts();
+      fetchFollowups();
+      fetchAbsenceQueue();
+    }
+    if (activeTab === 'academic' && user && isAdmin(user)) {
+      fetchAlertRules();
+      fetchSchoolCalendar();
+      fetchSanctionThresholds();
+      fetchStaffUsers();
+    }
+    if (activeTab === 'notifications' && user && isAdmin(user)) fetchNotifications();
+    if (activeTab === 'users' && user && isAdmin(user)) fetchStaffUsers();
+    if (activeTab === 'schools' && user && isFoundation(user)) fetchSchools();
+    if (activeTab === 'backups' && user && isFoundation(user)) fetchBackups();
+  }, [activeTab, user]);
+
+  // Follows the detail page, which is reloaded after every record change
+  useEffect(() => {
+    if (studentDetail) fetchStudentAttendance(studentDetail.id, attendanceMonth);
+  }, [studentDetail, attendanceMonth]);
+
+  useEffect(() => {
+    if (studentDetail) fetchAbsenceRequests(studentDetail.id);
+  }, [studentDetail]);
+
+  // Undo only applies to the student it was offered on
+  useEffect(() => {
+    setRecordEdit(null);
+    setRecordError('');
+    setUndoAction(null);
+  }, [selectedStudentId]);
+
+  useEffect(() => {
+    if (!undoAction) return;
+    const timer = setTimeout(() => setUndoAction(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoAction]);
+
+  // Replays queued writes when the connection comes back, and every 30 seconds in case the browser
+  // reports being online while requests still fail
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      syncPendingWrites();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    syncPendingWrites();
+    const timer = setInterval(syncPendingWrites, 30 * 1000);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      clearInterval(timer);
+    };
+  }, [user]);
+
+  // Synced writes change what the open screens show
+  useEffect(() => {
+    if (!syncedAt || !user) return;
+    if (isStaff(user)) fetchTeacherData();
+    if (viewedStudentId) fetchStudentDetail(viewedStudentId);
+  }, [syncedAt]);
+
   useEffect(() => {
     if (user) {
-      if (user.role === 'teacher') {
+      if (isStaff(user)) {
         fetchTeacherData();
-      } else if (user.role === 'student' && user.student_id) {
-        fetchStudentDetail(user.student_id);
-        setActiveTab('my-profile');
+      } else if (!isFoundation(user)) {
+        fetchAcademicData();
       }
     }
   }, [user]);
@@ -131,23 +736,55 @@ export default function App() {
     }
   };
 
+  const refreshPendingWrites = async () => {
+    if (user) setPendingWrites(await listQueuedWrites(user.id));
+  };
+
+  const syncPendingWrites = async () => {
+    if (!user || syncing.current) return;
+    syncing.current = true;
+    try {
+      const { sent, rejected } = await replayQueuedWrites(user.id);
+      if (rejected.length > 0) setRejectedWrites(previous => [...previous, ...rejected]);
+      if (sent > 0 || rejected.length > 0) setSyncedAt(Date.now());
+    } catch (error) {
+      console.error('Syncing queued writes failed:', error);
+    } finally {
+      syncing.current = false;
+      refreshPendingWrites();
+    }
+  };
+
   const handleLogout = async () => {
+    if (pendingWrites.length > 0 && !confirm(`${pendingWrites.length} data belum terkirim ke server dan baru dikirim setelah Anda masuk lagi. Tetap keluar?`)) return;
     await fetch('/api/logout', { method: 'POST' });
+    clearSignedInState();
+  };
+
+  const clearSignedInState = () => {
     setUser(null);
+    navigate({ page: 'tab', tab: 'dashboard' }, true);
+    setPendingWrites([]);
+    setRejectedWrites([]);
     setStudentDetail(null);
     setStudents([]);
+    setRecentStudents([]);
     setStats(null);
+    setActivity([]);
+    setAlerts([]);
   };
 
   const fetchTeacherData = async () => {
     setLoading(true);
     try {
       const [studentsRes, statsRes] = await Promise.all([
-        fetch('/api/students'),
+        fetch('/api/students?sort=created&order=desc&limit=5'),
         fetch('/api/stats')
       ]);
-      if (studentsRes.ok) setStudents(await studentsRes.json());
+      if (studentsRes.ok) setRecentStudents((await studentsRes.json()).students);
       if (statsRes.ok) setStats(await statsRes.json());
+      if (activeTab === 'students') await fetchStudents();
+      await fetchAcademicData();
     } catch (error) {
       console.error('Error fetching teacher data:', error);
     } finally {
@@ -155,95 +792,1098 @@ export default function App() {
     }
   };
 
-  const fetchStudentDetail = async (id: number) => {
+  const fetchStudents = async () => {
+    const params = new URLSearchParams({
+      sort: studentQuery.sort,
+      order: studentQuery.order,
+      limit: String(STUDENT_PAGE_SIZE),
+      offset: String(studentQuery.offset)
+    });
+    if (studentQuery.q) params.set('q', studentQuery.q);
+    if (studentQuery.class_id) params.set('class_id', String(studentQuery.class_id));
     try {
-      const res = await fetch(`/api/students/${id}`);
+      const res = await fetch(`/api/students?${params}`);
       if (res.ok) {
-        const data = await res.json();
-        setStudentDetail(data);
+        const data: { total: number; students: Student[] } = await res.json();
+        setStudents(data.students);
+        setStudentTotal(data.total);
       }
     } catch (error) {
-      console.error('Error fetching student detail:', error);
+      console.error('Error fetching students:', error);
     }
   };
 
-  const handleStudentClick = (id: number) => {
-    setSelectedStudentId(id);
-    fetchStudentDetail(id);
+  // Clicking the sorted column again flips the direction
+  const handleSortStudents = (sort: StudentQuery['sort']) => {
+    setStudentQuery(prev => ({
+      ...prev,
+      sort,
+      order: prev.sort === sort && prev.order === 'asc' ? 'desc' : 'asc',
+      offset: 0
+    }));
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-[#F5F5F5]">
-        <div className="animate-spin text-emerald-600">
-          <Activity size={40} />
-        </div>
-      </div>
-    );
-  }
+  const fetchActivity = async () => {
+    try {
+      const res = await fetch('/api/audit?limit=50');
+      if (res.ok) {
+        const data: { entries: AuditLogEntry[] } = await res.json();
+        setActivity(groupActivity(data.entries).slice(0, 6));
+      }
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+    }
+  };
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-[#F5F5F5] p-4">
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-black/5"
-        >
-          <div className="flex flex-col items-center mb-8">
-            <div className="w-16 h-16 bg-emerald-100 text-emerald-600 rounded-2xl flex items-center justify-center mb-4">
-              <GraduationCap size={40} />
-            </div>
-            <h1 className="text-2xl font-bold">EduTrack Login</h1>
-            <p className="text-gray-500 text-sm">Masuk untuk memantau perkembangan siswa</p>
-          </div>
+  const fetchAlerts = async () => {
+    try {
+      const res = await fetch('/api/alerts');
+      if (res.ok) setAlerts(await res.json());
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+    }
+  };
 
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div>
-              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Username</label>
-              <div className="relative">
-                <User className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-                <input 
-                  type="text" 
-                  required
-                  className="w-full pl-10 pr-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
-                  placeholder="Masukkan username"
-                  value={loginForm.username}
-                  onChange={e => setLoginForm({...loginForm, username: e.target.value})}
-                />
-              </div>
-            </div>
-            <div>
-              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Password</label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-                <input 
-                  type="password" 
-                  required
-                  className="w-full pl-10 pr-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
-                  placeholder="Masukkan password"
-                  value={loginForm.password}
-                  onChange={e => setLoginForm({...loginForm, password: e.target.value})}
-                />
-              </div>
-            </div>
+  const handleAlertAction = async (alert: AlertItem, action: 'acknowledge' | 'resolve') => {
+    try {
+      const res = await fetch(`/api/alerts/${alert.id}/${action}`, { method: 'POST' });
+      if (res.ok) {
+        fetchAlerts();
+        if (studentDetail?.id === alert.student_id) fetchStudentDetail(alert.student_id);
+      }
+    } catch (error) {
+      console.error('Error updating alert:', error);
+    }
+  };
 
-            {loginError && (
-              <p className="text-red-500 text-sm text-center font-medium">{loginError}</p>
-            )}
+  const fetchAlertRules = async () => {
+    try {
+      const res = await fetch('/api/alert-rules');
+      if (res.ok) setAlertRules(await res.json());
+    } catch (error) {
+      console.error('Error fetching alert rules:', error);
+    }
+  };
 
-            <button 
-              type="submit"
-              className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
-            >
-              Masuk Sekarang
-            </button>
-          </form>
+  const openSubjectGrading = async (subjectId: number) => {
+    try {
+      const res = await fetch(`/api/subjects/${subjectId}/grading`);
+      if (res.ok) setSubjectGrading({ subject_id: subjectId, ...(await res.json()) });
+    } catch (error) {
+      console.error('Error fetching subject grading:', error);
+    }
+  };
+
+  const handleSaveSubjectGrading = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subjectGrading) return;
+    await saveAcademicItem(`/api/subjects/${subjectGrading.subject_id}/grading`, 'PUT', {
+      weights: subjectGrading.weights.map(w => ({ assessment_type_id: w.assessment_type_id, weight: w.weight })),
+      kkm: subjectGrading.kkm.map(k => ({ class_id: k.class_id, score: k.score }))
+    });
+  };
+
+  const fetchFollowups = async () => {
+    try {
+      const res = await fetch('/api/behavior-followups');
+      if (res.ok) setFollowups(await res.json());
+    } catch (error) {
+      console.error('Error fetching follow-ups:', error);
+    }
+  };
+
+  const handleCompleteFollowup = async (followup: BehaviorFollowup) => {
+    const notes = prompt(`Catatan ${followup.label} untuk ${followup.student_name}`, '');
+    if (notes === null) return;
+    try {
+      const res = await fetch(`/api/behavior-followups/${followup.id}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes })
+      });
+      if (res.ok) {
+        fetchFollowups();
+        if (studentDetail?.id === followup.student_id) fetchStudentDetail(followup.student_id);
+      }
+    } catch (error) {
+      console.error('Error completing follow-up:', error);
+    }
+  };
+
+  const fetchAbsenceQueue = async () => {
+    try {
+      const res = await fetch('/api/absence-requests');
+      if (res.ok) setAbsenceQueue(await res.json());
+    } catch (error) {
+      console.error('Error fetching absence requests:', error);
+    }
+  };
+
+  const fetchAbsenceRequests = async (studentId: number) => {
+    try {
+      const res = await fetch(`/api/students/${studentId}/absence-requests`);
+      if (res.ok) setAbsenceRequests(await res.json());
+    } catch (error) {
+      console.error('Error fetching absence requests:', error);
+    }
+  };
+
+  const openAbsenceForm = () => {
+    setAbsenceFormError('');
+    setAbsenceFieldErrors({});
+    setAbsenceForm({ type: 'sick', start_date: todayISO(), end_date: todayISO(), reason: '', note: null });
+  };
+
+  const handleAbsenceNote = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const content = String(reader.result).split(',')[1] ?? '';
+      setAbsenceForm(prev => prev && { ...prev, note: { file_name: file.name, content } });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSaveAbsenceRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!absenceForm || !studentDetail) return;
+    const errors = formErrors(absenceRequestSchema, absenceForm);
+    setAbsenceFieldErrors(errors);
+    setAbsenceFormError('');
+    if (hasErrors(errors)) return;
+
+    try {
+      const res = await fetch(`/api/students/${studentDetail.id}/absence-requests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(absenceForm)
+      });
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setAbsenceForm(null);
+        fetchAbsenceRequests(studentDetail.id);
+      } else {
+        setAbsenceFieldErrors(data.errors ?? {});
+        setAbsenceFormError(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setAbsenceFormError('Terjadi kesalahan saat mengirim pengajuan');
+    }
+  };
+
+  const handleAbsenceDecision = async (request: AbsenceRequest, decision: 'approve' | 'reject') => {
+    // Rejections tell the family why
+    const decision_note = decision === 'reject' ? prompt(`Alasan menolak pengajuan ${request.student_name}`, '') : '';
+    if (decision_note === null) return;
+    try {
+      const res = await fetch(`/api/absence-requests/${request.id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision_note })
+      });
+      if (res.ok || res.status === 409) {
+        fetchAbsenceQueue();
+        if (studentDetail?.id === request.student_id) fetchStudentDetail(request.student_id);
+      }
+    } catch (error) {
+      console.error('Error deciding absence request:', error);
+    }
+  };
+
+  const fetchBehaviorCategories = async () => {
+    try {
+      const res = await fetch('/api/behavior-categories');
+      if (res.ok) setBehaviorCategories(await res.json());
+    } catch (error) {
+      console.error('Error fetching behavior categories:', error);
+    }
+  };
+
+  const handleAddBehaviorCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveAcademicItem('/api/behavior-categories', 'POST', newBehaviorCategory)) {
+      setNewBehaviorCategory({ ...newBehaviorCategory, name: '' });
+      fetchBehaviorCategories();
+    }
+  };
+
+  const handleDeleteBehaviorCategory = async (id: number) => {
+    if (await saveAcademicItem(`/api/behavior-categories/${id}`, 'DELETE')) fetchBehaviorCategories();
+  };
+
+  const fetchSanctionThresholds = async () => {
+    try {
+      const res = await fetch('/api/sanction-thresholds');
+      if (res.ok) setSanctionThresholds(await res.json());
+    } catch (error) {
+      console.error('Error fetching sanction thresholds:', error);
+    }
+  };
+
+  const handleSaveSanctionThreshold = async (threshold: SanctionThreshold) => {
+    if (await saveAcademicItem(`/api/sanction-thresholds/${threshold.id}`, 'PUT', threshold)) fetchSanctionThresholds();
+  };
+
+  const fetchSchoolCalendar = async () => {
+    try {
+      const res = await fetch('/api/school-calendar');
+      if (res.ok) setSchoolCalendar(await res.json());
+    } catch (error) {
+      console.error('Error fetching school calendar:', error);
+    }
+  };
+
+  const handleAddCalendarEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // A single day only needs the start date
+    const entry = { ...newCalendarEntry, end_date: newCalendarEntry.end_date || newCalendarEntry.start_date };
+    if (await saveAcademicItem('/api/school-calendar', 'POST', entry)) {
+      setNewCalendarEntry({ start_date: '', end_date: '', type: newCalendarEntry.type, description: '' });
+      fetchSchoolCalendar();
+    }
+  };
+
+  const handleDeleteCalendarEntry = async (id: number) => {
+    if (await saveAcademicItem(`/api/school-calendar/${id}`, 'DELETE')) fetchSchoolCalendar();
+  };
+
+  const handleSaveAlertRule = async (rule: AlertRule) => {
+    if (await saveAcademicItem(`/api/alert-rules/${rule.id}`, 'PUT', rule)) fetchAlertRules();
+  };
+
+  const fetchNotifications = async () => {
+    try {
+      const [templatesRes, outboxRes] = await Promise.all([
+        fetch('/api/notification-templates'),
+        fetch('/api/notifications')
+      ]);
+      if (templatesRes.ok) setNotificationTemplates(await templatesRes.json());
+      if (outboxRes.ok) setOutbox(await outboxRes.json());
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const handleSaveTemplate = async (template: NotificationTemplate) => {
+    setNotificationMessage('');
+    try {
+      const res = await fetch(`/api/notification-templates/${template.event}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: template.body, enabled: !!template.enabled })
+      });
+      const data = await res.json();
+      setNotificationMessage(res.ok ? 'Template disimpan' : data.message);
+      if (res.ok) fetchNotifications();
+    } catch (error) {
+      setNotificationMessage('Terjadi kesalahan saat menyimpan template');
+    }
+  };
+
+  const handleRetryNotification = async (id: number) => {
+    try {
+      const res = await fetch(`/api/notifications/${id}/retry`, { method: 'POST' });
+      if (res.ok) fetchNotifications();
+    } catch (error) {
+      console.error('Error retrying notification:', error);
+    }
+  };
+
+  const fetchAcademicData = async () => {
+    try {
+      const [classesRes, subjectsRes, yearsRes, termsRes, settingsRes, typesRes, categoriesRes] = await Promise.all([
+        fetch('/api/classes'),
+        fetch('/api/subjects'),
+        fetch('/api/academic-years'),
+        fetch('/api/terms'),
+        fetch('/api/settings'),
+        fetch('/api/assessment-types'),
+        fetch('/api/behavior-categories')
+      ]);
+      if (classesRes.ok) setClasses(await classesRes.json());
+      if (subjectsRes.ok) setSubjects(await subjectsRes.json());
+      if (yearsRes.ok) setAcademicYears(await yearsRes.json());
+      if (termsRes.ok) {
+        const data: Term[] = await termsRes.json();
+        setTerms(data);
+        // Default the rapor to the term we're in, else the most recent one
+        const today = todayISO();
+        const current = data.find(t => t.start_date <= today && today <= t.end_date) ?? data[0];
+        setReportTermId(prev => prev ?? current?.id ?? null);
+      }
+      if (settingsRes.ok) setSchoolSettings(await settingsRes.json());
+      if (typesRes.ok) setAssessmentTypes(await typesRes.json());
+      if (categoriesRes.ok) setBehaviorCategories(await categoriesRes.json());
+    } catch (error) {
+      console.error('Error fetching academic data:', error);
+    }
+  };
+
+  // Shared by the class, subject, year and term forms on the Data Akademik screen
+  const saveAcademicItem = async (url: string, method: 'POST' | 'PUT' | 'DELETE', body?: object) => {
+    setAcademicMessage('');
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setAcademicMessage(data.message);
+        return false;
+      }
+      await fetchAcademicData();
+      return true;
+    } catch (error) {
+      setAcademicMessage('Terjadi kesalahan saat menyimpan data akademik');
+      return false;
+    }
+  };
+
+  const handleAddClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveAcademicItem('/api/classes', 'POST', { name: newClassName })) setNewClassName('');
+  };
+
+  const handleEditClass = async (item: ClassItem) => {
+    const name = prompt('Nama kelas', item.name);
+    if (!name) return;
+    const homeroomTeacher = prompt('Nama wali kelas', item.homeroom_teacher ?? '');
+    if (homeroomTeacher === null) return;
+    const body = { name, homeroom_teacher: homeroomTeacher, homeroom_teacher_id: item.homeroom_teacher_id };
+    if (await saveAcademicItem(`/api/classes/${item.id}`, 'PUT', body)) {
+      if (name !== item.name) fetchTeacherData();
+    }
+  };
+
+  // Picking the wali kelas account also puts that teacher's name on the rapor; it can still be edited after
+  const handleHomeroomChange = async (item: ClassItem, userId: number | null) => {
+    const body = { name: item.name, homeroom_teacher: userId ? null : item.homeroom_teacher, homeroom_teacher_id: userId };
+    if (await saveAcademicItem(`/api/classes/${item.id}`, 'PUT', body)) fetchStaffUsers();
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveAcademicItem('/api/settings', 'PUT', schoolSettings);
+  };
+
+  const openReport = (path: string, format: 'html' | 'pdf') => {
+    if (!reportTermId) return;
+    window.open(`${path}?term_id=${reportTermId}&format=${format}`, '_blank');
+  };
+
+  const handleAddSubject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveAcademicItem('/api/subjects', 'POST', newSubject)) setNewSubject({ name: '', code: '' });
+  };
+
+  const handleRenameSubject = async (item: Subject) => {
+    const name = prompt('Nama mata pelajaran baru', item.name);
+    if (name && name !== item.name) saveAcademicItem(`/api/subjects/${item.id}`, 'PUT', { name, code: item.code });
+  };
+
+  const handleAddYear = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveAcademicItem('/api/academic-years', 'POST', newYear)) setNewYear({ name: '', start_date: '', end_date: '' });
+  };
+
+  const handleAddTerm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await saveAcademicItem('/api/terms', 'POST', newTerm)) {
+      setNewTerm({ academic_year_id: newTerm.academic_year_id, name: '', start_date: '', end_date: '' });
+    }
+  };
+
+  const fetchStudentDetail = async (id: number) => {
+    try {
+      const res = await fetch(`/api/students/${id}`);
+      if (res.ok) {
+        const data = await res.json();
+        setStudentDetail(data);
+        setStudentDetailError(null);
+      } else if (res.status === 403 || res.status === 404) {
+        setStudentDetailError(res.status);
+      }
+    } catch (error) {
+      console.error('Error fetching student detail:', error);
+    }
+  };
+
+  const fetchStudentAttendance = async (id: number, month: string) => {
+    const { from, to } = monthRange(month);
+    try {
+      const res = await fetch(`/api/students/${id}/attendance?from=${from}&to=${to}`);
+      if (res.ok) setAttendanceCalendar(await res.json());
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+    }
+  };
+
+  const fetchRoll = async (classId: number, date: string) => {
+    setRollMessage('');
+    try {
+      const res = await fetch(`/api/attendance/roll?class_id=${classId}&date=${date}`);
+      if (res.ok) {
+        const data: { student_id: number; name: string; status: AttendanceStatus | null }[] = await res.json();
+        // Students without a record yet default to present
+        setRoll(data.map(r => ({ ...r, status: r.status ?? 'present' })));
+      }
+    } catch (error) {
+      console.error('Error fetching roll call:', error);
+    }
+  };
+
+  const setRollStatus = (studentId: number, status: AttendanceStatus) => {
+    setRoll(roll.map(r => r.student_id === studentId ? { ...r, status } : r));
+  };
+
+  const handleSaveRoll = async () => {
+    if (!user) return;
+    setRollSaving(true);
+    setRollMessage('');
+    try {
+      const res = await sendWrite({
+        user_id: user.id,
+        url: '/api/attendance/batch',
+        method: 'POST',
+        body: { date: rollDate, records: roll.map(r => ({ student_id: r.student_id, status: r.status })) },
+        label: `Absensi ${classes.find(c => c.id === rollClassId)?.name ?? ''} ${new Date(rollDate).toLocaleDateString('id-ID')}`
+      });
+      if (!res) {
+        setRollMessage('Koneksi terputus. Absensi disimpan di perangkat ini dan dikirim otomatis saat online.');
+        refreshPendingWrites();
+        return;
+      }
+      const data = await res.json();
+      setRollMessage(res.ok ? `Absensi ${data.saved} siswa tersimpan` : data.message);
+      if (res.ok) fetchTeacherData();
+    } catch (error) {
+      setRollMessage('Terjadi kesalahan saat menyimpan absensi');
+    } finally {
+      setRollSaving(false);
+    }
+  };
+
+  const fetchRecap = async (classId: number, month: string) => {
+    try {
+      const res = await fetch(`/api/attendance/recap?class_id=${classId}&month=${month}`);
+      setRecap(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Error fetching attendance recap:', error);
+    }
+  };
+
+  const openRollCall = (classId: number) => {
+    setRollClassId(classId);
+    setRollDate(todayISO());
+    navigate({ page: 'tab', tab: 'attendance' });
+  };
+
+  const openStudentForm = (student?: Student) => {
+    setStudentFormError('');
+    setStudentFieldErrors({});
+    setStudentForm(student ? {
+      ...emptyStudentForm,
+      id: student.id,
+      name: student.name,
+      class_id: student.class_id,
+      parent_name: student.parent_name || '',
+      phone: student.phone || '',
+      notificationsOptOut: !!student.notifications_opt_out,
+    } : emptyStudentForm);
+  };
+
+  const handleSaveStudent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!studentForm) return;
+    const isNew = studentForm.id === null;
+    const body = {
+      name: studentForm.name,
+      class_id: studentForm.class_id,
+      parent_name: studentForm.parent_name,
+      phone: studentForm.phone,
+      notifications_opt_out: studentForm.notificationsOptOut,
+      account: isNew && studentForm.createAccount
+        ? { username: studentForm.username, password: studentForm.password }
+        : undefined
+    };
+    const errors = formErrors(studentSchema, body);
+    setStudentFieldErrors(errors);
+    setStudentFormError('');
+    if (hasErrors(errors)) return;
+
+    setStudentFormSaving(true);
+    try {
+      const res = await fetch(isNew ? '/api/students' : `/api/students/${studentForm.id}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data: ApiError = await res.json();
+      if (!res.ok) {
+        setStudentFieldErrors(data.errors ?? {});
+        setStudentFormError(data.errors ? '' : data.message);
+        return;
+      }
+      setStudentForm(null);
+      fetchTeacherData();
+      if (!isNew && selectedStudentId) fetchStudentDetail(selectedStudentId);
+    } catch (error) {
+      setStudentFormError('Terjadi kesalahan saat menyimpan data siswa');
+    } finally {
+      setStudentFormSaving(false);
+    }
+  };
+
+  const handleArchiveStudent = async (student: Student) => {
+    if (!confirm(`Arsipkan ${student.name}? Riwayat kehadiran, nilai, dan perilaku tetap disimpan.`)) return;
+    try {
+      const res = await fetch(`/api/students/${student.id}/archive`, { method: 'POST' });
+      if (res.ok) {
+        navigate({ page: 'tab', tab: 'students' });
+        setStudentDetail(null);
+        fetchTeacherData();
+      }
+    } catch (error) {
+      console.error('Error archiving student:', error);
+    }
+  };
+
+  const fetchBackups = async () => {
+    try {
+      const res = await fetch('/api/backups');
+      if (res.ok) setBackups(await res.json());
+    } catch (error) {
+      console.error('Error fetching backups:', error);
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setBackupMessage('');
+    setBackupBusy(true);
+    try {
+      const res = await fetch('/api/backups', { method: 'POST' });
+      const data = await res.json();
+      setBackupMessage(res.ok ? `Cadangan ${data.name} dibuat` : data.message);
+      fetchBackups();
+    } catch (error) {
+      setBackupMessage('Terjadi kesalahan saat membuat cadangan');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleRestoreBackup = async (snapshot: BackupSnapshot) => {
+    const takenAt = new Date(snapshot.created_at).toLocaleString('id-ID');
+    if (!confirm(`Pulihkan database ke kondisi ${takenAt}? Semua perubahan setelah waktu itu hilang, dan semua pengguna harus masuk lagi. Data saat ini disimpan dulu sebagai cadangan.`)) return;
+    setBackupMessage('');
+    setBackupBusy(true);
+    try {
+      const res = await fetch(`/api/backups/${encodeURIComponent(snapshot.name)}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        clearSignedInState();
+        setLoginError(`Database dipulihkan ke kondisi ${takenAt}. Silakan masuk lagi.`);
+      } else {
+        setBackupMessage(data.message);
+      }
+    } catch (error) {
+      setBackupMessage('Terjadi kesalahan saat memulihkan database');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const fetchSchools = async () => {
+    try {
+      const res = await fetch('/api/schools');
+      if (res.ok) setSchools(await res.json());
+    } catch (error) {
+      console.error('Error fetching schools:', error);
+    }
+  };
+
+  const openSchoolForm = () => {
+    setSchoolFormError('');
+    setSchoolFieldErrors({});
+    setSchoolForm({ name: '', admin_username: '', admin_full_name: '', admin_password: '' });
+  };
+
+  const handleSaveSchool = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schoolForm) return;
+    const errors = formErrors(schoolSchema, schoolForm);
+    setSchoolFieldErrors(errors);
+    setSchoolFormError('');
+    if (hasErrors(errors)) return;
+
+    try {
+      const res = await fetch('/api/schools', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schoolForm)
+      });
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setSchoolForm(null);
+        fetchSchools();
+      } else {
+        setSchoolFieldErrors(data.errors ?? {});
+        setSchoolFormError(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setSchoolFormError('Terjadi kesalahan saat menyimpan sekolah');
+    }
+  };
+
+  const fetchStaffUsers = async () => {
+    try {
+      const res = await fetch('/api/users');
+      if (res.ok) setStaffUsers(await res.json());
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const openStaffForm = (account?: StaffUser) => {
+    setStaffFormError('');
+    setStaffFieldErrors({});
+    setStaffForm({
+      id: account?.id ?? null,
+      username: account?.username ?? '',
+      full_name: account?.full_name ?? '',
+      role: account?.role ?? 'teacher',
+      password: '',
+      assignments: account?.assignments.map(a => ({ ...a })) ?? [],
+    });
+  };
+
+  const updateAssignment = (index: number, field: keyof TeachingAssignment, value: string) => {
+    setStaffForm(prev => prev && {
+      ...prev,
+      assignments: prev.assignments.map((a, i) => i === index ? { ...a, [field]: value ? Number(value) : '' } : a),
+    });
+  };
+
+  const handleSaveStaff = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!staffForm) return;
+    const isNew = staffForm.id === null;
+    const body = {
+      username: staffForm.username,
+      full_name: staffForm.full_name,
+      role: staffForm.role,
+      password: isNew ? staffForm.password : undefined,
+      // Admins aren't limited to classes, so their teaching assignments don't matter
+      assignments: staffForm.role === 'admin' ? [] : staffForm.assignments,
+    };
+    const errors = formErrors(staffUserSchema, body);
+    if (isNew && !errors.password && !staffForm.password) errors.password = 'Password wajib diisi';
+    setStaffFieldErrors(errors);
+    setStaffFormError('');
+    if (hasErrors(errors)) return;
+
+    try {
+      const res = await fetch(isNew ? '/api/users' : `/api/users/${staffForm.id}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setStaffForm(null);
+        fetchStaffUsers();
+      } else {
+        setStaffFieldErrors(data.errors ?? {});
+        setStaffFormError(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setStaffFormError('Terjadi kesalahan saat menyimpan akun');
+    }
+  };
+
+  const openPasswordForm = (mode: PasswordForm['mode'], account?: { id: number; username: string }) => {
+    setPasswordMessage('');
+    setPasswordFieldErrors({});
+    setPasswordForm({
+      mode,
+      userId: account?.id ?? null,
+      username: account?.username ?? '',
+      current: '',
+      next: '',
+      confirm: '',
+    });
+  };
+
+  const handleSavePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordForm) return;
+    const isChange = passwordForm.mode === 'change';
+    const body = isChange ? { current_password: passwordForm.current, new_password: passwordForm.next } : { new_password: passwordForm.next };
+    const errors = formErrors(isChange ? passwordChangeSchema : passwordResetSchema, body);
+    if (!errors.new_password && passwordForm.next !== passwordForm.confirm) errors.confirm = 'Konfirmasi password tidak cocok';
+    setPasswordFieldErrors(errors);
+    setPasswordMessage('');
+    if (hasErrors(errors)) return;
+
+    try {
+      const res = await fetch(isChange ? '/api/me/password' : `/api/users/${passwordForm.userId}/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setPasswordForm(null);
+      } else {
+        setPasswordFieldErrors(data.errors ?? {});
+        setPasswordMessage(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setPasswordMessage('Terjadi kesalahan saat menyimpan password');
+    }
+  };
+
+  const handleLinkParent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!studentDetail) return;
+    const errors = formErrors(parentLinkSchema, parentLinkForm);
+    setParentLinkErrors(errors);
+    setParentLinkMessage('');
+    if (hasErrors(errors)) return;
+    try {
+      const res = await fetch(`/api/students/${studentDetail.id}/parents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parentLinkForm)
+      });
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setParentLinkForm({ username: '', password: '' });
+        fetchStudentDetail(studentDetail.id);
+      } else {
+        setParentLinkErrors(data.errors ?? {});
+        setParentLinkMessage(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setParentLinkMessage('Terjadi kesalahan saat menghubungkan akun orang tua');
+    }
+  };
+
+  const handleUnlinkParent = async (parentId: number) => {
+    if (!studentDetail) return;
+    try {
+      const res = await fetch(`/api/students/${studentDetail.id}/parents/${parentId}`, { method: 'DELETE' });
+      if (res.ok) fetchStudentDetail(studentDetail.id);
+    } catch (error) {
+      console.error('Error unlinking parent:', error);
+    }
+  };
+
+  // Passing the original grade opens the form as a remedial retake of it
+  // Teachers only get the subjects they teach in the student's class
+  const gradableSubjects = (classId: number | null) => {
+    const ids = user ? gradableSubjectIds(user, classId) : [];
+    return ids === null ? subjects : subjects.filter(s => ids.includes(s.id));
+  };
+
+  const openGradeForm = (remedialOf?: Grade) => {
+    setGradeFormError('');
+    setGradeFieldErrors({});
+    setGradeForm(remedialOf
+      ? { subject_id: remedialOf.subject_id, assessment_type_id: remedialOf.assessment_type_id, remedial_of: remedialOf, score: '', date: todayISO() }
+      : { subject_id: '', assessment_type_id: '', remedial_of: null, score: '', date: todayISO() });
+  };
+
+  const handleSaveGrade = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!gradeForm || !studentDetail || !user) return;
+    const body = {
+      student_id: studentDetail.id,
+      subject_id: gradeForm.subject_id,
+      assessment_type_id: gradeForm.assessment_type_id,
+      remedial_of: gradeForm.remedial_of?.id ?? null,
+      score: gradeForm.score,
+      date: gradeForm.date
+    };
+    const errors = formErrors(gradeSchema, body);
+    setGradeFieldErrors(errors);
+    setGradeFormError('');
+    if (hasErrors(errors)) return;
+    try {
+      const res = await sendWrite({
+        user_id: user.id,
+        url: '/api/grades',
+        method: 'POST',
+        body: { ...body, score: Number(body.score) },
+        label: `Nilai ${subjects.find(sub => sub.id === body.subject_id)?.name ?? ''} ${studentDetail.name}: ${body.score}`
+      });
+      if (!res) {
+        setGradeForm(null);
+        refreshPendingWrites();
+        return;
+      }
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setGradeForm(null);
+        fetchStudentDetail(studentDetail.id);
+      } else {
+        setGradeFieldErrors(data.errors ?? {});
+        setGradeFormError(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setGradeFormError('Terjadi kesalahan saat menyimpan nilai');
+    }
+  };
+
+  const openBehaviorForm = () => {
+    setBehaviorFormError('');
+    setBehaviorFieldErrors({});
+    setBehaviorForm({ category_id: '', description: '', date: todayISO() });
+  };
+
+  const handleSaveBehavior = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!behaviorForm || !studentDetail || !user) return;
+    const body = { student_id: studentDetail.id, ...behaviorForm };
+    const errors = formErrors(behaviorSchema, body);
+    setBehaviorFieldErrors(errors);
+    setBehaviorFormError('');
+    if (hasErrors(errors)) return;
+    try {
+      const res = await sendWrite({
+        user_id: user.id,
+        url: '/api/behavior',
+        method: 'POST',
+        body,
+        label: `Catatan ${behaviorCategories.find(c => c.id === body.category_id)?.name ?? 'perilaku'} ${studentDetail.name}`
+      });
+      if (!res) {
+        setBehaviorForm(null);
+        refreshPendingWrites();
+        return;
+      }
+      const data: ApiError = await res.json();
+      if (res.ok) {
+        setBehaviorForm(null);
+        fetchStudentDetail(studentDetail.id);
+      } else {
+        setBehaviorFieldErrors(data.errors ?? {});
+        setBehaviorFormError(data.errors ? '' : data.message);
+      }
+    } catch (error) {
+      setBehaviorFormError('Terjadi kesalahan saat menyimpan catatan');
+    }
+  };
+
+  // PUT/DELETE/restore for a single attendance, grade or behavior record, then reload the detail page
+  const sendRecordChange = async (studentId: number, url: string, method: 'PUT' | 'DELETE' | 'POST', body?: object) => {
+    setRecordError('');
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setRecordError(data.message);
+        return false;
+      }
+      await fetchStudentDetail(studentId);
+      return true;
+    } catch (error) {
+      setRecordError('Terjadi kesalahan saat menyimpan perubahan');
+      return false;
+    }
+  };
+
+  const handleAttendanceStatusChange = async (record: Attendance, status: AttendanceStatus) => {
+    const url = `/api/attendance/${record.id}`;
+    if (await sendRecordChange(record.student_id, url, 'PUT', { status })) {
+      setUndoAction({ message: 'Status kehadiran diubah', undo: () => sendRecordChange(record.student_id, url, 'PUT', { status: record.status }) });
+    }
+  };
+
+  const handleSaveRecordEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recordEdit || !studentDetail) return;
+    const studentId = studentDetail.id;
+    const url = `/api/${recordEdit.kind}/${recordEdit.id}`;
+
+    if (recordEdit.kind === 'grades') {
+      const previous = studentDetail.grades.find(g => g.id === recordEdit.id)!;
+      const body = { subject_id: recordEdit.subject_id, assessment_type_id: recordEdit.assessment_type_id, score: Number(recordEdit.score), date: recordEdit.date };
+      if (await sendRecordChange(studentId, url, 'PUT', body)) {
+        setRecordEdit(null);
+        setUndoAction({
+          message: 'Nilai diperbarui',
+          undo: () => sendRecordChange(studentId, url, 'PUT', {
+            subject_id: previous.subject_id,
+            assessment_type_id: previous.assessment_type_id,
+            score: previous.score,
+            date: previous.date
+          })
+        });
+      }
+    } else {
+      const previous = studentDetail.behavior.find(b => b.id === recordEdit.id)!;
+      const body = { category_id: recordEdit.category_id, description: recordEdit.description, date: recordEdit.date };
+      if (await sendRecordChange(studentId, url, 'PUT', body)) {
+        setRecordEdit(null);
+        setUndoAction({
+          message: 'Catatan perilaku diperbarui',
+          undo: () => sendRecordChange(studentId, url, 'PUT', { category_id: previous.category_id, description: previous.description, date: previous.date })
+        });
+      }
+    }
+  };
+
+  const handleDeleteRecord = async (kind: RecordKind, record: { id: number; student_id: number }, label: string) => {
+    const url = `/api/${kind}/${record.id}`;
+    if (await sendRecordChange(record.student_id, url, 'DELETE')) {
+      if (recordEdit?.id === record.id) setRecordEdit(null);
+      setUndoAction({ message: `${label} dihapus`, undo: () => sendRecordChange(record.student_id, `${url}/restore`, 'POST') });
+    }
+  };
+
+  const requestImport = async (
+    file: { name: string; content: string },
+    kind: ImportKind,
+    mapping: Record<string, number | null> | undefined,
+    commit: boolean
+  ) => {
+    setImporting(true);
+    setImportMessage('');
+    try {
+      const res = await fetch(`/api/import/${kind}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file_name: file.name, content: file.content, mapping, commit })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setImportMessage(data.message);
+      } else if (commit) {
+        setImportMessage(`Impor selesai: ${data.created} baru, ${data.updated} diperbarui, ${data.rejected} ditolak`);
+        setImportPreview(null);
+        setImportFile(null);
+        fetchTeacherData();
+      } else {
+        setImportPreview(data);
+      }
+    } catch (error) {
+      setImportMessage('Terjadi kesalahan saat memproses file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Data URL is "data:<mime>;base64,<content>"
+      const content = String(reader.result).split(',')[1] ?? '';
+      const picked = { name: file.name, content };
+      setImportFile(picked);
+      requestImport(picked, importKind, undefined, false);
+    };
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  const handleImportMapping = (field: string, column: string) => {
+    if (!importFile || !importPreview) return;
+    const mapping = { ...importPreview.mapping, [field]: column === '' ? null : Number(column) };
+    requestImport(importFile, importKind, mapping, false);
+  };
+
+  const handleImportKind = (kind: ImportKind) => {
+    setImportKind(kind);
+    setImportPreview(null);
+    if (importFile) requestImport(importFile, kind, undefined, false);
+  };
+
+  const handleStudentClick = (id: number) => navigate({ page: 'student', studentId: id, section: null });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#F5F5F5]">
+        <div className="animate-spin text-emerald-600">
+          <Activity size={40} />
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#F5F5F5] p-4">
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-black/5"
+        >
+          <div className="flex flex-col items-center mb-8">
+            <div className="w-16 h-16 bg-emerald-100 text-emerald-600 rounded-2xl flex items-center justify-center mb-4">
+              <GraduationCap size={40} />
+            </div>
+            <h1 className="text-2xl font-bold">EduTrack Login</h1>
+            <p className="text-gray-500 text-sm">Masuk untuk memantau perkembangan siswa</p>
+          </div>
+
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Username</label>
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+                <input 
+                  type="text" 
+                  required
+                  className="w-full pl-10 pr-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  placeholder="Masukkan username"
+                  value={loginForm.username}
+                  onChange={e => setLoginForm({...loginForm, username: e.target.value})}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Password</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+                <input 
+                  type="password" 
+                  required
+                  className="w-full pl-10 pr-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  placeholder="Masukkan password"
+                  value={loginForm.password}
+                  onChange={e => setLoginForm({...loginForm, password: e.target.value})}
+                />
+              </div>
+            </div>
+
+            {loginError && (
+              <p className="text-red-500 text-sm text-center font-medium">{loginError}</p>
+            )}
+
+            <button 
+              type="submit"
+              className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
+            >
+              Masuk Sekarang
+            </button>
+          </form>
 
           <div className="mt-8 pt-6 border-t border-black/5 text-center">
             <p className="text-xs text-gray-400">
+              Gunakan akun Admin: <span className="font-mono font-bold text-gray-600">admin / admin123</span><br/>
               Gunakan akun Guru: <span className="font-mono font-bold text-gray-600">guru / guru123</span><br/>
-              Gunakan akun Siswa: <span className="font-mono font-bold text-gray-600">ahmad / siswa123</span>
+              Gunakan akun Siswa: <span className="font-mono font-bold text-gray-600">ahmad / siswa123</span><br/>
+              Gunakan akun Orang Tua: <span className="font-mono font-bold text-gray-600">budi / ortu123</span>
             </p>
           </div>
         </motion.div>
@@ -251,181 +1891,1296 @@ export default function App() {
     );
   }
 
-  const filteredStudents = students.filter(s => 
-    s.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    s.class.toLowerCase().includes(searchTerm.toLowerCase())
-  );
 
-  return (
-    <div className="min-h-screen bg-[#F5F5F5] text-[#1A1A1A] font-sans">
-      {/* Sidebar */}
-      <div className="fixed left-0 top-0 h-full w-64 bg-white border-r border-black/5 flex flex-col">
-        <div className="p-6 border-bottom border-black/5">
-          <div className="flex items-center gap-2 text-emerald-600 font-bold text-xl">
-            <GraduationCap size={28} />
-            <span>EduTrack</span>
-          </div>
-          <p className="text-xs text-gray-400 mt-1 uppercase tracking-widest font-semibold">Monitoring Siswa</p>
-        </div>
+  return (
+    <div className="min-h-screen bg-[#F5F5F5] text-[#1A1A1A] font-sans">
+      {/* Sidebar */}
+      <div className="fixed left-0 top-0 h-full w-64 bg-white border-r border-black/5 flex flex-col">
+        <div className="p-6 border-bottom border-black/5">
+          <div className="flex items-center gap-2 text-emerald-600 font-bold text-xl">
+            <GraduationCap size={28} />
+            <span>EduTrack</span>
+          </div>
+          <p className="text-xs text-gray-400 mt-1 uppercase tracking-widest font-semibold">Monitoring Siswa</p>
+          {user.school && <p className="text-sm text-gray-600 mt-2 font-medium">{user.school.name}</p>}
+        </div>
+
+        <nav className="flex-1 px-4 py-6 space-y-2">
+          {isStaff(user) ? (
+            <>
+              <button 
+                onClick={() => navigate({ page: 'tab', tab: 'dashboard' })}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'dashboard' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <LayoutDashboard size={20} />
+                <span>Dashboard</span>
+              </button>
+              <button 
+                onClick={() => navigate({ page: 'tab', tab: 'students' })}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'students' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <Users size={20} />
+                <span>Daftar Siswa</span>
+              </button>
+              <button 
+                onClick={() => navigate({ page: 'tab', tab: 'attendance' })}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'attendance' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <ClipboardCheck size={20} />
+                <span>Absensi Kelas</span>
+              </button>
+              <button 
+                onClick={() => navigate({ page: 'tab', tab: 'recap' })}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'recap' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <Table size={20} />
+                <span>Rekap Absensi</span>
+              </button>
+              {isAdmin(user) && (
+                <>
+                  <button 
+                    onClick={() => navigate({ page: 'tab', tab: 'academic' })}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'academic' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                  >
+                    <BookOpen size={20} />
+                    <span>Data Akademik</span>
+                  </button>
+                  <button 
+                    onClick={() => navigate({ page: 'tab', tab: 'import' })}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'import' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                  >
+                    <Upload size={20} />
+                    <span>Impor Data</span>
+                  </button>
+                  <button 
+                    onClick={() => navigate({ page: 'tab', tab: 'notifications' })}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'notifications' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                  >
+                    <Bell size={20} />
+                    <span>Notifikasi</span>
+                  </button>
+                  <button 
+                    onClick={() => navigate({ page: 'tab', tab: 'users' })}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'users' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                  >
+                    <UserCog size={20} />
+                    <span>Pengguna</span>
+                  </button>
+                </>
+              )}
+            </>
+          ) : isFoundation(user) ? (
+            <>
+              <button 
+                onClick={() => navigate({ page: 'tab', tab: 'schools' })}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'schools' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <Building2 size={20} />
+                <span>Sekolah</span>
+              </button>
+              <button 
+                onClick={() => navigate({ page: 'tab', tab: 'backups' })}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'backups' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <DatabaseBackup size={20} />
+                <span>Cadangan</span>
+              </button>
+            </>
+          ) : user.role === 'parent' ? (
+            <>
+              <p className="px-4 text-xs font-semibold text-gray-400 uppercase tracking-wider">Anak Saya</p>
+              {user.children?.map(child => (
+                <button 
+                  key={child.id}
+                  onClick={() => navigate({ page: 'student', studentId: child.id, section: null })}
+                  className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${studentDetail?.id === child.id ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                  <User size={20} />
+                  <div className="text-left">
+                    <p className="text-sm">{child.name}</p>
+                    <p className="text-xs text-gray-400">{child.class}</p>
+                  </div>
+                </button>
+              ))}
+              {!user.children?.length && (
+                <p className="px-4 text-sm text-gray-400 italic">Belum ada data anak yang terhubung</p>
+              )}
+            </>
+          ) : (
+            <button 
+              onClick={() => navigate({ page: 'tab', tab: 'my-profile' })}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'my-profile' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+              <User size={20} />
+              <span>Profil Saya</span>
+            </button>
+          )}
+        </nav>
+
+        <div className="p-6 border-t border-black/5">
+          {(!online || pendingWrites.length > 0 || rejectedWrites.length > 0) && (
+            <div className="mb-4 p-3 rounded-xl bg-amber-50 text-amber-800 text-xs space-y-2">
+              <div className="flex items-center gap-2 font-bold">
+                {online ? <CloudUpload size={14} /> : <WifiOff size={14} />}
+                <span>{online ? `${pendingWrites.length} data belum terkirim` : `Offline · ${pendingWrites.length} data belum terkirim`}</span>
+              </div>
+              {pendingWrites.length > 0 && (
+                <ul className="space-y-0.5 text-amber-700">
+                  {pendingWrites.slice(0, 3).map(w => <li key={w.key} className="truncate">{w.label}</li>)}
+                  {pendingWrites.length > 3 && <li>+{pendingWrites.length - 3} lainnya</li>}
+                </ul>
+              )}
+              {online && pendingWrites.length > 0 && (
+                <button onClick={syncPendingWrites} className="font-bold uppercase hover:underline">Kirim Sekarang</button>
+              )}
+              {rejectedWrites.length > 0 && (
+                <div className="pt-2 border-t border-amber-200 space-y-1 text-red-600">
+                  <p className="font-bold">Ditolak server:</p>
+                  {rejectedWrites.map(r => <p key={r.write.key}>{r.write.label}: {r.message}</p>)}
+                  <button onClick={() => setRejectedWrites([])} className="font-bold uppercase hover:underline">Tutup</button>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-emerald-100 flex items-center justify-center text-emerald-700 font-bold">
+                {user.username.charAt(0).toUpperCase()}
+              </div>
+              <div>
+                <p className="text-sm font-semibold truncate w-24">{user.full_name ?? user.username}</p>
+                <p className="text-xs text-gray-400">{ROLE_LABELS[user.role]}</p>
+              </div>
+            </div>
+          </div>
+          <button 
+            onClick={() => openPasswordForm('change')}
+            className="w-full flex items-center justify-center gap-2 py-2 mb-1 text-gray-500 hover:bg-gray-50 rounded-lg transition-all text-sm font-medium"
+          >
+            <KeyRound size={16} />
+            <span>Ganti Password</span>
+          </button>
+          <button 
+            onClick={handleLogout}
+            className="w-full flex items-center justify-center gap-2 py-2 text-red-500 hover:bg-red-50 rounded-lg transition-all text-sm font-medium"
+          >
+            <LogOut size={16} />
+            <span>Keluar</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <main className="ml-64 p-8">
+        <AnimatePresence mode="wait">
+          {activeTab === 'dashboard' && isStaff(user) && !selectedStudentId && (
+            <motion.div 
+              key="dashboard"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="space-y-8"
+            >
+              <header>
+                <h1 className="text-3xl font-bold tracking-tight">Ringkasan Sekolah</h1>
+                <p className="text-gray-500">Selamat datang kembali, berikut adalah statistik hari ini.</p>
+              </header>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="p-2 bg-blue-50 text-blue-600 rounded-lg">
+                      <Users size={24} />
+                    </div>
+                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Total Siswa</span>
+                  </div>
+                  <p className="text-4xl font-light">{stats?.totalStudents || 0}</p>
+                  <p className="text-sm text-gray-400 mt-2">Siswa terdaftar aktif</p>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="p-2 bg-emerald-50 text-emerald-600 rounded-lg">
+                      <UserCheck size={24} />
+                    </div>
+                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Hadir Hari Ini</span>
+                  </div>
+                  <p className="text-4xl font-light">
+                    {stats?.attendanceToday?.find(a => a.status === 'present')?.count || 0}
+                  </p>
+                  <p className="text-sm text-gray-400 mt-2">Kehadiran tercatat</p>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="p-2 bg-amber-50 text-amber-600 rounded-lg">
+                      <Activity size={24} />
+                    </div>
+                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Performa</span>
+                  </div>
+                  <p className="text-4xl font-light">{stats?.averageScore.current ?? '–'}</p>
+                  <p className="text-sm text-gray-400 mt-2">Rata-rata nilai 30 hari terakhir</p>
+                  {stats && <div className="mt-2"><Trend value={stats.averageScore} /></div>}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Tren Kehadiran & Perilaku</h2>
+                <div className="flex bg-white rounded-xl border border-black/5 p-1">
+                  {(['last7', 'last30'] as const).map(w => (
+                    <button 
+                      key={w}
+                      onClick={() => setStatsWindow(w)}
+                      className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-all ${statsWindow === w ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+                    >
+                      {w === 'last7' ? '7 Hari' : '30 Hari'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="p-2 bg-emerald-50 text-emerald-600 rounded-lg">
+                      <Calendar size={24} />
+                    </div>
+                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Tingkat Kehadiran</span>
+                  </div>
+                  <p className="text-4xl font-light">
+                    {stats?.attendanceRate[statsWindow].current != null ? `${stats.attendanceRate[statsWindow].current}%` : '–'}
+                  </p>
+                  <p className="text-sm text-gray-400 mt-2">Hadir atau terlambat dari seluruh catatan absensi</p>
+                  {stats && <div className="mt-2"><Trend value={stats.attendanceRate[statsWindow]} unit="%" /></div>}
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="p-2 bg-red-50 text-red-600 rounded-lg">
+                      <AlertCircle size={24} />
+                    </div>
+                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Catatan Negatif</span>
+                  </div>
+                  <p className="text-4xl font-light">{stats?.negativeBehavior[statsWindow].current ?? 0}</p>
+                  <p className="text-sm text-gray-400 mt-2">Catatan perilaku negatif</p>
+                  {stats && <div className="mt-2"><Trend value={stats.negativeBehavior[statsWindow]} higherIsBetter={false} /></div>}
+                </div>
+              </div>
+
+              <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <AlertTriangle size={18} className="text-red-500" />
+                  Peringatan Dini
+                  {alerts.length > 0 && (
+                    <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs font-bold">{alerts.length}</span>
+                  )}
+                </h3>
+                {alerts.length === 0 ? (
+                  <p className="text-sm text-gray-400">Tidak ada siswa yang perlu perhatian.</p>
+                ) : (
+                  <div className="divide-y divide-black/5">
+                    {alerts.map(a => (
+                      <div key={a.id} className="flex items-center justify-between gap-4 py-3">
+                        <div className="cursor-pointer" onClick={() => handleStudentClick(a.student_id)}>
+                          <p className="text-sm font-medium">
+                            {a.student_name} <span className="text-gray-400 font-normal">· {a.class}</span>
+                          </p>
+                          <p className="text-xs text-gray-500">{a.message}</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {a.status === 'open' ? (
+                            <button
+                              onClick={() => handleAlertAction(a, 'acknowledge')}
+                              className="text-xs text-amber-600 font-bold uppercase px-2 py-1 rounded-lg hover:bg-amber-50 transition-colors"
+                            >
+                              Tindak Lanjuti
+                            </button>
+                          ) : (
+                            <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">Ditindaklanjuti</span>
+                          )}
+                          <button
+                            onClick={() => handleAlertAction(a, 'resolve')}
+                            className="text-xs text-emerald-600 font-bold uppercase px-2 py-1 rounded-lg hover:bg-emerald-50 transition-colors"
+                          >
+                            Selesai
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {followups.length > 0 && (
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <AlertCircle size={18} className="text-amber-600" />
+                    Tindak Lanjut Poin Pelanggaran
+                    <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-xs font-bold">{followups.length}</span>
+                  </h3>
+                  <div className="divide-y divide-black/5">
+                    {followups.map(f => (
+                      <div key={f.id} className="flex items-center justify-between gap-4 py-3">
+                        <div className="cursor-pointer" onClick={() => handleStudentClick(f.student_id)}>
+                          <p className="text-sm font-medium">
+                            {f.student_name} <span className="text-gray-400 font-normal">· {f.class}</span>
+                          </p>
+                          <p className="text-xs text-gray-500">{f.label} · {f.points} poin ({f.term})</p>
+                        </div>
+                        {canManageClass(user, f.class_id) && (
+                          <button
+                            onClick={() => handleCompleteFollowup(f)}
+                            className="text-xs text-emerald-600 font-bold uppercase px-2 py-1 rounded-lg hover:bg-emerald-50 transition-colors shrink-0"
+                          >
+                            Selesai
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {absenceQueue.length > 0 && (
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <CalendarX size={18} className="text-violet-600" />
+                    Pengajuan Izin
+                    <span className="px-2 py-0.5 bg-violet-100 text-violet-700 rounded-full text-xs font-bold">{absenceQueue.length}</span>
+                  </h3>
+                  <div className="divide-y divide-black/5">
+                    {absenceQueue.map(r => (
+                      <div key={r.id} className="flex items-center justify-between gap-4 py-3">
+                        <div className="cursor-pointer min-w-0" onClick={() => handleStudentClick(r.student_id)}>
+                          <p className="text-sm font-medium">
+                            {r.student_name} <span className="text-gray-400 font-normal">· {r.class}</span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {ATTENDANCE_OPTIONS.find(opt => opt.value === r.type)?.label} · {absenceDates(r)} · diajukan {r.requested_by}
+                          </p>
+                          <p className="text-xs text-gray-400 truncate">{r.reason}</p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {r.note_name && (
+                            <a
+                              href={`/api/absence-requests/${r.id}/note`}
+                              title={r.note_name}
+                              className="text-gray-400 hover:text-emerald-600 p-1 rounded-lg transition-colors"
+                            >
+                              <FileText size={16} />
+                            </a>
+                          )}
+                          <button
+                            onClick={() => handleAbsenceDecision(r, 'reject')}
+                            className="text-xs text-red-500 font-bold uppercase px-2 py-1 rounded-lg hover:bg-red-50 transition-colors"
+                          >
+                            Tolak
+                          </button>
+                          <button
+                            onClick={() => handleAbsenceDecision(r, 'approve')}
+                            className="text-xs text-emerald-600 font-bold uppercase px-2 py-1 rounded-lg hover:bg-emerald-50 transition-colors"
+                          >
+                            Setujui
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <h3 className="text-lg font-semibold p-6 pb-0">Per Kelas (30 Hari Terakhir)</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left mt-4">
+                    <thead>
+                      <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                        <th className="px-6 py-3">Kelas</th>
+                        <th className="px-6 py-3">Siswa</th>
+                        <th className="px-6 py-3">Kehadiran</th>
+                        <th className="px-6 py-3">Rata-rata Nilai</th>
+                        <th className="px-6 py-3">Catatan Negatif</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-black/5">
+                      {stats?.classBreakdown.map(c => (
+                        <tr key={c.id} className="text-sm">
+                          <td className="px-6 py-3 font-medium">{c.name}</td>
+                          <td className="px-6 py-3 text-gray-500">{c.student_count}</td>
+                          <td className="px-6 py-3 text-gray-500">{c.attendanceRate != null ? `${c.attendanceRate}%` : '–'}</td>
+                          <td className="px-6 py-3 text-gray-500">{c.averageScore ?? '–'}</td>
+                          <td className={`px-6 py-3 ${c.negativeBehavior > 0 ? 'text-red-500 font-medium' : 'text-gray-500'}`}>{c.negativeBehavior}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="text-lg font-semibold mb-6">Siswa Terbaru</h3>
+                  <div className="space-y-4">
+                    {recentStudents.map(student => (
+                      <div key={student.id} className="flex items-center justify-between p-3 hover:bg-gray-50 rounded-xl transition-colors cursor-pointer" onClick={() => handleStudentClick(student.id)}>
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center text-gray-500 font-medium">
+                            {student.name.charAt(0)}
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium">{student.name}</p>
+                            <p className="text-xs text-gray-400">{student.class}</p>
+                          </div>
+                        </div>
+                        <ChevronRight size={16} className="text-gray-300" />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="text-lg font-semibold mb-6">Aktivitas Terakhir</h3>
+                  <div className="space-y-6">
+                    {activity.length === 0 && <p className="text-sm text-gray-400">Belum ada aktivitas.</p>}
+                    {activity.map(item => (
+                      <div key={item.id} className="flex gap-4">
+                        <div className={`mt-1 w-2 h-2 rounded-full shrink-0 ${ACTIVITY_COLORS[item.entity] ?? 'bg-gray-400'}`}></div>
+                        <div>
+                          <p className="text-sm font-medium">
+                            {item.summary}
+                            {item.more > 0 && <span className="text-gray-400 font-normal"> dan {item.more} lainnya</span>}
+                          </p>
+                          <p className="text-xs text-gray-400">{item.username} · {timeAgo(item.created_at)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          )}
+
+          {activeTab === 'students' && isStaff(user) && !selectedStudentId && (
+            <motion.div 
+              key="students"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header className="flex items-center justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold tracking-tight">Daftar Siswa</h1>
+                  <p className="text-gray-500">Kelola dan monitor data seluruh siswa.</p>
+                </div>
+                {classes.some(c => canManageClass(user, c.id)) && (
+                  <button 
+                    onClick={() => openStudentForm()}
+                    className="bg-emerald-600 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-emerald-700 transition-colors shadow-sm"
+                  >
+                    <Plus size={20} />
+                    <span>Tambah Siswa</span>
+                  </button>
+                )}
+              </header>
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <div className="p-4 border-b border-black/5 bg-gray-50/50 flex items-center gap-4">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+                    <input 
+                      type="text" 
+                      placeholder="Cari nama, kelas, atau orang tua..." 
+                      className="w-full pl-10 pr-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                    />
+                  </div>
+                  <select 
+                    className="px-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={studentQuery.class_id}
+                    onChange={(e) => setStudentQuery({ ...studentQuery, class_id: e.target.value ? Number(e.target.value) : '', offset: 0 })}
+                  >
+                    <option value="">Semua kelas</option>
+                    {classes.filter(c => canSeeClass(user, c.id)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                        {([['name', 'Nama Siswa'], ['class', 'Kelas'], ['parent', 'Orang Tua']] as const).map(([sort, label]) => (
+                          <th key={sort} className="px-6 py-4">
+                            <button onClick={() => handleSortStudents(sort)} className="flex items-center gap-1 uppercase tracking-wider hover:text-gray-600">
+                              {label}
+                              {studentQuery.sort === sort && (studentQuery.order === 'asc' ? <ChevronUp size={14} /> : <ChevronDown size={14} />)}
+                            </button>
+                          </th>
+                        ))}
+                        <th className="px-6 py-4">Telepon</th>
+                        <th className="px-6 py-4 text-right">Aksi</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-black/5">
+                      {students.map(student => (
+                        <tr 
+                          key={student.id} 
+                          className="hover:bg-gray-50 transition-colors cursor-pointer group"
+                          onClick={() => handleStudentClick(student.id)}
+                        >
+                          <td className="px-6 py-4">
+                            <div className="flex items-center gap-3">
+                              <div className="w-8 h-8 rounded-full bg-emerald-100 text-emerald-700 flex items-center justify-center font-bold text-xs">
+                                {student.name.charAt(0)}
+                              </div>
+                              <span className="font-medium">{student.name}</span>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-500">{student.class}</td>
+                          <td className="px-6 py-4 text-sm text-gray-500">{student.parent_name}</td>
+                          <td className="px-6 py-4 text-sm text-gray-500 font-mono">{student.phone}</td>
+                          <td className="px-6 py-4 text-right">
+                            <button className="text-gray-400 group-hover:text-emerald-600 transition-colors">
+                              <ChevronRight size={20} />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                      {students.length === 0 && (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-400 italic">Tidak ada siswa yang cocok</td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
 
-        <nav className="flex-1 px-4 py-6 space-y-2">
-          {user.role === 'teacher' ? (
-            <>
-              <button 
-                onClick={() => { setActiveTab('dashboard'); setSelectedStudentId(null); }}
-                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'dashboard' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
-              >
-                <LayoutDashboard size={20} />
-                <span>Dashboard</span>
-              </button>
-              <button 
-                onClick={() => setActiveTab('students')}
-                className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'students' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
-              >
-                <Users size={20} />
-                <span>Daftar Siswa</span>
-              </button>
-            </>
-          ) : (
-            <button 
-              onClick={() => setActiveTab('my-profile')}
-              className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'my-profile' ? 'bg-emerald-50 text-emerald-700 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
-            >
-              <User size={20} />
-              <span>Profil Saya</span>
-            </button>
+                <div className="p-4 border-t border-black/5 flex items-center justify-between text-sm text-gray-500">
+                  <span>
+                    {studentTotal > 0
+                      ? `${studentQuery.offset + 1}–${Math.min(studentQuery.offset + STUDENT_PAGE_SIZE, studentTotal)} dari ${studentTotal} siswa`
+                      : '0 siswa'}
+                  </span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setStudentQuery({ ...studentQuery, offset: Math.max(studentQuery.offset - STUDENT_PAGE_SIZE, 0) })}
+                      disabled={studentQuery.offset === 0}
+                      className="px-3 py-1 rounded-lg border border-black/10 hover:bg-gray-50 transition-colors disabled:opacity-40"
+                    >
+                      Sebelumnya
+                    </button>
+                    <button
+                      onClick={() => setStudentQuery({ ...studentQuery, offset: studentQuery.offset + STUDENT_PAGE_SIZE })}
+                      disabled={studentQuery.offset + STUDENT_PAGE_SIZE >= studentTotal}
+                      className="px-3 py-1 rounded-lg border border-black/10 hover:bg-gray-50 transition-colors disabled:opacity-40"
+                    >
+                      Berikutnya
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
           )}
-        </nav>
 
-        <div className="p-6 border-t border-black/5">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-full bg-emerald-100 flex items-center justify-center text-emerald-700 font-bold">
-                {user.username.charAt(0).toUpperCase()}
+          {activeTab === 'attendance' && isStaff(user) && !selectedStudentId && (
+            <motion.div 
+              key="attendance"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header className="flex items-center justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold tracking-tight">Absensi Kelas</h1>
+                  <p className="text-gray-500">Catat kehadiran seluruh siswa dalam satu kelas.</p>
+                </div>
+                <button 
+                  onClick={handleSaveRoll}
+                  disabled={!rollClassId || roll.length === 0 || rollSaving}
+                  className="bg-emerald-600 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-emerald-700 transition-colors shadow-sm disabled:opacity-50"
+                >
+                  <Save size={20} />
+                  <span>{rollSaving ? 'Menyimpan...' : 'Simpan Absensi'}</span>
+                </button>
+              </header>
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <div className="p-4 border-b border-black/5 bg-gray-50/50 flex items-center gap-4">
+                  <select 
+                    className="px-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={rollClassId ?? ''}
+                    onChange={(e) => setRollClassId(e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">Pilih kelas...</option>
+                    {classes.filter(c => canManageClass(user, c.id)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <input 
+                    type="date" 
+                    className="px-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={rollDate}
+                    onChange={(e) => setRollDate(e.target.value)}
+                  />
+                  {rollMessage && <p className="text-sm text-gray-500">{rollMessage}</p>}
+                </div>
+
+                {rollClassId ? (
+                  <div className="divide-y divide-black/5">
+                    {roll.map(entry => (
+                      <div key={entry.student_id} className="px-6 py-4 flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <div className="w-8 h-8 rounded-full bg-emerald-100 text-emerald-700 flex items-center justify-center font-bold text-xs">
+                            {entry.name.charAt(0)}
+                          </div>
+                          <span className="font-medium">{entry.name}</span>
+                        </div>
+                        <div className="flex gap-2">
+                          {ATTENDANCE_OPTIONS.map(opt => (
+                            <button 
+                              key={opt.value}
+                              onClick={() => setRollStatus(entry.student_id, opt.value)}
+                              className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-all ${entry.status === opt.value ? opt.color : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                            >
+                              {opt.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400 text-center py-8 italic">Pilih kelas untuk memulai absensi</p>
+                )}
               </div>
-              <div>
-                <p className="text-sm font-semibold truncate w-24">{user.username}</p>
-                <p className="text-xs text-gray-400 capitalize">{user.role}</p>
+            </motion.div>
+          )}
+
+          {activeTab === 'recap' && isStaff(user) && !selectedStudentId && (
+            <motion.div 
+              key="recap"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header className="flex items-center justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold tracking-tight">Rekap Absensi Bulanan</h1>
+                  <p className="text-gray-500">Kehadiran per siswa per hari sekolah dalam satu bulan.</p>
+                </div>
+                {recapClassId && (
+                  <div className="flex gap-2">
+                    <a 
+                      href={`/api/attendance/recap?class_id=${recapClassId}&month=${recapMonth}&format=csv`}
+                      className="px-4 py-2 rounded-xl flex items-center gap-2 text-sm font-medium text-gray-600 bg-white border border-black/10 hover:bg-gray-50 transition-colors"
+                    >
+                      <Download size={16} />
+                      <span>CSV</span>
+                    </a>
+                    <a 
+                      href={`/api/attendance/recap?class_id=${recapClassId}&month=${recapMonth}&format=xlsx`}
+                      className="bg-emerald-600 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-emerald-700 transition-colors shadow-sm text-sm"
+                    >
+                      <Download size={16} />
+                      <span>Excel</span>
+                    </a>
+                  </div>
+                )}
+              </header>
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <div className="p-4 border-b border-black/5 bg-gray-50/50 flex items-center gap-4">
+                  <select 
+                    className="px-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={recapClassId ?? ''}
+                    onChange={(e) => setRecapClassId(e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">Pilih kelas...</option>
+                    {classes.filter(c => canSeeClass(user, c.id)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <input 
+                    type="month" 
+                    className="px-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={recapMonth}
+                    onChange={(e) => setRecapMonth(e.target.value)}
+                  />
+                </div>
+
+                {recapClassId && recap ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                      <thead>
+                        <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                          <th className="px-4 py-3 sticky left-0 bg-white">Nama Siswa</th>
+                          {recap.days.map(d => <th key={d} className="px-1 py-3 text-center">{Number(d.slice(8))}</th>)}
+                          <th className="px-2 py-3 text-center">H</th>
+                          <th className="px-2 py-3 text-center">S</th>
+                          <th className="px-2 py-3 text-center">I</th>
+                          <th className="px-2 py-3 text-center">A</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-black/5">
+                        {recap.rows.map(r => (
+                          <tr key={r.student_id}>
+                            <td className="px-4 py-3 font-medium whitespace-nowrap sticky left-0 bg-white">{r.name}</td>
+                            {recap.days.map(d => (
+                              <td key={d} className={`px-1 py-3 text-center font-mono font-bold ${RECAP_CELL_COLORS[r.cells[d]] ?? ''}`}>
+                                {r.cells[d] ?? '·'}
+                              </td>
+                            ))}
+                            <td className="px-2 py-3 text-center">{r.totals.hadir}</td>
+                            <td className="px-2 py-3 text-center">{r.totals.sakit}</td>
+                            <td className="px-2 py-3 text-center">{r.totals.izin}</td>
+                            <td className="px-2 py-3 text-center">{r.totals.alpa}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400 text-center py-8 italic">Pilih kelas dan bulan untuk melihat rekap</p>
+                )}
               </div>
-            </div>
-          </div>
-          <button 
-            onClick={handleLogout}
-            className="w-full flex items-center justify-center gap-2 py-2 text-red-500 hover:bg-red-50 rounded-lg transition-all text-sm font-medium"
-          >
-            <LogOut size={16} />
-            <span>Keluar</span>
-          </button>
-        </div>
-      </div>
+            </motion.div>
+          )}
 
-      {/* Main Content */}
-      <main className="ml-64 p-8">
-        <AnimatePresence mode="wait">
-          {activeTab === 'dashboard' && user.role === 'teacher' && !selectedStudentId && (
+          {activeTab === 'academic' && isAdmin(user) && !selectedStudentId && (
             <motion.div 
-              key="dashboard"
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              className="space-y-8"
+              key="academic"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
             >
               <header>
-                <h1 className="text-3xl font-bold tracking-tight">Ringkasan Sekolah</h1>
-                <p className="text-gray-500">Selamat datang kembali, berikut adalah statistik hari ini.</p>
+                <h1 className="text-3xl font-bold tracking-tight">Data Akademik</h1>
+                <p className="text-gray-500">Kelola kelas, mata pelajaran, tahun ajaran, dan semester.</p>
               </header>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {academicMessage && (
+                <p className="text-red-500 text-sm font-medium">{academicMessage}</p>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="p-2 bg-blue-50 text-blue-600 rounded-lg">
-                      <Users size={24} />
-                    </div>
-                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Total Siswa</span>
+                  <h3 className="font-semibold mb-4">Kelas</h3>
+                  <div className="space-y-2 mb-4">
+                    {classes.map(c => (
+                      <div key={c.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                        <div>
+                          <p className="text-sm font-medium">{c.name}</p>
+                          <p className="text-xs text-gray-400">
+                            {c.student_count} siswa{c.homeroom_teacher ? ` • Wali kelas: ${c.homeroom_teacher}` : ''}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <select 
+                            className="px-2 py-1 text-xs bg-white border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                            value={c.homeroom_teacher_id ?? ''}
+                            onChange={e => handleHomeroomChange(c, e.target.value ? Number(e.target.value) : null)}
+                            title="Akun wali kelas"
+                          >
+                            <option value="">Tanpa akun wali kelas</option>
+                            {staffUsers.map(account => <option key={account.id} value={account.id}>{account.full_name ?? account.username}</option>)}
+                          </select>
+                          <button onClick={() => handleEditClass(c)} className="text-gray-400 hover:text-emerald-600 transition-colors">
+                            <Pencil size={16} />
+                          </button>
+                          <button onClick={() => saveAcademicItem(`/api/classes/${c.id}`, 'DELETE')} className="text-gray-400 hover:text-red-500 transition-colors">
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                  <p className="text-4xl font-light">{stats?.totalStudents || 0}</p>
-                  <p className="text-sm text-gray-400 mt-2">Siswa terdaftar aktif</p>
+                  <form onSubmit={handleAddClass} className="flex gap-2">
+                    <input 
+                      type="text" 
+                      required
+                      placeholder="Nama kelas, mis. 10-A"
+                      className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newClassName}
+                      onChange={e => setNewClassName(e.target.value)}
+                    />
+                    <button type="submit" className="px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
+                      <Plus size={16} />
+                    </button>
+                  </form>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="font-semibold mb-4">Mata Pelajaran</h3>
+                  <div className="space-y-2 mb-4">
+                    {subjects.map(sub => (
+                      <div key={sub.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                        <p className="text-sm font-medium">
+                          {sub.name} {sub.code && <span className="text-xs text-gray-400 font-mono">({sub.code})</span>}
+                        </p>
+                        <div className="flex gap-2">
+                          <button onClick={() => handleRenameSubject(sub)} className="text-gray-400 hover:text-emerald-600 transition-colors">
+                            <Pencil size={16} />
+                          </button>
+                          <button onClick={() => saveAcademicItem(`/api/subjects/${sub.id}`, 'DELETE')} className="text-gray-400 hover:text-red-500 transition-colors">
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <form onSubmit={handleAddSubject} className="flex gap-2">
+                    <input 
+                      type="text" 
+                      required
+                      placeholder="Nama mata pelajaran"
+                      className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newSubject.name}
+                      onChange={e => setNewSubject({...newSubject, name: e.target.value})}
+                    />
+                    <input 
+                      type="text" 
+                      placeholder="Kode"
+                      className="w-20 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newSubject.code}
+                      onChange={e => setNewSubject({...newSubject, code: e.target.value})}
+                    />
+                    <button type="submit" className="px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
+                      <Plus size={16} />
+                    </button>
+                  </form>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="font-semibold mb-4">Tahun Ajaran</h3>
+                  <div className="space-y-2 mb-4">
+                    {academicYears.map(y => (
+                      <div key={y.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                        <div>
+                          <p className="text-sm font-medium">{y.name}</p>
+                          <p className="text-xs text-gray-400">
+                            {new Date(y.start_date).toLocaleDateString('id-ID')} – {new Date(y.end_date).toLocaleDateString('id-ID')}
+                          </p>
+                        </div>
+                        <button onClick={() => saveAcademicItem(`/api/academic-years/${y.id}`, 'DELETE')} className="text-gray-400 hover:text-red-500 transition-colors">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <form onSubmit={handleAddYear} className="grid grid-cols-2 gap-2">
+                    <input 
+                      type="text" 
+                      required
+                      placeholder="2026/2027"
+                      className="col-span-2 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newYear.name}
+                      onChange={e => setNewYear({...newYear, name: e.target.value})}
+                    />
+                    <input 
+                      type="date" 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newYear.start_date}
+                      onChange={e => setNewYear({...newYear, start_date: e.target.value})}
+                    />
+                    <input 
+                      type="date" 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newYear.end_date}
+                      onChange={e => setNewYear({...newYear, end_date: e.target.value})}
+                    />
+                    <button type="submit" className="col-span-2 text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors">
+                      Tambah Tahun Ajaran
+                    </button>
+                  </form>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="font-semibold mb-4">Semester</h3>
+                  <div className="space-y-2 mb-4">
+                    {terms.map(t => (
+                      <div key={t.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                        <div>
+                          <p className="text-sm font-medium">{t.name} {t.academic_year}</p>
+                          <p className="text-xs text-gray-400">
+                            {new Date(t.start_date).toLocaleDateString('id-ID')} – {new Date(t.end_date).toLocaleDateString('id-ID')}
+                          </p>
+                        </div>
+                        <button onClick={() => saveAcademicItem(`/api/terms/${t.id}`, 'DELETE')} className="text-gray-400 hover:text-red-500 transition-colors">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <form onSubmit={handleAddTerm} className="grid grid-cols-2 gap-2">
+                    <select 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newTerm.academic_year_id}
+                      onChange={e => setNewTerm({...newTerm, academic_year_id: e.target.value ? Number(e.target.value) : ''})}
+                    >
+                      <option value="">Tahun ajaran...</option>
+                      {academicYears.map(y => <option key={y.id} value={y.id}>{y.name}</option>)}
+                    </select>
+                    <select 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newTerm.name}
+                      onChange={e => setNewTerm({...newTerm, name: e.target.value})}
+                    >
+                      <option value="">Semester...</option>
+                      <option value="Ganjil">Ganjil</option>
+                      <option value="Genap">Genap</option>
+                    </select>
+                    <input 
+                      type="date" 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newTerm.start_date}
+                      onChange={e => setNewTerm({...newTerm, start_date: e.target.value})}
+                    />
+                    <input 
+                      type="date" 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newTerm.end_date}
+                      onChange={e => setNewTerm({...newTerm, end_date: e.target.value})}
+                    />
+                    <button type="submit" className="col-span-2 text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors">
+                      Tambah Semester
+                    </button>
+                  </form>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="font-semibold mb-4">Kalender Sekolah</h3>
+                  <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+                    {schoolCalendar.map(entry => (
+                      <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                        <div>
+                          <p className="text-sm font-medium">{entry.description}</p>
+                          <p className="text-xs text-gray-400">
+                            {CALENDAR_TYPE_LABELS[entry.type]} · {new Date(entry.start_date).toLocaleDateString('id-ID')}
+                            {entry.end_date !== entry.start_date && ` – ${new Date(entry.end_date).toLocaleDateString('id-ID')}`}
+                          </p>
+                        </div>
+                        <button onClick={() => handleDeleteCalendarEntry(entry.id)} className="text-gray-400 hover:text-red-500 transition-colors">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <form onSubmit={handleAddCalendarEntry} className="grid grid-cols-2 gap-2">
+                    <input 
+                      type="text" 
+                      required
+                      placeholder="Keterangan (mis. Hari Kemerdekaan)"
+                      className="col-span-2 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newCalendarEntry.description}
+                      onChange={e => setNewCalendarEntry({...newCalendarEntry, description: e.target.value})}
+                    />
+                    <input 
+                      type="date" 
+                      required
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newCalendarEntry.start_date}
+                      onChange={e => setNewCalendarEntry({...newCalendarEntry, start_date: e.target.value})}
+                    />
+                    <input 
+                      type="date" 
+                      title="Kosongkan untuk satu hari"
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newCalendarEntry.end_date}
+                      onChange={e => setNewCalendarEntry({...newCalendarEntry, end_date: e.target.value})}
+                    />
+                    <select 
+                      className="col-span-2 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newCalendarEntry.type}
+                      onChange={e => setNewCalendarEntry({...newCalendarEntry, type: e.target.value as CalendarEntryType})}
+                    >
+                      {(Object.keys(CALENDAR_TYPE_LABELS) as CalendarEntryType[]).map(type => (
+                        <option key={type} value={type}>{CALENDAR_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    <button type="submit" className="col-span-2 text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors">
+                      Tambah Hari Libur
+                    </button>
+                  </form>
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="font-semibold mb-4">Identitas Sekolah</h3>
+                  <form onSubmit={handleSaveSettings} className="space-y-2">
+                    <input 
+                      type="text" 
+                      placeholder="Nama sekolah"
+                      className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={schoolSettings.school_name}
+                      onChange={e => setSchoolSettings({...schoolSettings, school_name: e.target.value})}
+                    />
+                    <input 
+                      type="text" 
+                      placeholder="Alamat sekolah"
+                      className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={schoolSettings.school_address}
+                      onChange={e => setSchoolSettings({...schoolSettings, school_address: e.target.value})}
+                    />
+                    <input 
+                      type="text" 
+                      placeholder="Kota (untuk tanda tangan rapor)"
+                      className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={schoolSettings.school_city}
+                      onChange={e => setSchoolSettings({...schoolSettings, school_city: e.target.value})}
+                    />
+                    <button type="submit" className="w-full text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors">
+                      Simpan Identitas
+                    </button>
+                  </form>
                 </div>
 
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="p-2 bg-emerald-50 text-emerald-600 rounded-lg">
-                      <UserCheck size={24} />
-                    </div>
-                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Hadir Hari Ini</span>
+                  <h3 className="font-semibold mb-4 flex items-center gap-2">
+                    <AlertTriangle size={18} className="text-red-500" />
+                    Aturan Peringatan Dini
+                  </h3>
+                  <div className="space-y-3">
+                    {alertRules.map(rule => (
+                      <div key={rule.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={!!rule.enabled}
+                          onChange={e => setAlertRules(alertRules.map(r => r.id === rule.id ? { ...r, enabled: e.target.checked ? 1 : 0 } : r))}
+                        />
+                        <span className="flex-1">{ALERT_RULE_LABELS[rule.type].label}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          className="w-16 px-2 py-1 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                          value={rule.threshold}
+                          onChange={e => setAlertRules(alertRules.map(r => r.id === rule.id ? { ...r, threshold: Number(e.target.value) } : r))}
+                        />
+                        <span className="text-xs text-gray-400 w-14">{ALERT_RULE_LABELS[rule.type].unit}</span>
+                        {rule.window_days !== null ? (
+                          <>
+                            <input
+                              type="number"
+                              min={1}
+                              max={365}
+                              className="w-16 px-2 py-1 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                              value={rule.window_days}
+                              onChange={e => setAlertRules(alertRules.map(r => r.id === rule.id ? { ...r, window_days: Number(e.target.value) } : r))}
+                            />
+                            <span className="text-xs text-gray-400 w-10">hari</span>
+                          </>
+                        ) : (
+                          <span className="w-[6.5rem]"></span>
+                        )}
+                        <button
+                          onClick={() => handleSaveAlertRule(rule)}
+                          className="text-gray-400 hover:text-emerald-600 transition-colors"
+                        >
+                          <Check size={16} />
+                        </button>
+                      </div>
+                    ))}
                   </div>
-                  <p className="text-4xl font-light">
-                    {stats?.attendanceToday?.find((a: any) => a.status === 'present')?.count || 0}
-                  </p>
-                  <p className="text-sm text-gray-400 mt-2">Kehadiran tercatat</p>
                 </div>
 
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="p-2 bg-amber-50 text-amber-600 rounded-lg">
-                      <Activity size={24} />
-                    </div>
-                    <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Performa</span>
+                  <h3 className="font-semibold mb-4 flex items-center gap-2">
+                    <AlertCircle size={18} className="text-amber-600" />
+                    Kategori Perilaku
+                  </h3>
+                  <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+                    {behaviorCategories.map(c => (
+                      <div key={c.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                        <span className="text-sm">{c.name}</span>
+                        <div className="flex items-center gap-3">
+                          <span className={`text-xs font-bold ${c.type === 'positive' ? 'text-emerald-600' : 'text-red-600'}`}>
+                            {c.type === 'positive' ? '+' : '-'}{c.points}
+                          </span>
+                          <button onClick={() => handleDeleteBehaviorCategory(c.id)} className="text-gray-400 hover:text-red-500 transition-colors">
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                  <p className="text-4xl font-light">84%</p>
-                  <p className="text-sm text-gray-400 mt-2">Rata-rata nilai sekolah</p>
+                  <form onSubmit={handleAddBehaviorCategory} className="grid grid-cols-2 gap-2">
+                    <input 
+                      type="text" 
+                      required
+                      placeholder="Nama kategori"
+                      className="col-span-2 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newBehaviorCategory.name}
+                      onChange={e => setNewBehaviorCategory({...newBehaviorCategory, name: e.target.value})}
+                    />
+                    <select 
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newBehaviorCategory.type}
+                      onChange={e => setNewBehaviorCategory({...newBehaviorCategory, type: e.target.value as Behavior['type']})}
+                    >
+                      <option value="negative">Pelanggaran</option>
+                      <option value="positive">Prestasi</option>
+                    </select>
+                    <input 
+                      type="number" 
+                      required
+                      min={0}
+                      placeholder="Poin"
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={newBehaviorCategory.points}
+                      onChange={e => setNewBehaviorCategory({...newBehaviorCategory, points: Number(e.target.value)})}
+                    />
+                    <button type="submit" className="col-span-2 text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors">
+                      Tambah Kategori
+                    </button>
+                  </form>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
-                  <h3 className="text-lg font-semibold mb-6">Siswa Terbaru</h3>
-                  <div className="space-y-4">
-                    {students.slice(0, 5).map(student => (
-                      <div key={student.id} className="flex items-center justify-between p-3 hover:bg-gray-50 rounded-xl transition-colors cursor-pointer" onClick={() => handleStudentClick(student.id)}>
-                        <div className="flex items-center gap-3">
-                          <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center text-gray-500 font-medium">
-                            {student.name.charAt(0)}
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium">{student.name}</p>
-                            <p className="text-xs text-gray-400">{student.class}</p>
-                          </div>
-                        </div>
-                        <ChevronRight size={16} className="text-gray-300" />
+                  <h3 className="font-semibold mb-4 flex items-center gap-2">
+                    <AlertTriangle size={18} className="text-amber-600" />
+                    Ambang Sanksi
+                  </h3>
+                  <p className="text-xs text-gray-400 mb-3">Tindak lanjut dibuat otomatis saat saldo poin pelanggaran satu semester mencapai ambang.</p>
+                  <div className="space-y-3">
+                    {sanctionThresholds.map(t => (
+                      <div key={t.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={!!t.enabled}
+                          onChange={e => setSanctionThresholds(sanctionThresholds.map(x => x.id === t.id ? { ...x, enabled: e.target.checked ? 1 : 0 } : x))}
+                        />
+                        <span className="flex-1">{t.label}</span>
+                        <input
+                          type="number"
+                          min={1}
+                          className="w-16 px-2 py-1 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                          value={t.points}
+                          onChange={e => setSanctionThresholds(sanctionThresholds.map(x => x.id === t.id ? { ...x, points: Number(e.target.value) } : x))}
+                        />
+                        <span className="text-xs text-gray-400 w-10">poin</span>
+                        <button
+                          onClick={() => handleSaveSanctionThreshold(t)}
+                          className="text-gray-400 hover:text-emerald-600 transition-colors"
+                        >
+                          <Check size={16} />
+                        </button>
                       </div>
                     ))}
                   </div>
                 </div>
 
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
-                  <h3 className="text-lg font-semibold mb-6">Aktivitas Terakhir</h3>
-                  <div className="space-y-6">
-                    <div className="flex gap-4">
-                      <div className="mt-1 w-2 h-2 rounded-full bg-emerald-500 shrink-0"></div>
-                      <div>
-                        <p className="text-sm font-medium">Absensi Kelas 10-A Selesai</p>
-                        <p className="text-xs text-gray-400">10 menit yang lalu</p>
-                      </div>
-                    </div>
-                    <div className="flex gap-4">
-                      <div className="mt-1 w-2 h-2 rounded-full bg-blue-500 shrink-0"></div>
-                      <div>
-                        <p className="text-sm font-medium">Nilai Matematika Diinput</p>
-                        <p className="text-xs text-gray-400">1 jam yang lalu</p>
+                  <h3 className="font-semibold mb-4 flex items-center gap-2">
+                    <GraduationCap size={18} className="text-blue-600" />
+                    Bobot & KKM
+                  </h3>
+                  <select 
+                    className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={subjectGrading?.subject_id ?? ''}
+                    onChange={e => e.target.value ? openSubjectGrading(Number(e.target.value)) : setSubjectGrading(null)}
+                  >
+                    <option value="">Pilih mata pelajaran...</option>
+                    {subjects.map(sub => <option key={sub.id} value={sub.id}>{sub.name}</option>)}
+                  </select>
+                  {subjectGrading && (
+                    <form onSubmit={handleSaveSubjectGrading} className="mt-4 space-y-4">
+                      <div className="space-y-2">
+                        <p className="text-xs text-gray-400 font-bold uppercase">
+                          Bobot (total {subjectGrading.weights.reduce((sum, w) => sum + w.weight, 0)}%)
+                        </p>
+                        {subjectGrading.weights.map(w => (
+                          <div key={w.assessment_type_id} className="flex items-center gap-2 text-sm">
+                            <span className="flex-1">{w.name}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              className="w-16 px-2 py-1 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                              value={w.weight}
+                              onChange={e => setSubjectGrading({
+                                ...subjectGrading,
+                                weights: subjectGrading.weights.map(x => x.assessment_type_id === w.assessment_type_id ? { ...x, weight: Number(e.target.value) } : x)
+                              })}
+                            />
+                            <span className="text-xs text-gray-400 w-4">%</span>
+                          </div>
+                        ))}
                       </div>
-                    </div>
-                    <div className="flex gap-4">
-                      <div className="mt-1 w-2 h-2 rounded-full bg-amber-500 shrink-0"></div>
-                      <div>
-                        <p className="text-sm font-medium">Catatan Perilaku Budi Pratama</p>
-                        <p className="text-xs text-gray-400">3 jam yang lalu</p>
+                      <div className="space-y-2">
+                        <p className="text-xs text-gray-400 font-bold uppercase">KKM per Kelas</p>
+                        {subjectGrading.kkm.map(k => (
+                          <div key={k.class_id} className="flex items-center gap-2 text-sm">
+                            <span className="flex-1">{k.class}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              className="w-16 px-2 py-1 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                              value={k.score}
+                              onChange={e => setSubjectGrading({
+                                ...subjectGrading,
+                                kkm: subjectGrading.kkm.map(x => x.class_id === k.class_id ? { ...x, score: Number(e.target.value) } : x)
+                              })}
+                            />
+                            <span className="w-4"></span>
+                          </div>
+                        ))}
                       </div>
-                    </div>
+                      <button type="submit" className="w-full text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors">
+                        Simpan Bobot & KKM
+                      </button>
+                    </form>
+                  )}
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <h3 className="font-semibold mb-4 flex items-center gap-2">
+                    <Printer size={18} className="text-emerald-600" />
+                    Cetak Rapor Kelas
+                  </h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select 
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={reportClassId ?? ''}
+                      onChange={e => setReportClassId(e.target.value ? Number(e.target.value) : null)}
+                    >
+                      <option value="">Pilih kelas...</option>
+                      {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <select 
+                      className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={reportTermId ?? ''}
+                      onChange={e => setReportTermId(e.target.value ? Number(e.target.value) : null)}
+                    >
+                      {terms.map(t => <option key={t.id} value={t.id}>{t.name} {t.academic_year}</option>)}
+                    </select>
+                    <button 
+                      disabled={!reportClassId || !reportTermId}
+                      onClick={() => openReport(`/api/reports/classes/${reportClassId}`, 'html')}
+                      className="text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors disabled:opacity-50"
+                    >
+                      Cetak
+                    </button>
+                    <button 
+                      disabled={!reportClassId || !reportTermId}
+                      onClick={() => openReport(`/api/reports/classes/${reportClassId}`, 'pdf')}
+                      className="text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors disabled:opacity-50"
+                    >
+                      Unduh PDF
+                    </button>
                   </div>
                 </div>
               </div>
             </motion.div>
           )}
 
-          {activeTab === 'students' && user.role === 'teacher' && !selectedStudentId && (
+          {activeTab === 'import' && isAdmin(user) && !selectedStudentId && (
             <motion.div 
-              key="students"
+              key="import"
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
               exit={{ opacity: 0, x: -20 }}
@@ -433,62 +3188,412 @@ export default function App() {
             >
               <header className="flex items-center justify-between">
                 <div>
-                  <h1 className="text-3xl font-bold tracking-tight">Daftar Siswa</h1>
-                  <p className="text-gray-500">Kelola dan monitor data seluruh siswa.</p>
+                  <h1 className="text-3xl font-bold tracking-tight">Impor Data</h1>
+                  <p className="text-gray-500">Unggah file CSV atau Excel, periksa hasilnya, lalu simpan.</p>
                 </div>
-                <button className="bg-emerald-600 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-emerald-700 transition-colors shadow-sm">
-                  <Plus size={20} />
-                  <span>Tambah Siswa</span>
+                <button 
+                  onClick={() => importFile && importPreview && requestImport(importFile, importKind, importPreview.mapping, true)}
+                  disabled={!importPreview || importPreview.missing.length > 0 || importPreview.summary.create + importPreview.summary.update === 0 || importing}
+                  className="bg-emerald-600 text-white px-4 py-2 rounded-xl flex items-center gap-2 hover:bg-emerald-700 transition-colors shadow-sm disabled:opacity-50"
+                >
+                  <Save size={20} />
+                  <span>Simpan Impor</span>
                 </button>
               </header>
 
               <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
                 <div className="p-4 border-b border-black/5 bg-gray-50/50 flex items-center gap-4">
-                  <div className="relative flex-1">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-                    <input 
-                      type="text" 
-                      placeholder="Cari nama atau kelas..." 
-                      className="w-full pl-10 pr-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
+                  <select 
+                    className="px-4 py-2 bg-white border border-black/10 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={importKind}
+                    onChange={(e) => handleImportKind(e.target.value as ImportKind)}
+                  >
+                    <option value="students">Data Siswa</option>
+                    <option value="grades">Data Nilai</option>
+                  </select>
+                  <label className="px-4 py-2 bg-white border border-black/10 rounded-lg cursor-pointer hover:bg-gray-50 transition-all text-sm">
+                    {importFile ? importFile.name : 'Pilih file (.csv, .xlsx)'}
+                    <input type="file" accept=".csv,.xlsx" className="hidden" onChange={handleImportFile} />
+                  </label>
+                  {importing && <p className="text-sm text-gray-400">Memproses...</p>}
+                  {importMessage && <p className="text-sm text-gray-500">{importMessage}</p>}
+                </div>
+
+                {importPreview ? (
+                  <div className="p-6 space-y-6">
+                    <div>
+                      <h3 className="font-semibold mb-3">Pemetaan Kolom</h3>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        {importPreview.fields.map(f => (
+                          <div key={f.field}>
+                            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">
+                              {f.label}{f.required && ' *'}
+                            </label>
+                            <select 
+                              className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                              value={importPreview.mapping[f.field] ?? ''}
+                              onChange={(e) => handleImportMapping(f.field, e.target.value)}
+                            >
+                              <option value="">(tidak dipakai)</option>
+                              {importPreview.headers.map((h, i) => <option key={i} value={i}>{h || `Kolom ${i + 1}`}</option>)}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                      {importPreview.missing.length > 0 && (
+                        <p className="text-red-500 text-sm mt-3">Kolom wajib belum dipetakan: {importPreview.missing.join(', ')}</p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-4 text-sm">
+                      <span className="px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 font-medium">{importPreview.summary.create} baru</span>
+                      <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">{importPreview.summary.update} diperbarui</span>
+                      <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 font-medium">{importPreview.summary.reject} ditolak</span>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-left">
+                        <thead>
+                          <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                            <th className="px-4 py-3">Baris</th>
+                            <th className="px-4 py-3">Status</th>
+                            {importPreview.fields.map(f => <th key={f.field} className="px-4 py-3">{f.label}</th>)}
+                            <th className="px-4 py-3">Keterangan</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-black/5">
+                          {importPreview.rows.map(r => (
+                            <tr key={r.row} className="text-sm">
+                              <td className="px-4 py-3 text-gray-400 font-mono">{r.row}</td>
+                              <td className="px-4 py-3">
+                                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${IMPORT_ACTION_LABELS[r.action].color}`}>
+                                  {IMPORT_ACTION_LABELS[r.action].label}
+                                </span>
+                              </td>
+                              {importPreview.fields.map(f => <td key={f.field} className="px-4 py-3 text-gray-600">{String(r.data[f.field] ?? '')}</td>)}
+                              <td className="px-4 py-3 text-red-500">{r.reasons.join('; ')}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400 text-center py-8 italic">
+                    {importKind === 'students'
+                      ? 'Kolom yang dikenali: Nama, Kelas, Orang Tua, Telepon'
+                      : 'Kolom yang dikenali: Siswa (ID atau nama), Kelas, Mata Pelajaran, Nilai, Tanggal'}
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          )}
+
+          {activeTab === 'notifications' && isAdmin(user) && !selectedStudentId && (
+            <motion.div 
+              key="notifications"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header>
+                <h1 className="text-3xl font-bold tracking-tight">Notifikasi Orang Tua</h1>
+                <p className="text-gray-500">Pesan otomatis ke nomor telepon orang tua siswa.</p>
+              </header>
+
+              {notificationMessage && (
+                <p className="text-sm font-medium text-gray-600">{notificationMessage}</p>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {notificationTemplates.map(template => (
+                  <div key={template.event} className="bg-white p-6 rounded-2xl shadow-sm border border-black/5 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold">{NOTIFICATION_EVENT_LABELS[template.event]}</h3>
+                      <label className="flex items-center gap-2 text-xs text-gray-500">
+                        <input 
+                          type="checkbox" 
+                          checked={!!template.enabled}
+                          onChange={e => setNotificationTemplates(notificationTemplates.map(t => t.event === template.event ? { ...t, enabled: e.target.checked ? 1 : 0 } : t))}
+                        />
+                        Aktif
+                      </label>
+                    </div>
+                    <textarea 
+                      rows={5}
+                      className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={template.body}
+                      onChange={e => setNotificationTemplates(notificationTemplates.map(t => t.event === template.event ? { ...t, body: e.target.value } : t))}
                     />
+                    <button 
+                      onClick={() => handleSaveTemplate(template)}
+                      className="w-full text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors"
+                    >
+                      Simpan Template
+                    </button>
                   </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">
+                Isian yang tersedia: {'{nama}'}, {'{kelas}'}, {'{tanggal}'}, {'{mapel}'}, {'{nilai}'}, {'{catatan}'}, {'{sekolah}'}
+              </p>
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <h3 className="text-lg font-semibold p-6 pb-0">Kotak Keluar</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left mt-4">
+                    <thead>
+                      <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                        <th className="px-6 py-3">Waktu</th>
+                        <th className="px-6 py-3">Siswa</th>
+                        <th className="px-6 py-3">Pesan</th>
+                        <th className="px-6 py-3">Status</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-black/5">
+                      {outbox.length === 0 && (
+                        <tr><td colSpan={5} className="px-6 py-6 text-sm text-gray-400 text-center">Belum ada pesan.</td></tr>
+                      )}
+                      {outbox.map(m => (
+                        <tr key={m.id} className="text-sm align-top">
+                          <td className="px-6 py-3 text-gray-500 whitespace-nowrap">{new Date(m.created_at).toLocaleString('id-ID')}</td>
+                          <td className="px-6 py-3">
+                            <p className="font-medium">{m.student_name}</p>
+                            <p className="text-xs text-gray-400">{m.phone}</p>
+                          </td>
+                          <td className="px-6 py-3 text-gray-600 max-w-md">
+                            <p className="text-xs text-gray-400 mb-1">{NOTIFICATION_EVENT_LABELS[m.event]}</p>
+                            {m.body}
+                            {m.last_error && <p className="text-xs text-red-500 mt-1">{m.last_error}</p>}
+                          </td>
+                          <td className="px-6 py-3">
+                            <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${OUTBOX_STATUS_LABELS[m.status].color}`}>
+                              {OUTBOX_STATUS_LABELS[m.status].label}
+                            </span>
+                            {m.attempts > 0 && m.status !== 'sent' && <p className="text-xs text-gray-400 mt-1">{m.attempts}x dicoba</p>}
+                          </td>
+                          <td className="px-6 py-3">
+                            {(m.status === 'failed' || m.status === 'cancelled') && (
+                              <button 
+                                onClick={() => handleRetryNotification(m.id)}
+                                className="text-gray-400 hover:text-emerald-600 transition-colors"
+                                title="Kirim ulang"
+                              >
+                                <RotateCcw size={16} />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </motion.div>
+          )}
+
+          {activeTab === 'users' && isAdmin(user) && !selectedStudentId && (
+            <motion.div 
+              key="users"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header className="flex items-center justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold tracking-tight">Pengguna</h1>
+                  <p className="text-gray-500">Akun admin dan guru beserta kelas yang mereka pegang.</p>
                 </div>
+                <button 
+                  onClick={() => openStaffForm()}
+                  className="bg-emerald-600 text-white px-6 py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200 flex items-center gap-2"
+                >
+                  <Plus size={20} />
+                  Tambah Akun
+                </button>
+              </header>
 
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
                 <div className="overflow-x-auto">
                   <table className="w-full text-left">
                     <thead>
                       <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
-                        <th className="px-6 py-4">Nama Siswa</th>
-                        <th className="px-6 py-4">Kelas</th>
-                        <th className="px-6 py-4">Orang Tua</th>
-                        <th className="px-6 py-4">Telepon</th>
-                        <th className="px-6 py-4 text-right">Aksi</th>
+                        <th className="px-6 py-3">Nama</th>
+                        <th className="px-6 py-3">Peran</th>
+                        <th className="px-6 py-3">Wali Kelas</th>
+                        <th className="px-6 py-3">Mengajar</th>
+                        <th className="px-6 py-3"></th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-black/5">
-                      {filteredStudents.map(student => (
-                        <tr 
-                          key={student.id} 
-                          className="hover:bg-gray-50 transition-colors cursor-pointer group"
-                          onClick={() => handleStudentClick(student.id)}
-                        >
-                          <td className="px-6 py-4">
-                            <div className="flex items-center gap-3">
-                              <div className="w-8 h-8 rounded-full bg-emerald-100 text-emerald-700 flex items-center justify-center font-bold text-xs">
-                                {student.name.charAt(0)}
-                              </div>
-                              <span className="font-medium">{student.name}</span>
+                      {staffUsers.map(account => (
+                        <tr key={account.id} className="text-sm align-top">
+                          <td className="px-6 py-3">
+                            <p className="font-medium">{account.full_name ?? account.username}</p>
+                            <p className="text-xs text-gray-400">{account.username}</p>
+                          </td>
+                          <td className="px-6 py-3">{ROLE_LABELS[account.role]}</td>
+                          <td className="px-6 py-3 text-gray-600">
+                            {account.homeroom_class_ids.map(id => classes.find(c => c.id === id)?.name).filter(Boolean).join(', ') || '-'}
+                          </td>
+                          <td className="px-6 py-3 text-gray-600">
+                            {account.role === 'admin' ? 'Semua kelas' : account.assignments.length === 0 ? '-' : account.assignments.map(a => (
+                              <p key={`${a.subject_id}-${a.class_id}`}>
+                                {subjects.find(s => s.id === a.subject_id)?.name} - {classes.find(c => c.id === a.class_id)?.name}
+                              </p>
+                            ))}
+                          </td>
+                          <td className="px-6 py-3">
+                            <div className="flex items-center gap-3 justify-end">
+                              <button onClick={() => openStaffForm(account)} className="text-gray-400 hover:text-emerald-600 transition-colors" title="Edit">
+                                <Pencil size={16} />
+                              </button>
+                              <button onClick={() => openPasswordForm('reset', account)} className="text-gray-400 hover:text-emerald-600 transition-colors" title="Reset Password">
+                                <KeyRound size={16} />
+                              </button>
                             </div>
                           </td>
-                          <td className="px-6 py-4 text-sm text-gray-500">{student.class}</td>
-                          <td className="px-6 py-4 text-sm text-gray-500">{student.parent_name}</td>
-                          <td className="px-6 py-4 text-sm text-gray-500 font-mono">{student.phone}</td>
-                          <td className="px-6 py-4 text-right">
-                            <button className="text-gray-400 group-hover:text-emerald-600 transition-colors">
-                              <ChevronRight size={20} />
-                            </button>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400">
+                Wali kelas dipilih per kelas di Data Akademik. Guru hanya melihat siswa dari kelas yang ia ajar atau walikan.
+              </p>
+            </motion.div>
+          )}
+
+          {activeTab === 'schools' && isFoundation(user) && !selectedStudentId && (
+            <motion.div 
+              key="schools"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header className="flex items-center justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold tracking-tight">Sekolah</h1>
+                  <p className="text-gray-500">Ringkasan setiap sekolah di bawah yayasan, 30 hari terakhir.</p>
+                </div>
+                <button 
+                  onClick={openSchoolForm}
+                  className="bg-emerald-600 text-white px-6 py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200 flex items-center gap-2"
+                >
+                  <Plus size={20} />
+                  Tambah Sekolah
+                </button>
+              </header>
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                        <th className="px-6 py-3">Sekolah</th>
+                        <th className="px-6 py-3 text-right">Siswa</th>
+                        <th className="px-6 py-3 text-right">Guru & Admin</th>
+                        <th className="px-6 py-3 text-right">Kehadiran</th>
+                        <th className="px-6 py-3 text-right">Rata-rata Nilai</th>
+                        <th className="px-6 py-3 text-right">Pelanggaran</th>
+                        <th className="px-6 py-3 text-right">Peringatan Aktif</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-black/5">
+                      {schools.map(school => (
+                        <tr key={school.id} className="text-sm">
+                          <td className="px-6 py-3 font-medium">{school.name}</td>
+                          <td className="px-6 py-3 text-right">{school.students}</td>
+                          <td className="px-6 py-3 text-right">{school.staff}</td>
+                          <td className="px-6 py-3 text-right">{school.attendance_rate === null ? '-' : `${school.attendance_rate}%`}</td>
+                          <td className="px-6 py-3 text-right">{school.average_score ?? '-'}</td>
+                          <td className="px-6 py-3 text-right">{school.negative_behavior}</td>
+                          <td className={`px-6 py-3 text-right ${school.open_alerts > 0 ? 'text-red-600 font-bold' : ''}`}>{school.open_alerts}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400">
+                Yayasan hanya melihat angka ringkasan. Data siswa dikelola oleh admin dan guru masing-masing sekolah.
+              </p>
+            </motion.div>
+          )}
+
+          {activeTab === 'backups' && isFoundation(user) && !selectedStudentId && (
+            <motion.div 
+              key="backups"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <header className="flex items-center justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold tracking-tight">Cadangan Database</h1>
+                  <p className="text-gray-500">Salinan data semua sekolah, dibuat otomatis setiap hari.</p>
+                </div>
+                <button 
+                  onClick={handleCreateBackup}
+                  disabled={backupBusy}
+                  className="bg-emerald-600 text-white px-6 py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200 flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Plus size={20} />
+                  Buat Cadangan
+                </button>
+              </header>
+
+              {backupMessage && (
+                <p className="text-sm font-medium text-gray-600">{backupMessage}</p>
+              )}
+
+              <div className="bg-white rounded-2xl shadow-sm border border-black/5 overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-xs font-semibold text-gray-400 uppercase tracking-wider border-b border-black/5">
+                        <th className="px-6 py-3">Waktu</th>
+                        <th className="px-6 py-3">Jenis</th>
+                        <th className="px-6 py-3">Ukuran</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-black/5">
+                      {backups.length === 0 && (
+                        <tr><td colSpan={4} className="px-6 py-6 text-sm text-gray-400 text-center">Belum ada cadangan.</td></tr>
+                      )}
+                      {backups.map(b => (
+                        <tr key={b.name} className="text-sm">
+                          <td className="px-6 py-3">
+                            <p className="font-medium">{new Date(b.created_at).toLocaleString('id-ID')}</p>
+                            <p className="text-xs text-gray-400 font-mono">{b.name}</p>
+                          </td>
+                          <td className="px-6 py-3 text-gray-600">{BACKUP_KIND_LABELS[b.kind]}</td>
+                          <td className="px-6 py-3 text-gray-600">{(b.size / 1024).toFixed(0)} KB</td>
+                          <td className="px-6 py-3">
+                            <div className="flex items-center gap-3 justify-end">
+                              <a 
+                                href={`/api/backups/${encodeURIComponent(b.name)}/download`}
+                                className="text-gray-400 hover:text-emerald-600 transition-colors"
+                                title="Unduh"
+                              >
+                                <Download size={16} />
+                              </a>
+                              <button 
+                                onClick={() => handleRestoreBackup(b)}
+                                disabled={backupBusy}
+                                className="text-gray-400 hover:text-red-500 transition-colors disabled:opacity-50"
+                                title="Pulihkan"
+                              >
+                                <RotateCcw size={16} />
+                              </button>
+                            </div>
                           </td>
                         </tr>
                       ))}
@@ -496,10 +3601,45 @@ export default function App() {
                   </table>
                 </div>
               </div>
+              <p className="text-xs text-gray-400">
+                Sebelum dipulihkan, cadangan diperiksa keutuhannya. Data saat itu disimpan dulu sebagai cadangan "Sebelum pemulihan", jadi pemulihan bisa dibatalkan.
+              </p>
+            </motion.div>
+          )}
+
+          {(view.page === 'forbidden' || (viewedStudentId && studentDetailError === 403)) && (
+            <motion.div
+              key="forbidden"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <StatusPage
+                icon={<ShieldAlert size={32} />}
+                title="Akses Ditolak"
+                message="Halaman ini tidak tersedia untuk akun Anda."
+                onBack={() => navigate({ page: 'tab', tab: 'dashboard' })}
+              />
+            </motion.div>
+          )}
+
+          {(view.page === 'not-found' || (viewedStudentId && studentDetailError === 404)) && (
+            <motion.div
+              key="not-found"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <StatusPage
+                icon={<SearchX size={32} />}
+                title="Halaman Tidak Ditemukan"
+                message="Alamat yang Anda buka tidak ada atau datanya sudah dihapus."
+                onBack={() => navigate({ page: 'tab', tab: 'dashboard' })}
+              />
             </motion.div>
           )}
 
-          {(selectedStudentId || (activeTab === 'my-profile' && user.role === 'student')) && studentDetail && (
+          {viewedStudentId && studentDetail?.id === viewedStudentId && !studentDetailError && (
             <motion.div 
               key="student-detail"
               initial={{ opacity: 0, scale: 0.95 }}
@@ -507,9 +3647,9 @@ export default function App() {
               exit={{ opacity: 0, scale: 0.95 }}
               className="space-y-8"
             >
-              {user.role === 'teacher' && (
+              {isStaff(user) && (
                 <button 
-                  onClick={() => setSelectedStudentId(null)}
+                  onClick={() => navigate({ page: 'tab', tab: 'students' })}
                   className="text-sm text-gray-500 hover:text-emerald-600 flex items-center gap-1 transition-colors"
                 >
                   ← Kembali ke Daftar
@@ -526,93 +3666,575 @@ export default function App() {
                     <span className="px-3 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-bold uppercase tracking-wider">
                       {studentDetail.class}
                     </span>
+                    {studentDetail.alerts && studentDetail.alerts.length > 0 && (
+                      <span
+                        title={studentDetail.alerts.map(a => a.message).join('\n')}
+                        className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-xs font-bold uppercase tracking-wider flex items-center gap-1"
+                      >
+                        <AlertTriangle size={12} />
+                        {studentDetail.alerts.length} Peringatan
+                      </span>
+                    )}
                   </div>
                   <p className="text-gray-500 mt-1">Orang Tua: {studentDetail.parent_name} • {studentDetail.phone}</p>
                 </div>
+                {terms.length > 0 && (
+                  <div className="flex gap-2">
+                    <select 
+                      className="px-3 py-2 text-sm bg-white border border-black/10 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={reportTermId ?? ''}
+                      onChange={e => setReportTermId(e.target.value ? Number(e.target.value) : null)}
+                    >
+                      {terms.map(t => <option key={t.id} value={t.id}>{t.name} {t.academic_year}</option>)}
+                    </select>
+                    <button 
+                      onClick={() => openReport(`/api/reports/students/${studentDetail.id}`, 'html')}
+                      className="px-4 py-2 rounded-xl flex items-center gap-2 text-sm font-medium text-gray-600 bg-white border border-black/10 hover:bg-gray-50 transition-colors"
+                    >
+                      <Printer size={16} />
+                      <span>Rapor</span>
+                    </button>
+                    <button 
+                      onClick={() => openReport(`/api/reports/students/${studentDetail.id}`, 'pdf')}
+                      className="px-4 py-2 rounded-xl text-sm font-medium text-gray-600 bg-white border border-black/10 hover:bg-gray-50 transition-colors"
+                    >
+                      PDF
+                    </button>
+                  </div>
+                )}
+                {canManageClass(user, studentDetail.class_id) && (
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={() => openStudentForm(studentDetail)}
+                      className="px-4 py-2 rounded-xl flex items-center gap-2 text-sm font-medium text-gray-600 bg-white border border-black/10 hover:bg-gray-50 transition-colors"
+                    >
+                      <Pencil size={16} />
+                      <span>Edit</span>
+                    </button>
+                    {studentDetail.account && isAdmin(user) && (
+                      <button 
+                        onClick={() => openPasswordForm('reset', studentDetail.account!)}
+                        className="px-4 py-2 rounded-xl flex items-center gap-2 text-sm font-medium text-gray-600 bg-white border border-black/10 hover:bg-gray-50 transition-colors"
+                      >
+                        <KeyRound size={16} />
+                        <span>Reset Password</span>
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => handleArchiveStudent(studentDetail)}
+                      className="px-4 py-2 rounded-xl flex items-center gap-2 text-sm font-medium text-red-500 bg-white border border-red-100 hover:bg-red-50 transition-colors"
+                    >
+                      <Archive size={16} />
+                      <span>Arsipkan</span>
+                    </button>
+                  </div>
+                )}
               </header>
 
+              <nav className="flex gap-2">
+                {(Object.keys(STUDENT_SECTION_LABELS) as StudentSection[]).map(section => {
+                  const target: Route = { page: 'student', studentId: studentDetail.id, section };
+                  return (
+                    <a
+                      key={section}
+                      href={routePath(target)}
+                      onClick={e => { e.preventDefault(); navigate(target); }}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${detailSection === section ? 'bg-emerald-600 text-white' : 'bg-white border border-black/10 text-gray-500 hover:bg-gray-50'}`}
+                    >
+                      {STUDENT_SECTION_LABELS[section]}
+                    </a>
+                  );
+                })}
+              </nav>
+
+              {recordError && (
+                <p className="text-red-500 text-sm bg-red-50 px-4 py-3 rounded-xl">{recordError}</p>
+              )}
+
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 {/* Attendance */}
                 <div className="lg:col-span-1 space-y-6">
-                  <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div id="section-attendance" className="bg-white p-6 rounded-2xl shadow-sm border border-black/5 scroll-mt-8">
                     <div className="flex items-center justify-between mb-6">
                       <h3 className="font-semibold flex items-center gap-2">
                         <Calendar size={18} className="text-emerald-600" />
                         Kehadiran
                       </h3>
-                      {user.role === 'teacher' && (
-                        <button className="text-xs text-emerald-600 font-bold uppercase hover:underline">Input</button>
+                      {canManageClass(user, studentDetail.class_id) && (
+                        <button 
+                          onClick={() => openRollCall(studentDetail.class_id)}
+                          className="text-xs text-emerald-600 font-bold uppercase hover:underline"
+                        >
+                          Input
+                        </button>
                       )}
                     </div>
+                    <input
+                      type="month"
+                      className="w-full mb-4 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                      value={attendanceMonth}
+                      onChange={e => e.target.value && setAttendanceMonth(e.target.value)}
+                    />
+                    {attendanceCalendar && (
+                      <div className="mb-6">
+                        <div className="flex items-end justify-between mb-3">
+                          <div>
+                            <p className="text-3xl font-light text-emerald-600">
+                              {attendanceCalendar.summary.percentage !== null ? `${attendanceCalendar.summary.percentage}%` : '-'}
+                            </p>
+                            <p className="text-xs text-gray-400">Kehadiran dari {attendanceCalendar.summary.school_days} hari sekolah</p>
+                          </div>
+                          <div className="text-right text-xs text-gray-500 space-y-0.5">
+                            <p>Sakit {attendanceCalendar.summary.sick} · Terlambat {attendanceCalendar.summary.late}</p>
+                            <p>Izin {attendanceCalendar.summary.excused} · Alpa {attendanceCalendar.summary.absent}</p>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-7 gap-1 text-center">
+                          {['Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab', 'Min'].map(d => (
+                            <span key={d} className="text-[10px] text-gray-400 font-bold uppercase">{d}</span>
+                          ))}
+                          {/* Leading blanks so the 1st lands on its weekday, Monday first */}
+                          {Array.from({ length: (new Date(`${attendanceCalendar.from}T00:00:00Z`).getUTCDay() + 6) % 7 }).map((_, i) => <span key={`blank-${i}`} />)}
+                          {attendanceCalendar.days.map(day => (
+                            <span
+                              key={day.date}
+                              title={[
+                                new Date(day.date).toLocaleDateString('id-ID'),
+                                day.status && ATTENDANCE_OPTIONS.find(opt => opt.value === day.status)?.label,
+                                day.off?.description
+                              ].filter(Boolean).join(' · ')}
+                              className={`aspect-square flex items-center justify-center rounded-md text-xs ${
+                                day.status ? ATTENDANCE_CELL_COLORS[day.status] :
+                                day.off ? 'bg-rose-50 text-rose-300' :
+                                day.school_day ? 'bg-gray-100 text-gray-500' :
+                                'text-gray-300'
+                              }`}
+                            >
+                              {Number(day.date.slice(8))}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <div className="space-y-4">
-                      {studentDetail.attendance.length > 0 ? (
-                        studentDetail.attendance.map(a => (
+                      {attendanceCalendar && attendanceCalendar.records.length > 0 ? (
+                        attendanceCalendar.records.map(a => (
                           <div key={a.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
                             <span className="text-sm font-medium">{new Date(a.date).toLocaleDateString('id-ID')}</span>
-                            <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${
-                              a.status === 'present' ? 'bg-emerald-100 text-emerald-700' :
-                              a.status === 'absent' ? 'bg-red-100 text-red-700' :
-                              'bg-amber-100 text-amber-700'
-                            }`}>
-                              {a.status === 'present' ? 'Hadir' : a.status === 'absent' ? 'Alpa' : a.status}
-                            </span>
+                            {canManageClass(user, studentDetail.class_id) ? (
+                              <div className="flex items-center gap-2">
+                                <select
+                                  className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border-0 cursor-pointer focus:outline-none ${ATTENDANCE_BADGE_COLORS[a.status]}`}
+                                  value={a.status}
+                                  onChange={e => handleAttendanceStatusChange(a, e.target.value as AttendanceStatus)}
+                                >
+                                  {ATTENDANCE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                </select>
+                                <button
+                                  onClick={() => handleDeleteRecord('attendance', a, 'Data kehadiran')}
+                                  className="text-gray-300 hover:text-red-500 transition-colors"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </div>
+                            ) : (
+                              <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${ATTENDANCE_BADGE_COLORS[a.status]}`}>
+                                {ATTENDANCE_OPTIONS.find(opt => opt.value === a.status)?.label || a.status}
+                              </span>
+                            )}
                           </div>
                         ))
                       ) : (
-                        <p className="text-sm text-gray-400 text-center py-4 italic">Belum ada data kehadiran</p>
+                        <p className="text-sm text-gray-400 text-center py-4 italic">Belum ada data kehadiran bulan ini</p>
                       )}
                     </div>
                   </div>
+
+                  {(!isStaff(user) || absenceRequests.length > 0) && (
+                    <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-semibold flex items-center gap-2">
+                          <CalendarX size={18} className="text-violet-600" />
+                          Pengajuan Izin
+                        </h3>
+                        {!isStaff(user) && (
+                          <button
+                            onClick={openAbsenceForm}
+                            className="text-xs text-emerald-600 font-bold uppercase tracking-wider hover:underline"
+                          >
+                            Ajukan
+                          </button>
+                        )}
+                      </div>
+                      <div className="space-y-3">
+                        {absenceRequests.length > 0 ? absenceRequests.map(r => (
+                          <div key={r.id} className="p-3 bg-gray-50 rounded-xl">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm font-medium">
+                                {ATTENDANCE_OPTIONS.find(opt => opt.value === r.type)?.label} · {absenceDates(r)}
+                              </span>
+                              <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${ABSENCE_STATUS_LABELS[r.status].color}`}>
+                                {ABSENCE_STATUS_LABELS[r.status].label}
+                              </span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">{r.reason}</p>
+                            {r.note_name && (
+                              <a href={`/api/absence-requests/${r.id}/note`} className="inline-flex items-center gap-1 text-xs text-emerald-600 hover:underline mt-1">
+                                <FileText size={12} />
+                                {r.note_name}
+                              </a>
+                            )}
+                            {r.decision_note && <p className="text-xs text-gray-400 italic mt-1">{r.decided_by}: {r.decision_note}</p>}
+                          </div>
+                        )) : (
+                          <p className="text-sm text-gray-400 text-center py-4 italic">Belum ada pengajuan izin</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {studentDetail.alerts && studentDetail.alerts.length > 0 && (
+                    <div className="bg-white p-6 rounded-2xl shadow-sm border border-red-100">
+                      <h3 className="font-semibold flex items-center gap-2 mb-4">
+                        <AlertTriangle size={18} className="text-red-500" />
+                        Peringatan
+                      </h3>
+                      <div className="space-y-3">
+                        {studentDetail.alerts.map(a => (
+                          <div key={a.id} className="p-3 bg-red-50 rounded-xl">
+                            <p className="text-sm text-red-700">{a.message}</p>
+                            <div className="flex justify-end gap-2 mt-2">
+                              {a.status === 'open' ? (
+                                <button onClick={() => handleAlertAction(a, 'acknowledge')} className="text-[10px] text-amber-600 font-bold uppercase hover:underline">
+                                  Tindak Lanjuti
+                                </button>
+                              ) : (
+                                <span className="text-[10px] text-amber-700 font-bold uppercase">Ditindaklanjuti</span>
+                              )}
+                              <button onClick={() => handleAlertAction(a, 'resolve')} className="text-[10px] text-emerald-600 font-bold uppercase hover:underline">
+                                Selesai
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {canManageClass(user, studentDetail.class_id) && studentDetail.parents && (
+                    <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                      <h3 className="font-semibold flex items-center gap-2 mb-6">
+                        <Link2 size={18} className="text-emerald-600" />
+                        Akun Orang Tua
+                      </h3>
+                      <div className="space-y-3 mb-4">
+                        {studentDetail.parents.length > 0 ? (
+                          studentDetail.parents.map(p => (
+                            <div key={p.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                              <span className="text-sm font-medium font-mono">{p.username}</span>
+                              <button 
+                                onClick={() => handleUnlinkParent(p.id)}
+                                className="text-gray-400 hover:text-red-500 transition-colors"
+                              >
+                                <X size={16} />
+                              </button>
+                            </div>
+                          ))
+                        ) : (
+                          <p className="text-sm text-gray-400 text-center py-2 italic">Belum ada akun orang tua</p>
+                        )}
+                      </div>
+                      <form onSubmit={handleLinkParent} className="space-y-2">
+                        <input 
+                          type="text" 
+                          required
+                          placeholder="Username orang tua"
+                          className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                          value={parentLinkForm.username}
+                          onChange={e => setParentLinkForm({...parentLinkForm, username: e.target.value})}
+                        />
+                        <FieldError message={parentLinkErrors.username} />
+                        <input 
+                          type="password" 
+                          placeholder="Password (untuk akun baru)"
+                          className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                          value={parentLinkForm.password}
+                          onChange={e => setParentLinkForm({...parentLinkForm, password: e.target.value})}
+                        />
+                        <FieldError message={parentLinkErrors.password} />
+                        {parentLinkMessage && <p className="text-red-500 text-xs">{parentLinkMessage}</p>}
+                        <button 
+                          type="submit"
+                          className="w-full text-xs text-emerald-600 font-bold uppercase py-2 rounded-lg hover:bg-emerald-50 transition-colors"
+                        >
+                          Hubungkan
+                        </button>
+                      </form>
+                    </div>
+                  )}
                 </div>
 
                 {/* Grades & Behavior */}
                 <div className="lg:col-span-2 space-y-8">
-                  <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div id="section-grades" className="bg-white p-6 rounded-2xl shadow-sm border border-black/5 scroll-mt-8">
                     <div className="flex items-center justify-between mb-6">
                       <h3 className="font-semibold flex items-center gap-2">
                         <GraduationCap size={18} className="text-blue-600" />
                         Nilai Akademik
                       </h3>
-                      {user.role === 'teacher' && (
-                        <button className="text-xs text-blue-600 font-bold uppercase hover:underline">Tambah Nilai</button>
+                      {gradableSubjectIds(user, studentDetail.class_id)?.length !== 0 && (
+                        <button 
+                          onClick={() => openGradeForm()}
+                          className="text-xs text-blue-600 font-bold uppercase hover:underline"
+                        >
+                          Tambah Nilai
+                        </button>
                       )}
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       {studentDetail.grades.length > 0 ? (
-                        studentDetail.grades.map(g => (
-                          <div key={g.id} className="p-4 border border-black/5 rounded-xl flex items-center justify-between">
+                        studentDetail.grades.map(g => recordEdit?.kind === 'grades' && recordEdit.id === g.id ? (
+                          <form key={g.id} onSubmit={handleSaveRecordEdit} className="p-4 border border-blue-200 rounded-xl space-y-2">
+                            <select
+                              required
+                              className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                              value={recordEdit.subject_id}
+                              onChange={e => setRecordEdit({ ...recordEdit, subject_id: e.target.value ? Number(e.target.value) : '' })}
+                            >
+                              {gradableSubjects(studentDetail.class_id).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                            <select
+                              required
+                              className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                              value={recordEdit.assessment_type_id}
+                              onChange={e => setRecordEdit({ ...recordEdit, assessment_type_id: e.target.value ? Number(e.target.value) : '' })}
+                            >
+                              {assessmentTypes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                            <div className="flex gap-2">
+                              <input
+                                type="number"
+                                required
+                                min={0}
+                                max={100}
+                                className="w-20 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                value={recordEdit.score}
+                                onChange={e => setRecordEdit({ ...recordEdit, score: e.target.value })}
+                              />
+                              <input
+                                type="date"
+                                required
+                                className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                value={recordEdit.date}
+                                onChange={e => setRecordEdit({ ...recordEdit, date: e.target.value })}
+                              />
+                            </div>
+                            <div className="flex justify-end gap-2">
+                              <button type="button" onClick={() => setRecordEdit(null)} className="text-xs text-gray-500 font-bold uppercase px-2 py-1">Batal</button>
+                              <button type="submit" className="text-xs text-blue-600 font-bold uppercase px-2 py-1 hover:underline">Simpan</button>
+                            </div>
+                          </form>
+                        ) : (
+                          <div
+                            key={g.id}
+                            className={`group p-4 border rounded-xl flex items-center justify-between ${g.below_kkm && g.remedial_status !== 'retake' ? 'border-red-200 bg-red-50/40' : 'border-black/5'}`}
+                          >
                             <div>
                               <p className="text-sm font-semibold">{g.subject}</p>
-                              <p className="text-xs text-gray-400">{new Date(g.date).toLocaleDateString('id-ID')}</p>
+                              <p className="text-xs text-gray-400">
+                                {g.assessment_type} · {new Date(g.date).toLocaleDateString('id-ID')} · KKM {g.kkm}
+                              </p>
+                              {g.remedial_status && (
+                                <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${REMEDIAL_LABELS[g.remedial_status].color}`}>
+                                  {REMEDIAL_LABELS[g.remedial_status].label}
+                                </span>
+                              )}
+                              {canGrade(user, studentDetail.class_id, g.subject_id) && g.remedial_status && g.remedial_status !== 'retake' && g.remedial_status !== 'passed' && (
+                                <button onClick={() => openGradeForm(g)} className="block mt-1 text-[10px] text-blue-600 font-bold uppercase hover:underline">
+                                  Input Remedial
+                                </button>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3">
+                              {canGrade(user, studentDetail.class_id, g.subject_id) && (
+                                <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                  <button
+                                    onClick={() => setRecordEdit({
+                                      kind: 'grades',
+                                      id: g.id,
+                                      subject_id: g.subject_id,
+                                      assessment_type_id: g.assessment_type_id,
+                                      score: String(g.score),
+                                      date: g.date
+                                    })}
+                                    className="text-gray-300 hover:text-blue-600 transition-colors"
+                                  >
+                                    <Pencil size={14} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteRecord('grades', g, 'Nilai')}
+                                    className="text-gray-300 hover:text-red-500 transition-colors"
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                </div>
+                              )}
+                              <div className={`text-2xl font-light ${g.below_kkm ? 'text-red-600' : 'text-blue-600'}`}>{g.score}</div>
                             </div>
-                            <div className="text-2xl font-light text-blue-600">{g.score}</div>
                           </div>
                         ))
                       ) : (
                         <p className="text-sm text-gray-400 italic">Belum ada data nilai</p>
                       )}
                     </div>
+                    {studentDetail.final_scores.length > 0 && (
+                      <div className="mt-6">
+                        <p className="text-xs text-gray-400 font-bold uppercase mb-2">Nilai Akhir Semester Ini</p>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-400 border-b border-black/5">
+                              <th className="py-2 font-medium">Mata Pelajaran</th>
+                              <th className="py-2 font-medium">Komponen</th>
+                              <th className="py-2 font-medium text-center">KKM</th>
+                              <th className="py-2 font-medium text-center">Nilai Akhir</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {studentDetail.final_scores.map(f => (
+                              <tr key={f.subject_id} className="border-b border-black/5 last:border-0">
+                                <td className="py-2 font-medium">{f.subject}</td>
+                                <td className="py-2 text-xs text-gray-500">
+                                  {f.components.map(c => `${c.name} ${c.average} (${c.weight}%)`).join(', ')}
+                                </td>
+                                <td className="py-2 text-center text-gray-500">{f.kkm}</td>
+                                <td className={`py-2 text-center font-semibold ${f.passed ? 'text-emerald-600' : 'text-red-600'}`}>{f.final ?? '-'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
                   </div>
 
-                  <div className="bg-white p-6 rounded-2xl shadow-sm border border-black/5">
+                  <div id="section-behavior" className="bg-white p-6 rounded-2xl shadow-sm border border-black/5 scroll-mt-8">
                     <div className="flex items-center justify-between mb-6">
                       <h3 className="font-semibold flex items-center gap-2">
                         <AlertCircle size={18} className="text-amber-600" />
                         Catatan Perilaku
                       </h3>
-                      {user.role === 'teacher' && (
-                        <button className="text-xs text-amber-600 font-bold uppercase hover:underline">Tambah Catatan</button>
+                      {isStaff(user) && (
+                        <button onClick={openBehaviorForm} className="text-xs text-amber-600 font-bold uppercase hover:underline">Tambah Catatan</button>
                       )}
                     </div>
+                    {studentDetail.behavior_points && (
+                      <div className="grid grid-cols-3 gap-4 mb-6">
+                        <div className="p-3 bg-red-50 rounded-xl">
+                          <p className="text-2xl font-light text-red-600">{studentDetail.behavior_points.violation}</p>
+                          <p className="text-xs text-gray-500">Poin pelanggaran</p>
+                        </div>
+                        <div className="p-3 bg-emerald-50 rounded-xl">
+                          <p className="text-2xl font-light text-emerald-600">{studentDetail.behavior_points.achievement}</p>
+                          <p className="text-xs text-gray-500">Poin prestasi</p>
+                        </div>
+                        <div className="p-3 bg-gray-50 rounded-xl">
+                          <p className={`text-2xl font-light ${studentDetail.behavior_points.balance > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                            {studentDetail.behavior_points.balance}
+                          </p>
+                          <p className="text-xs text-gray-500">Saldo semester {studentDetail.behavior_points.term}</p>
+                        </div>
+                      </div>
+                    )}
+                    {studentDetail.followups && studentDetail.followups.length > 0 && (
+                      <div className="space-y-2 mb-6">
+                        {studentDetail.followups.map(f => (
+                          <div key={f.id} className="flex items-center justify-between p-3 border border-black/5 rounded-xl">
+                            <div>
+                              <p className="text-sm font-medium">{f.label}</p>
+                              <p className="text-xs text-gray-400">
+                                {f.points} poin · {f.term} · {new Date(f.created_at).toLocaleDateString('id-ID')}
+                                {f.notes && ` · ${f.notes}`}
+                              </p>
+                            </div>
+                            {f.status === 'open' ? canManageClass(user, f.class_id) && (
+                              <button onClick={() => handleCompleteFollowup(f)} className="text-[10px] text-emerald-600 font-bold uppercase hover:underline">
+                                Selesai
+                              </button>
+                            ) : (
+                              <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700">Selesai</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="space-y-4">
                       {studentDetail.behavior.length > 0 ? (
-                        studentDetail.behavior.map(b => (
-                          <div key={b.id} className={`p-4 rounded-xl border-l-4 ${b.type === 'positive' ? 'bg-emerald-50 border-emerald-500' : 'bg-red-50 border-red-500'}`}>
+                        studentDetail.behavior.map(b => recordEdit?.kind === 'behavior' && recordEdit.id === b.id ? (
+                          <form key={b.id} onSubmit={handleSaveRecordEdit} className="p-4 rounded-xl border border-amber-200 space-y-2">
+                            <div className="flex gap-2">
+                              <select
+                                required
+                                className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500"
+                                value={recordEdit.category_id}
+                                onChange={e => setRecordEdit({ ...recordEdit, category_id: e.target.value ? Number(e.target.value) : '' })}
+                              >
+                                <option value="">Pilih kategori...</option>
+                                {behaviorCategories.map(c => (
+                                  <option key={c.id} value={c.id}>{c.name} ({c.type === 'positive' ? '+' : '-'}{c.points})</option>
+                                ))}
+                              </select>
+                              <input
+                                type="date"
+                                required
+                                className="px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500"
+                                value={recordEdit.date}
+                                onChange={e => setRecordEdit({ ...recordEdit, date: e.target.value })}
+                              />
+                            </div>
+                            <textarea
+                              rows={2}
+                              placeholder="Keterangan (opsional)"
+                              className="w-full px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500"
+                              value={recordEdit.description}
+                              onChange={e => setRecordEdit({ ...recordEdit, description: e.target.value })}
+                            />
+                            <div className="flex justify-end gap-2">
+                              <button type="button" onClick={() => setRecordEdit(null)} className="text-xs text-gray-500 font-bold uppercase px-2 py-1">Batal</button>
+                              <button type="submit" className="text-xs text-amber-600 font-bold uppercase px-2 py-1 hover:underline">Simpan</button>
+                            </div>
+                          </form>
+                        ) : (
+                          <div key={b.id} className={`group p-4 rounded-xl border-l-4 ${b.type === 'positive' ? 'bg-emerald-50 border-emerald-500' : 'bg-red-50 border-red-500'}`}>
                             <div className="flex items-center justify-between mb-1">
                               <span className={`text-[10px] font-bold uppercase ${b.type === 'positive' ? 'text-emerald-700' : 'text-red-700'}`}>
-                                {b.type === 'positive' ? 'Positif' : 'Negatif'}
+                                {b.category ?? (b.type === 'positive' ? 'Positif' : 'Negatif')}
+                                {b.points > 0 && ` · ${b.type === 'positive' ? '+' : '-'}${b.points} poin`}
                               </span>
-                              <span className="text-[10px] text-gray-400">{new Date(b.date).toLocaleDateString('id-ID')}</span>
+                              <div className="flex items-center gap-2">
+                                {isStaff(user) && (
+                                  <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                      onClick={() => setRecordEdit({
+                                        kind: 'behavior',
+                                        id: b.id,
+                                        category_id: b.category_id ?? '',
+                                        // A note saved without a description repeats the category name; edit it as empty
+                                        description: b.description === b.category ? '' : b.description,
+                                        date: b.date
+                                      })}
+                                      className="text-gray-400 hover:text-amber-600 transition-colors"
+                                    >
+                                      <Pencil size={12} />
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeleteRecord('behavior', b, 'Catatan perilaku')}
+                                      className="text-gray-400 hover:text-red-500 transition-colors"
+                                    >
+                                      <Trash2 size={12} />
+                                    </button>
+                                  </div>
+                                )}
+                                <span className="text-[10px] text-gray-400">{new Date(b.date).toLocaleDateString('id-ID')}</span>
+                              </div>
                             </div>
                             <p className="text-sm text-gray-700">{b.description}</p>
                           </div>
@@ -628,6 +4250,734 @@ export default function App() {
           )}
         </AnimatePresence>
       </main>
+
+      {/* Undo toast for record edits and deletes */}
+      <AnimatePresence>
+        {undoAction && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-gray-900 text-white pl-5 pr-3 py-3 rounded-xl shadow-xl flex items-center gap-4 z-50"
+          >
+            <span className="text-sm">{undoAction.message}</span>
+            <button
+              onClick={async () => {
+                const { undo } = undoAction;
+                setUndoAction(null);
+                await undo();
+              }}
+              className="text-sm font-bold text-emerald-400 hover:text-emerald-300 uppercase"
+            >
+              Batalkan
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Student Form Modal */}
+      <AnimatePresence>
+        {studentForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSaveStudent}
+              className="w-full max-w-lg bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">{studentForm.id === null ? 'Tambah Siswa' : 'Edit Siswa'}</h2>
+                <button type="button" onClick={() => setStudentForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Nama Siswa</label>
+                <input 
+                  type="text" 
+                  required
+                  maxLength={100}
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={studentForm.name}
+                  onChange={e => setStudentForm({...studentForm, name: e.target.value})}
+                />
+                <FieldError message={studentFieldErrors.name} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Kelas</label>
+                  <select 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={studentForm.class_id}
+                    onChange={e => setStudentForm({...studentForm, class_id: e.target.value ? Number(e.target.value) : ''})}
+                  >
+                    <option value="">Pilih kelas...</option>
+                    {classes.filter(c => canManageClass(user, c.id)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <FieldError message={studentFieldErrors.class_id} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Telepon</label>
+                  <input 
+                    type="tel" 
+                    placeholder="08123456789"
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={studentForm.phone}
+                    onChange={e => setStudentForm({...studentForm, phone: e.target.value})}
+                  />
+                  <FieldError message={studentFieldErrors.phone} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Nama Orang Tua</label>
+                <input 
+                  type="text" 
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={studentForm.parent_name}
+                  onChange={e => setStudentForm({...studentForm, parent_name: e.target.value})}
+                />
+                <FieldError message={studentFieldErrors.parent_name} />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input 
+                  type="checkbox" 
+                  checked={studentForm.notificationsOptOut}
+                  onChange={e => setStudentForm({...studentForm, notificationsOptOut: e.target.checked})}
+                />
+                Orang tua tidak ingin menerima notifikasi
+              </label>
+
+              {studentForm.id === null && (
+                <div className="pt-2 space-y-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input 
+                      type="checkbox" 
+                      checked={studentForm.createAccount}
+                      onChange={e => setStudentForm({...studentForm, createAccount: e.target.checked})}
+                    />
+                    Buat akun login siswa
+                  </label>
+                  {studentForm.createAccount && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <input 
+                          type="text" 
+                          required
+                          placeholder="Username"
+                          className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                          value={studentForm.username}
+                          onChange={e => setStudentForm({...studentForm, username: e.target.value})}
+                        />
+                        <FieldError message={studentFieldErrors['account.username']} />
+                      </div>
+                      <div>
+                        <input 
+                          type="password" 
+                          required
+                          minLength={6}
+                          placeholder="Password"
+                          className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                          value={studentForm.password}
+                          onChange={e => setStudentForm({...studentForm, password: e.target.value})}
+                        />
+                        <FieldError message={studentFieldErrors['account.password']} />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {studentFormError && (
+                <p className="text-red-500 text-sm text-center font-medium">{studentFormError}</p>
+              )}
+
+              <button 
+                type="submit"
+                disabled={studentFormSaving}
+                className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200 disabled:opacity-50"
+              >
+                {studentFormSaving ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Grade Form Modal */}
+      <AnimatePresence>
+        {gradeForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSaveGrade}
+              className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">{gradeForm.remedial_of ? 'Input Remedial' : 'Tambah Nilai'}</h2>
+                <button type="button" onClick={() => setGradeForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+
+              {gradeForm.remedial_of ? (
+                <p className="text-sm text-gray-500">
+                  Remedial untuk {gradeForm.remedial_of.assessment_type} {gradeForm.remedial_of.subject} tanggal{' '}
+                  {new Date(gradeForm.remedial_of.date).toLocaleDateString('id-ID')} (nilai {gradeForm.remedial_of.score}, KKM {gradeForm.remedial_of.kkm}).
+                  Nilai remedial dihitung paling tinggi sebesar KKM.
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Mata Pelajaran</label>
+                    <select 
+                      required
+                      className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all"
+                      value={gradeForm.subject_id}
+                      onChange={e => setGradeForm({...gradeForm, subject_id: e.target.value ? Number(e.target.value) : ''})}
+                    >
+                      <option value="">Pilih mata pelajaran...</option>
+                      {gradableSubjects(studentDetail?.class_id ?? null).map(sub => <option key={sub.id} value={sub.id}>{sub.name}</option>)}
+                    </select>
+                    <FieldError message={gradeFieldErrors.subject_id} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Jenis Penilaian</label>
+                    <select 
+                      required
+                      className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all"
+                      value={gradeForm.assessment_type_id}
+                      onChange={e => setGradeForm({...gradeForm, assessment_type_id: e.target.value ? Number(e.target.value) : ''})}
+                    >
+                      <option value="">Pilih jenis penilaian...</option>
+                      {assessmentTypes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <FieldError message={gradeFieldErrors.assessment_type_id} />
+                  </div>
+                </>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Nilai</label>
+                  <input 
+                    type="number" 
+                    required
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all"
+                    value={gradeForm.score}
+                    onChange={e => setGradeForm({...gradeForm, score: e.target.value})}
+                  />
+                  <FieldError message={gradeFieldErrors.score} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Tanggal</label>
+                  <input 
+                    type="date" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all"
+                    value={gradeForm.date}
+                    onChange={e => setGradeForm({...gradeForm, date: e.target.value})}
+                  />
+                  <FieldError message={gradeFieldErrors.date} />
+                </div>
+              </div>
+
+              {(gradeFormError || gradeFieldErrors.student_id || gradeFieldErrors.remedial_of) && (
+                <p className="text-red-500 text-sm text-center font-medium">
+                  {gradeFormError || gradeFieldErrors.student_id || gradeFieldErrors.remedial_of}
+                </p>
+              )}
+
+              <button 
+                type="submit"
+                className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200"
+              >
+                Simpan Nilai
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Behavior Form Modal */}
+      <AnimatePresence>
+        {behaviorForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSaveBehavior}
+              className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">Tambah Catatan Perilaku</h2>
+                <button type="button" onClick={() => setBehaviorForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Kategori</label>
+                <select 
+                  required
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500 transition-all"
+                  value={behaviorForm.category_id}
+                  onChange={e => setBehaviorForm({...behaviorForm, category_id: e.target.value ? Number(e.target.value) : ''})}
+                >
+                  <option value="">Pilih kategori...</option>
+                  <optgroup label="Pelanggaran">
+                    {behaviorCategories.filter(c => c.type === 'negative').map(c => <option key={c.id} value={c.id}>{c.name} (-{c.points})</option>)}
+                  </optgroup>
+                  <optgroup label="Prestasi">
+                    {behaviorCategories.filter(c => c.type === 'positive').map(c => <option key={c.id} value={c.id}>{c.name} (+{c.points})</option>)}
+                  </optgroup>
+                </select>
+                <FieldError message={behaviorFieldErrors.category_id} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Tanggal</label>
+                <input 
+                  type="date" 
+                  required
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500 transition-all"
+                  value={behaviorForm.date}
+                  onChange={e => setBehaviorForm({...behaviorForm, date: e.target.value})}
+                />
+                <FieldError message={behaviorFieldErrors.date} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Keterangan</label>
+                <textarea 
+                  rows={3}
+                  placeholder="Opsional"
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500 transition-all"
+                  value={behaviorForm.description}
+                  onChange={e => setBehaviorForm({...behaviorForm, description: e.target.value})}
+                />
+                <FieldError message={behaviorFieldErrors.description} />
+              </div>
+
+              {(behaviorFormError || behaviorFieldErrors.student_id) && (
+                <p className="text-red-500 text-sm text-center font-medium">{behaviorFormError || behaviorFieldErrors.student_id}</p>
+              )}
+
+              <button 
+                type="submit"
+                className="w-full bg-amber-500 text-white py-3 rounded-xl font-bold hover:bg-amber-600 transition-all shadow-lg shadow-amber-200"
+              >
+                Simpan Catatan
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Staff Account Modal */}
+      <AnimatePresence>
+        {staffForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSaveStaff}
+              className="w-full max-w-lg bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4 max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">{staffForm.id === null ? 'Tambah Akun' : `Edit ${staffForm.username}`}</h2>
+                <button type="button" onClick={() => setStaffForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Nama Lengkap</label>
+                <input 
+                  type="text" 
+                  required
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={staffForm.full_name}
+                  onChange={e => setStaffForm({...staffForm, full_name: e.target.value})}
+                />
+                <FieldError message={staffFieldErrors.full_name} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Username</label>
+                  <input 
+                    type="text" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={staffForm.username}
+                    onChange={e => setStaffForm({...staffForm, username: e.target.value})}
+                  />
+                  <FieldError message={staffFieldErrors.username} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Peran</label>
+                  <select 
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={staffForm.role}
+                    onChange={e => setStaffForm({...staffForm, role: e.target.value as StaffRole})}
+                  >
+                    {STAFF_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                  <FieldError message={staffFieldErrors.role} />
+                </div>
+              </div>
+              {staffForm.id === null && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Password</label>
+                  <input 
+                    type="password" 
+                    required
+                    minLength={6}
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={staffForm.password}
+                    onChange={e => setStaffForm({...staffForm, password: e.target.value})}
+                  />
+                  <FieldError message={staffFieldErrors.password} />
+                </div>
+              )}
+
+              {staffForm.role === 'teacher' && (
+                <div className="space-y-2">
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider">Tugas Mengajar</label>
+                  {staffForm.assignments.map((a, i) => (
+                    <div key={i}>
+                      <div className="flex items-center gap-2">
+                        <select 
+                          className="flex-1 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                          value={a.subject_id}
+                          onChange={e => updateAssignment(i, 'subject_id', e.target.value)}
+                        >
+                          <option value="">Mata pelajaran</option>
+                          {subjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                        <select 
+                          className="w-32 px-3 py-2 text-sm bg-gray-50 border border-black/5 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                          value={a.class_id}
+                          onChange={e => updateAssignment(i, 'class_id', e.target.value)}
+                        >
+                          <option value="">Kelas</option>
+                          {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                        <button 
+                          type="button"
+                          onClick={() => setStaffForm({...staffForm, assignments: staffForm.assignments.filter((_, j) => j !== i)})}
+                          className="text-gray-400 hover:text-red-500 transition-colors"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                      <FieldError message={staffFieldErrors[`assignments.${i}.subject_id`] ?? staffFieldErrors[`assignments.${i}.class_id`]} />
+                    </div>
+                  ))}
+                  <FieldError message={staffFieldErrors.assignments} />
+                  <button 
+                    type="button"
+                    onClick={() => setStaffForm({...staffForm, assignments: [...staffForm.assignments, { subject_id: '', class_id: '' }]})}
+                    className="text-xs text-emerald-600 font-bold uppercase flex items-center gap-1 hover:text-emerald-700"
+                  >
+                    <Plus size={14} />
+                    Tambah Tugas
+                  </button>
+                </div>
+              )}
+
+              {staffFormError && (
+                <p className="text-red-500 text-sm text-center font-medium">{staffFormError}</p>
+              )}
+
+              <button 
+                type="submit"
+                className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
+              >
+                Simpan Akun
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+        {schoolForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSaveSchool}
+              className="w-full max-w-lg bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4 max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">Tambah Sekolah</h2>
+                <button type="button" onClick={() => setSchoolForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Nama Sekolah</label>
+                <input 
+                  type="text" 
+                  required
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={schoolForm.name}
+                  onChange={e => setSchoolForm({...schoolForm, name: e.target.value})}
+                />
+                <FieldError message={schoolFieldErrors.name} />
+              </div>
+              <p className="text-sm text-gray-500">Admin pertama sekolah ini mengatur kelas, mata pelajaran dan akun guru.</p>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Nama Admin</label>
+                <input 
+                  type="text" 
+                  required
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={schoolForm.admin_full_name}
+                  onChange={e => setSchoolForm({...schoolForm, admin_full_name: e.target.value})}
+                />
+                <FieldError message={schoolFieldErrors.admin_full_name} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Username</label>
+                  <input 
+                    type="text" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={schoolForm.admin_username}
+                    onChange={e => setSchoolForm({...schoolForm, admin_username: e.target.value})}
+                  />
+                  <FieldError message={schoolFieldErrors.admin_username} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Password</label>
+                  <input 
+                    type="password" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={schoolForm.admin_password}
+                    onChange={e => setSchoolForm({...schoolForm, admin_password: e.target.value})}
+                  />
+                  <FieldError message={schoolFieldErrors.admin_password} />
+                </div>
+              </div>
+
+              {schoolFormError && (
+                <p className="text-red-500 text-sm text-center font-medium">{schoolFormError}</p>
+              )}
+
+              <button 
+                type="submit"
+                className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
+              >
+                Simpan Sekolah
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+        {absenceForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSaveAbsenceRequest}
+              className="w-full max-w-lg bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4 max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">Ajukan Izin</h2>
+                <button type="button" onClick={() => setAbsenceForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+              <p className="text-sm text-gray-500">Wali kelas {studentDetail?.name} akan memeriksa pengajuan ini.</p>
+
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Jenis</label>
+                <select
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={absenceForm.type}
+                  onChange={e => setAbsenceForm({...absenceForm, type: e.target.value as AbsenceRequestInput['type']})}
+                >
+                  <option value="sick">Sakit</option>
+                  <option value="excused">Izin</option>
+                </select>
+                <FieldError message={absenceFieldErrors.type} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Dari Tanggal</label>
+                  <input 
+                    type="date" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={absenceForm.start_date}
+                    onChange={e => setAbsenceForm({...absenceForm, start_date: e.target.value})}
+                  />
+                  <FieldError message={absenceFieldErrors.start_date} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Sampai Tanggal</label>
+                  <input 
+                    type="date" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={absenceForm.end_date}
+                    onChange={e => setAbsenceForm({...absenceForm, end_date: e.target.value})}
+                  />
+                  <FieldError message={absenceFieldErrors.end_date} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Alasan</label>
+                <textarea 
+                  required
+                  rows={3}
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={absenceForm.reason}
+                  onChange={e => setAbsenceForm({...absenceForm, reason: e.target.value})}
+                />
+                <FieldError message={absenceFieldErrors.reason} />
+              </div>
+              <div>
+                <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Surat Keterangan (opsional)</span>
+                <label className="block px-4 py-3 bg-gray-50 border border-black/5 rounded-xl cursor-pointer hover:bg-gray-100 transition-all text-sm text-gray-500 truncate">
+                  {absenceForm.note ? absenceForm.note.file_name : 'Pilih file (.pdf, .jpg, .png)'}
+                  <input type="file" accept=".pdf,.jpg,.jpeg,.png" className="hidden" onChange={handleAbsenceNote} />
+                </label>
+                <p className="text-xs text-gray-400 mt-1">Surat dokter atau surat dari orang tua, PDF/JPG/PNG maksimal 5 MB</p>
+                <FieldError message={absenceFieldErrors.note ?? absenceFieldErrors['note.content']} />
+              </div>
+
+              {absenceFormError && (
+                <p className="text-red-500 text-sm text-center font-medium">{absenceFormError}</p>
+              )}
+
+              <button 
+                type="submit"
+                className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
+              >
+                Kirim Pengajuan
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Password Modal */}
+      <AnimatePresence>
+        {passwordForm && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/30 flex items-center justify-center p-4 z-50"
+          >
+            <motion.form 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              onSubmit={handleSavePassword}
+              className="w-full max-w-md bg-white p-8 rounded-3xl shadow-xl border border-black/5 space-y-4"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">
+                  {passwordForm.mode === 'change' ? 'Ganti Password' : `Reset Password ${passwordForm.username}`}
+                </h2>
+                <button type="button" onClick={() => setPasswordForm(null)} className="text-gray-400 hover:text-gray-600">
+                  <X size={20} />
+                </button>
+              </div>
+
+              {passwordForm.mode === 'change' && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Password Lama</label>
+                  <input 
+                    type="password" 
+                    required
+                    className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                    value={passwordForm.current}
+                    onChange={e => setPasswordForm({...passwordForm, current: e.target.value})}
+                  />
+                  <FieldError message={passwordFieldErrors.current_password} />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Password Baru</label>
+                <input 
+                  type="password" 
+                  required
+                  minLength={6}
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={passwordForm.next}
+                  onChange={e => setPasswordForm({...passwordForm, next: e.target.value})}
+                />
+                <FieldError message={passwordFieldErrors.new_password} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Konfirmasi Password Baru</label>
+                <input 
+                  type="password" 
+                  required
+                  minLength={6}
+                  className="w-full px-4 py-3 bg-gray-50 border border-black/5 rounded-xl focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+                  value={passwordForm.confirm}
+                  onChange={e => setPasswordForm({...passwordForm, confirm: e.target.value})}
+                />
+                <FieldError message={passwordFieldErrors.confirm} />
+              </div>
+
+              {passwordMessage && (
+                <p className="text-red-500 text-sm text-center font-medium">{passwordMessage}</p>
+              )}
+
+              <button 
+                type="submit"
+                className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-200"
+              >
+                Simpan Password
+              </button>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,108 @@
+// Record writes (attendance, grades, behavior) that could not reach the server wait in IndexedDB, so they
+// survive a reload, until the connection is back. Every write keeps the Idempotency-Key of its first
+// attempt: when an attempt timed out after the server had already saved it, the replay is answered from
+// the server's record of that key instead of saving it twice.
+
+export type QueuedWrite = {
+  key: string; // Idempotency-Key, also the IndexedDB key
+  user_id: number; // only replayed for the account that made it
+  url: string;
+  method: 'POST';
+  body: unknown;
+  label: string; // shown in the pending-sync list, e.g. "Nilai Matematika - Ahmad"
+  created_at: string;
+};
+
+export type RejectedWrite = { write: QueuedWrite; message: string };
+
+const DB_NAME = 'monitoring-siswa';
+const STORE = 'pending_writes';
+
+// A request that hangs this long on a bad connection is queued rather than left spinning
+const SEND_TIMEOUT_MS = 15 * 1000;
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// crypto.randomUUID is only available over HTTPS; schools often open the app by LAN address over plain HTTP
+const newKey = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+// Oldest first, the order they were made in
+export const listQueuedWrites = async (userId: number) =>
+  (await withStore<QueuedWrite[]>('readonly', store => store.getAll()))
+    .filter(w => w.user_id === userId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+const removeQueuedWrite = (key: string) => withStore('readwrite', store => store.delete(key));
+
+const send = (write: QueuedWrite) =>
+  fetch(write.url, {
+    method: write.method,
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': write.key },
+    body: JSON.stringify(write.body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+
+// Sends a write, or queues it when the network fails. Any answer from the server, errors included, is
+// returned as is; only a missing answer means queued.
+export const sendWrite = async (write: Omit<QueuedWrite, 'key' | 'created_at'>): Promise<Response | null> => {
+  const queued: QueuedWrite = { ...write, key: newKey(), created_at: new Date().toISOString() };
+  if (navigator.onLine) {
+    try {
+      return await send(queued);
+    } catch {
+      // fall through and keep it for later
+    }
+  }
+  await withStore('readwrite', store => store.put(queued));
+  return null;
+};
+
+// The server answers 403 both without a session and when the account may not make the write (e.g. a
+// teacher who is no longer wali kelas of the class); only the first is worth waiting out
+const stillSignedIn = async (userId: number) => {
+  try {
+    const res = await fetch('/api/me');
+    return res.ok && (await res.json()).id === userId;
+  } catch {
+    return false;
+  }
+};
+
+// Sends the queue in order. Stops at the first network failure, server error or expired session so the rest
+// keeps its order for the next try. Writes the server rejects (4xx) are dropped and returned to show the user.
+export const replayQueuedWrites = async (userId: number) => {
+  let sent = 0;
+  const rejected: RejectedWrite[] = [];
+  for (const write of await listQueuedWrites(userId)) {
+    let res: Response;
+    try {
+      res = await send(write);
+    } catch {
+      break;
+    }
+    if (res.status >= 500 || res.status === 401) break;
+    if (res.status === 403 && !(await stillSignedIn(userId))) break;
+    if (res.ok) sent++;
+    else rejected.push({ write, message: (await res.json().catch(() => null))?.message ?? 'Ditolak server' });
+    await removeQueuedWrite(write.key);
+  }
+  return { sent, rejected };
+};
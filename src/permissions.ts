@@ -0,0 +1,60 @@
+// Who may do what, shared by the server (which enforces it) and the app (which hides what can't be done).
+// Every account except the foundation (yayasan) belongs to one school and only ever reaches that school's data.
+// The foundation adds schools and sees figures across them, but no student records.
+// Admins manage users and school-wide settings and are not limited to any class. A teacher's reach comes
+// from their assignments: as wali kelas (homeroom teacher) they look after the students and attendance of
+// that class, and as subject teacher they grade their subjects in the classes they teach.
+
+export const ROLES = ['foundation', 'admin', 'teacher', 'student', 'parent'] as const;
+export type Role = typeof ROLES[number];
+
+export const STAFF_ROLES = ['admin', 'teacher'] as const;
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export type TeachingAssignment = { subject_id: number; class_id: number };
+
+export type TeacherScope = {
+  homeroom_class_ids: number[];
+  assignments: TeachingAssignment[];
+};
+
+// scope is loaded for teachers only; admins have none because they aren't limited
+export type Actor = { role: Role; scope?: TeacherScope | null };
+
+const NO_SCOPE: TeacherScope = { homeroom_class_ids: [], assignments: [] };
+
+const scopeOf = (actor: Actor) => actor.scope ?? NO_SCOPE;
+
+export const isFoundation = (actor: Actor) => actor.role === 'foundation';
+
+export const isAdmin = (actor: Actor) => actor.role === 'admin';
+
+export const isStaff = (actor: Actor) => actor.role === 'admin' || actor.role === 'teacher';
+
+// Classes a teacher sees students of; null means every class
+export const visibleClassIds = (actor: Actor): number[] | null => {
+  if (isAdmin(actor)) return null;
+  if (actor.role !== 'teacher') return [];
+  const scope = scopeOf(actor);
+  return [...new Set([...scope.homeroom_class_ids, ...scope.assignments.map(a => a.class_id)])];
+};
+
+export const canSeeClass = (actor: Actor, classId: number | null) => {
+  const ids = visibleClassIds(actor);
+  return ids === null || (classId !== null && ids.includes(classId));
+};
+
+// Student data, parent accounts, attendance and the class rapor belong to the wali kelas
+export const canManageClass = (actor: Actor, classId: number | null) =>
+  isAdmin(actor) || (actor.role === 'teacher' && classId !== null && scopeOf(actor).homeroom_class_ids.includes(classId));
+
+// Classes whose students and attendance the actor manages; null means every class
+export const managedClassIds = (actor: Actor): number[] | null =>
+  isAdmin(actor) ? null : actor.role === 'teacher' ? scopeOf(actor).homeroom_class_ids : [];
+
+export const canGrade = (actor: Actor, classId: number | null, subjectId: number) =>
+  isAdmin(actor) || (actor.role === 'teacher' && scopeOf(actor).assignments.some(a => a.class_id === classId && a.subject_id === subjectId));
+
+// Subjects the actor may grade in a class; null means all of them
+export const gradableSubjectIds = (actor: Actor, classId: number | null): number[] | null =>
+  isAdmin(actor) ? null : scopeOf(actor).assignments.filter(a => a.class_id === classId).map(a => a.subject_id);
@@ -0,0 +1,88 @@
+// Client-side routes. Every screen has its own URL so it can be bookmarked, shared and reached with the
+// browser's back button; the server answers every non-API path with index.html and the app picks the
+// screen from location.pathname.
+
+import { isAdmin, isFoundation, isStaff, type Role } from './permissions';
+
+export type Tab = 'dashboard' | 'students' | 'attendance' | 'recap' | 'academic' | 'import' | 'notifications' | 'users' | 'schools' | 'backups' | 'my-profile';
+
+export const STUDENT_SECTIONS = ['attendance', 'grades', 'behavior'] as const;
+export type StudentSection = typeof STUDENT_SECTIONS[number];
+
+export type Route =
+  | { page: 'tab'; tab: Tab }
+  | { page: 'student'; studentId: number; section: StudentSection | null }
+  | { page: 'forbidden' }
+  | { page: 'not-found' };
+
+const TAB_PATHS: Record<Tab, string> = {
+  dashboard: '/',
+  students: '/students',
+  attendance: '/attendance',
+  recap: '/recap',
+  academic: '/academic',
+  import: '/import',
+  notifications: '/notifications',
+  users: '/users',
+  schools: '/schools',
+  backups: '/backups',
+  'my-profile': '/profile',
+};
+
+const STAFF_TABS: Tab[] = ['dashboard', 'students', 'attendance', 'recap'];
+
+// School-wide settings, imports, the notification outbox and accounts
+const ADMIN_TABS: Tab[] = ['academic', 'import', 'notifications', 'users'];
+
+// The overview of all schools and the database backups, which span every school
+const FOUNDATION_TABS: Tab[] = ['schools', 'backups'];
+
+export const parsePath = (pathname: string): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const tab = (Object.keys(TAB_PATHS) as Tab[]).find(t => TAB_PATHS[t] === path);
+  if (tab) return { page: 'tab', tab };
+
+  const match = path.match(/^\/students\/(\d+)(?:\/([a-z]+))?$/);
+  if (match) {
+    const section = match[2] ?? null;
+    if (section !== null && !(STUDENT_SECTIONS as readonly string[]).includes(section)) return { page: 'not-found' };
+    return { page: 'student', studentId: Number(match[1]), section: section as StudentSection | null };
+  }
+  return { page: 'not-found' };
+};
+
+export const routePath = (route: Route) => {
+  if (route.page === 'tab') return TAB_PATHS[route.tab];
+  if (route.page === 'student') return `/students/${route.studentId}${route.section ? `/${route.section}` : ''}`;
+  return '/';
+};
+
+type RouteUser = { role: Role; student_id?: number | null; children?: { id: number }[] };
+
+// What the signed-in user actually gets for a route. The server enforces the same rules on the data; this
+// only decides which page to show instead of an empty screen.
+export const guardRoute = (route: Route, user: RouteUser): Route => {
+  if (isFoundation(user)) {
+    if (route.page === 'tab' && route.tab === 'dashboard') return { page: 'tab', tab: 'schools' };
+    if (route.page === 'tab' && FOUNDATION_TABS.includes(route.tab)) return route;
+    return route.page === 'not-found' ? route : { page: 'forbidden' };
+  }
+  if (isStaff(user)) {
+    if (route.page !== 'tab') return route;
+    if (route.tab === 'my-profile') return { page: 'not-found' };
+    if (FOUNDATION_TABS.includes(route.tab)) return { page: 'forbidden' };
+    return ADMIN_TABS.includes(route.tab) && !isAdmin(user) ? { page: 'forbidden' } : route;
+  }
+  if (route.page === 'tab') {
+    // The start page of students and parents is their own profile
+    if (route.tab === 'dashboard') return { page: 'tab', tab: 'my-profile' };
+    return [...STAFF_TABS, ...ADMIN_TABS, ...FOUNDATION_TABS].includes(route.tab) ? { page: 'forbidden' } : route;
+  }
+  if (route.page === 'student') {
+    const allowed = user.role === 'student'
+      ? user.student_id === route.studentId
+      : !!user.children?.some(child => child.id === route.studentId);
+    return allowed ? route : { page: 'forbidden' };
+  }
+  return route;
+};
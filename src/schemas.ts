@@ -0,0 +1,615 @@
+// Request schemas and response types shared by server.ts and App.tsx. A schema both types a request body and
+// validates it, so the forms can check input before sending and the server rejects the same things with the
+// same messages. Nothing here may import Node or browser APIs.
+
+import { STAFF_ROLES, type StaffRole, type TeachingAssignment } from './permissions';
+
+export type FieldErrors = Record<string, string>;
+
+// Body of every error response; `errors` maps request fields (nested ones as "account.username" or
+// "records.2.status") to their message when validation failed
+export type ApiError = { message: string; errors?: FieldErrors };
+
+type Result<T> = { value: T } | { error: string | FieldErrors };
+
+export type Rule<T> = (value: unknown) => Result<T>;
+
+const ok = <T>(value: T): Result<T> => ({ value });
+const fail = (error: string | FieldErrors): Result<never> => ({ error });
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// Forms send numbers from inputs as strings or numbers; both are accepted
+const toNumber = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PHONE_PATTERN = /^\+?[0-9]{8,15}$/;
+
+export const text = (label: string, max = 100): Rule<string> => (value) => {
+  if (typeof value !== 'string' || !value.trim()) return fail(`${label} wajib diisi`);
+  if (value.trim().length > max) return fail(`${label} maksimal ${max} karakter`);
+  return ok(value.trim());
+};
+
+// Not trimmed, since spaces can be part of a password
+export const password = (label: string, min = 6): Rule<string> => (value) => {
+  if (typeof value !== 'string' || value.length === 0) return fail(`${label} wajib diisi`);
+  if (value.length < min) return fail(`${label} minimal ${min} karakter`);
+  if (value.length > 200) return fail(`${label} maksimal 200 karakter`);
+  return ok(value);
+};
+
+export const id = (label: string): Rule<number> => (value) => {
+  if (isBlank(value)) return fail(`${label} wajib dipilih`);
+  const n = toNumber(value);
+  return typeof n === 'number' && Number.isInteger(n) && n > 0 ? ok(n) : fail(`${label} tidak valid`);
+};
+
+export const number = (label: string, min: number, max: number): Rule<number> => (value) => {
+  if (isBlank(value)) return fail(`${label} wajib diisi`);
+  const n = toNumber(value);
+  return typeof n === 'number' && Number.isFinite(n) && n >= min && n <= max ? ok(n) : fail(`${label} harus antara ${min} dan ${max}`);
+};
+
+export const integer = (label: string, min: number, max: number): Rule<number> => (value) => {
+  if (isBlank(value)) return fail(`${label} wajib diisi`);
+  const n = toNumber(value);
+  return typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max
+    ? ok(n)
+    : fail(`${label} harus bilangan bulat antara ${min} dan ${max}`);
+};
+
+// YYYY-MM-DD that is also a real calendar day
+export const date = (label: string): Rule<string> => (value) => {
+  if (isBlank(value)) return fail(`${label} wajib diisi`);
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return fail(`${label} tidak valid`);
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value) ? ok(value) : fail(`${label} tidak valid`);
+};
+
+export const oneOf = <T extends string>(label: string, values: readonly T[]): Rule<T> => (value) => {
+  if (isBlank(value)) return fail(`${label} wajib dipilih`);
+  return values.includes(value as T) ? ok(value as T) : fail(`${label} tidak valid`);
+};
+
+// Spaces and dashes are dropped, so "0812-3456 789" is stored as "08123456789"
+export const phone = (label: string): Rule<string> => (value) => {
+  const normalized = String(value ?? '').replace(/[\s-]/g, '');
+  return PHONE_PATTERN.test(normalized) ? ok(normalized) : fail(`${label} tidak valid`);
+};
+
+export const flag: Rule<boolean> = (value) => ok(!!value);
+
+// Blank (missing, null or empty string) becomes null instead of an error
+export const optional = <T>(rule: Rule<T>): Rule<T | null> => (value) => isBlank(value) ? ok(null) : rule(value);
+
+export const nested = <T>(inner: Schema<T>): Rule<T> => (value) => {
+  const result = validate(inner, value);
+  return 'errors' in result ? fail(result.errors) : ok(result.value);
+};
+
+// Errors of the items come back keyed by index, e.g. "2.status"
+export const list = <T>(label: string, item: Schema<T>, max = 1000): Rule<T[]> => (value) => {
+  if (!Array.isArray(value)) return fail(`${label} wajib diisi`);
+  if (value.length > max) return fail(`${label} maksimal ${max} baris`);
+  const items: T[] = [];
+  const errors: FieldErrors = {};
+  value.forEach((entry, i) => {
+    const result = validate(item, entry);
+    if ('errors' in result) for (const [field, message] of Object.entries(result.errors)) errors[`${i}.${field}`] = message;
+    else items.push(result.value);
+  });
+  return Object.keys(errors).length > 0 ? fail(errors) : ok(items);
+};
+
+export type Schema<T> = {
+  fields: { [K in keyof T]: Rule<T[K]> };
+  // Checks across fields, run only once every field is valid
+  check?: (value: T) => FieldErrors | null;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export const schema = <T>(fields: { [K in keyof T]: Rule<T[K]> }, check?: (value: T) => FieldErrors | null): Schema<T> =>
+  ({ fields, check });
+
+// Unknown keys are dropped; the value holds only the schema's fields, trimmed and converted
+export const validate = <T>(s: Schema<T>, body: unknown): { value: T } | { errors: FieldErrors } => {
+  const input = (body !== null && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const value = {} as T;
+  const errors: FieldErrors = {};
+  for (const key of Object.keys(s.fields) as (keyof T & string)[]) {
+    const result = s.fields[key](input[key]);
+    if (!('error' in result)) value[key] = result.value;
+    else if (typeof result.error === 'string') errors[key] = result.error;
+    else for (const [field, message] of Object.entries(result.error)) errors[`${key}.${field}`] = message;
+  }
+  if (Object.keys(errors).length > 0) return { errors };
+  const crossErrors = s.check?.(value);
+  return crossErrors ? { errors: crossErrors } : { value };
+};
+
+// --- Shared values ---
+
+// excused is izin: absent with the school's permission, e.g. through an approved absence request
+export const ATTENDANCE_STATUSES = ['present', 'late', 'sick', 'excused', 'absent'] as const;
+
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+export const BEHAVIOR_TYPES = ['positive', 'negative'] as const;
+
+export type BehaviorType = typeof BEHAVIOR_TYPES[number];
+
+export const CALENDAR_ENTRY_TYPES = ['holiday', 'non_school'] as const;
+
+export type CalendarEntryType = typeof CALENDAR_ENTRY_TYPES[number];
+
+// The attendance status an approved absence request writes
+export const ABSENCE_TYPES = ['sick', 'excused'] as const;
+
+export type AbsenceType = typeof ABSENCE_TYPES[number];
+
+export const ABSENCE_REQUEST_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type AbsenceRequestStatus = typeof ABSENCE_REQUEST_STATUSES[number];
+
+// Longest absence one request may cover, in calendar days
+export const MAX_ABSENCE_DAYS = 14;
+
+// --- Request schemas ---
+
+const dateRange = <T extends { start_date: string; end_date: string }>(value: T): FieldErrors | null =>
+  value.start_date > value.end_date ? { end_date: "Tanggal selesai tidak boleh sebelum tanggal mulai" } : null;
+
+export const loginSchema = schema({
+  username: text('Username', 50),
+  password: password('Password', 1),
+});
+
+export const passwordChangeSchema = schema({
+  current_password: password('Password lama', 1),
+  new_password: password('Password baru'),
+});
+
+export const passwordResetSchema = schema({
+  new_password: password('Password baru'),
+});
+
+export const studentAccountSchema = schema({
+  username: text('Username', 50),
+  password: password('Password'),
+});
+
+export const studentSchema = schema({
+  name: text('Nama siswa'),
+  class_id: id('Kelas'),
+  parent_name: optional(text('Nama orang tua')),
+  phone: optional(phone('Nomor telepon')),
+  notifications_opt_out: flag,
+  account: optional(nested(studentAccountSchema)), // only read when creating a student
+});
+
+export type StudentInput = Infer<typeof studentSchema>;
+
+// The password is only needed when the username doesn't have an account yet
+export const parentLinkSchema = schema({
+  username: text('Username', 50),
+  password: optional(password('Password')),
+});
+
+// homeroom_teacher is the name printed on the rapor; homeroom_teacher_id the account that manages the class
+export const classSchema = schema({
+  name: text('Nama kelas'),
+  homeroom_teacher: optional(text('Wali kelas')),
+  homeroom_teacher_id: optional(id('Akun wali kelas')),
+});
+
+export const teachingAssignmentSchema = schema({
+  subject_id: id('Mata pelajaran'),
+  class_id: id('Kelas'),
+});
+
+// The password is only needed for a new account; on an existing one it is reset with reset-password
+export const staffUserSchema = schema({
+  username: text('Username', 50),
+  full_name: text('Nama lengkap'),
+  role: oneOf('Peran', STAFF_ROLES),
+  password: optional(password('Password')),
+  assignments: list('Tugas mengajar', teachingAssignmentSchema, 200),
+});
+
+export type StaffUserInput = Infer<typeof staffUserSchema>;
+
+// A new school comes with its first admin account, who sets up everything else
+export const schoolSchema = schema({
+  name: text('Nama sekolah'),
+  admin_username: text('Username admin', 50),
+  admin_full_name: text('Nama admin'),
+  admin_password: password('Password admin'),
+});
+
+export type SchoolInput = Infer<typeof schoolSchema>;
+
+export const subjectSchema = schema({
+  name: text('Nama mata pelajaran'),
+  code: optional(text('Kode mata pelajaran', 20)),
+});
+
+export const academicYearSchema = schema({
+  name: text('Nama tahun ajaran'),
+  start_date: date('Tanggal mulai'),
+  end_date: date('Tanggal selesai'),
+}, dateRange);
+
+export const termSchema = schema({
+  academic_year_id: id('Tahun ajaran'),
+  name: text('Nama semester'),
+  start_date: date('Tanggal mulai'),
+  end_date: date('Tanggal selesai'),
+}, dateRange);
+
+export const termUpdateSchema = schema({
+  name: text('Nama semester'),
+  start_date: date('Tanggal mulai'),
+  end_date: date('Tanggal selesai'),
+}, dateRange);
+
+export const settingsSchema = schema({
+  school_name: optional(text('Nama sekolah', 200)),
+  school_address: optional(text('Alamat sekolah', 300)),
+  school_city: optional(text('Kota', 100)),
+});
+
+export const calendarEntrySchema = schema({
+  start_date: date('Tanggal mulai'),
+  end_date: date('Tanggal selesai'),
+  type: oneOf('Jenis hari libur', CALENDAR_ENTRY_TYPES),
+  description: text('Keterangan', 200),
+}, dateRange);
+
+// Query string of the date-range endpoints
+export const dateRangeQuerySchema = schema({
+  from: date('Tanggal mulai'),
+  to: date('Tanggal selesai'),
+}, (value) => value.from > value.to ? { to: "Tanggal selesai tidak boleh sebelum tanggal mulai" } : null);
+
+// Query string of the roll call of one class on one day
+export const rollQuerySchema = schema({
+  class_id: id('Kelas'),
+  date: date('Tanggal'),
+});
+
+export const auditQuerySchema = schema({
+  from: optional(date('Tanggal mulai')),
+  to: optional(date('Tanggal selesai')),
+});
+
+export const attendanceSchema = schema({
+  student_id: id('Siswa'),
+  date: date('Tanggal'),
+  status: oneOf('Status kehadiran', ATTENDANCE_STATUSES),
+});
+
+export const attendanceBatchSchema = schema({
+  date: date('Tanggal'),
+  records: list('Data kehadiran', schema({
+    student_id: id('Siswa'),
+    status: oneOf('Status kehadiran', ATTENDANCE_STATUSES),
+  })),
+});
+
+export const attendanceUpdateSchema = schema({
+  status: oneOf('Status kehadiran', ATTENDANCE_STATUSES),
+});
+
+export const gradeSchema = schema({
+  student_id: id('Siswa'),
+  subject_id: id('Mata pelajaran'),
+  assessment_type_id: id('Jenis penilaian'),
+  score: number('Nilai', 0, 100),
+  date: date('Tanggal'),
+  remedial_of: optional(id('Nilai asal remedial')),
+});
+
+export const gradeUpdateSchema = schema({
+  subject_id: id('Mata pelajaran'),
+  assessment_type_id: id('Jenis penilaian'),
+  score: number('Nilai', 0, 100),
+  date: date('Tanggal'),
+});
+
+// The category decides positive/negative and the points; the description is an optional note on top
+export const behaviorSchema = schema({
+  student_id: id('Siswa'),
+  category_id: id('Kategori perilaku'),
+  description: optional(text('Deskripsi catatan', 500)),
+  date: date('Tanggal'),
+});
+
+export const behaviorUpdateSchema = schema({
+  category_id: id('Kategori perilaku'),
+  description: optional(text('Deskripsi catatan', 500)),
+  date: date('Tanggal'),
+});
+
+export const behaviorCategorySchema = schema({
+  name: text('Nama kategori'),
+  type: oneOf('Jenis kategori', BEHAVIOR_TYPES),
+  points: integer('Poin', 0, 1000),
+});
+
+export const sanctionThresholdSchema = schema({
+  points: integer('Poin', 1, 1000),
+  enabled: flag,
+});
+
+// note is an optional doctor's note or letter, base64-encoded like spreadsheet imports
+export const absenceRequestSchema = schema({
+  type: oneOf('Jenis izin', ABSENCE_TYPES),
+  start_date: date('Tanggal mulai'),
+  end_date: date('Tanggal selesai'),
+  reason: text('Alasan', 500),
+  note: optional(nested(schema({
+    file_name: text('Nama file', 255),
+    content: text('Surat keterangan', 7_000_000),
+  }))),
+}, (value) => {
+  const days = (Date.parse(value.end_date) - Date.parse(value.start_date)) / (24 * 60 * 60 * 1000) + 1;
+  if (days < 1) return { end_date: "Tanggal selesai tidak boleh sebelum tanggal mulai" };
+  return days > MAX_ABSENCE_DAYS ? { end_date: `Izin maksimal ${MAX_ABSENCE_DAYS} hari per pengajuan` } : null;
+});
+
+export type AbsenceRequestInput = Infer<typeof absenceRequestSchema>;
+
+export const absenceDecisionSchema = schema({
+  decision_note: optional(text('Catatan', 500)),
+});
+
+export const followupCompleteSchema = schema({
+  notes: optional(text('Catatan', 500)),
+});
+
+// window_days is required for every rule except consecutive_absences; the server checks that against the rule
+export const alertRuleSchema = schema({
+  threshold: number('Ambang batas', 1, 100),
+  window_days: optional(integer('Periode', 1, 365)),
+  enabled: flag,
+});
+
+export const notificationTemplateSchema = schema({
+  body: text('Isi pesan', 1000),
+  enabled: flag,
+});
+
+export const subjectGradingSchema = schema({
+  weights: list('Bobot', schema({
+    assessment_type_id: id('Jenis penilaian'),
+    weight: number('Bobot', 0, 100),
+  })),
+  kkm: list('KKM', schema({
+    class_id: id('Kelas'),
+    score: number('KKM', 0, 100),
+  })),
+}, (value) => Math.abs(value.weights.reduce((sum, w) => sum + w.weight, 0) - 100) > 0.01 ? { weights: "Jumlah bobot harus 100" } : null);
+
+// Spreadsheet column index (0-based) for each import field, or null when the field isn't in the file
+const columnMapping: Rule<Record<string, number | null>> = (value) => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return fail("Pemetaan kolom tidak valid");
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.some(([, column]) => column !== null && !(Number.isInteger(column) && (column as number) >= 0))) {
+    return fail("Pemetaan kolom tidak valid");
+  }
+  return ok(Object.fromEntries(entries) as Record<string, number | null>);
+};
+
+export const importSchema = schema({
+  file_name: text('Nama file', 255),
+  content: text('File', 20_000_000), // base64
+  mapping: optional(columnMapping),
+  commit: flag,
+});
+
+// --- Response types ---
+
+export type ClassItem = {
+  id: number;
+  name: string;
+  homeroom_teacher: string | null;
+  homeroom_teacher_id: number | null;
+  student_count: number;
+};
+
+export type StaffUser = {
+  id: number;
+  username: string;
+  full_name: string | null;
+  role: StaffRole;
+  homeroom_class_ids: number[];
+  assignments: TeachingAssignment[];
+};
+
+export type Subject = {
+  id: number;
+  name: string;
+  code: string | null;
+};
+
+export type AcademicYear = {
+  id: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+};
+
+export type Term = {
+  id: number;
+  academic_year_id: number;
+  academic_year: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+};
+
+export type Student = {
+  id: number;
+  name: string;
+  class_id: number;
+  class: string;
+  parent_name: string;
+  phone: string;
+  notifications_opt_out: number;
+};
+
+export type Attendance = {
+  id: number;
+  student_id: number;
+  date: string;
+  status: AttendanceStatus;
+};
+
+export type CalendarEntry = { id: number; start_date: string; end_date: string; type: CalendarEntryType; description: string };
+
+export type RemedialStatus = 'required' | 'passed' | 'failed' | 'retake';
+
+export type AssessmentType = { id: number; code: string; name: string; default_weight: number };
+
+export type Grade = {
+  id: number;
+  student_id: number;
+  subject_id: number;
+  subject: string;
+  assessment_type_id: number;
+  assessment_type: string;
+  remedial_of: number | null;
+  term_id: number | null;
+  score: number;
+  date: string;
+  kkm: number;
+  below_kkm: boolean;
+  remedial_status: RemedialStatus | null;
+};
+
+export type FinalScore = {
+  subject_id: number;
+  subject: string;
+  kkm: number;
+  components: { assessment_type_id: number; name: string; weight: number; average: number; count: number }[];
+  final: number | null;
+  passed: boolean | null;
+};
+
+export type Behavior = {
+  id: number;
+  student_id: number;
+  category_id: number | null;
+  category: string | null;
+  type: BehaviorType;
+  points: number;
+  description: string;
+  date: string;
+};
+
+export type BehaviorCategory = { id: number; name: string; type: BehaviorType; points: number };
+
+export type BehaviorPoints = {
+  term_id: number;
+  term: string;
+  violation: number; // poin pelanggaran
+  achievement: number; // poin prestasi
+  balance: number; // violation minus achievement, what sanction thresholds are checked against
+};
+
+export type SchoolSettings = {
+  school_name: string;
+  school_address: string;
+  school_city: string;
+};
+
+export type AlertRuleType = 'consecutive_absences' | 'low_subject_average' | 'negative_behavior';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export type AlertRule = {
+  id: number;
+  type: AlertRuleType;
+  threshold: number;
+  window_days: number | null;
+  enabled: number;
+};
+
+export type AlertItem = {
+  id: number;
+  student_id: number;
+  student_name: string;
+  class: string | null;
+  rule_type: AlertRuleType;
+  status: AlertStatus;
+  message: string;
+  value: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type NotificationEvent = 'absent_today' | 'negative_behavior' | 'new_grade';
+
+export type RecapTotals = { hadir: number; sakit: number; izin: number; alpa: number };
+
+export type AttendanceRecap = {
+  class: string;
+  month: string; // YYYY-MM
+  days: string[];
+  rows: { student_id: number; name: string; cells: Record<string, string>; totals: RecapTotals }[];
+};
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'archive' | 'link' | 'unlink' | 'password';
+
+// A row of the audit log as listed, with the before/after snapshots parsed back into objects
+export type AuditLogEntry = {
+  id: number;
+  user_id: number | null;
+  username: string;
+  action: AuditAction;
+  entity: string;
+  entity_id: number | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  summary: string;
+  created_at: string;
+};
+
+// 'pre-restore' is the copy taken automatically right before a restore, so the restore itself can be undone
+export type BackupKind = 'manual' | 'daily' | 'pre-restore';
+
+export type BackupSnapshot = { name: string; kind: BackupKind; created_at: string; size: number };
+
+// What the foundation sees of each school: totals and last-30-day figures, never individual records
+export type SchoolStats = {
+  id: number;
+  name: string;
+  created_at: string;
+  students: number;
+  staff: number;
+  attendance_rate: number | null;
+  average_score: number | null;
+  negative_behavior: number;
+  open_alerts: number;
+};
+
+export type AbsenceRequest = {
+  id: number;
+  student_id: number;
+  student_name: string;
+  class_id: number | null;
+  class: string | null;
+  type: AbsenceType;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  note_name: string | null; // original file name of the attached note, if any
+  status: AbsenceRequestStatus;
+  requested_by: string; // username
+  created_at: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+};
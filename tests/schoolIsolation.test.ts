@@ -0,0 +1,125 @@
+// Data of one school never reaches another school's accounts
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+let db: TestServer['db'];
+let api: TestServer['api'];
+
+const ids = (sql: string, ...params: unknown[]) => new Set((db.prepare(sql).all(...params) as { id: number }[]).map(r => r.id));
+
+const today = () => new Date().toISOString().split("T")[0];
+
+let admin1: string;
+let admin2: string;
+let school1Student: number;
+let school1Note: number;
+
+before(async () => {
+  server = await startTestServer();
+  ({ db, api } = server);
+  const { login } = server;
+
+  admin1 = await login("admin", "admin123");
+  admin2 = await login("admin2", "admin123");
+  school1Student = (db.prepare("SELECT id FROM students WHERE school_id = 1 ORDER BY id LIMIT 1").get() as { id: number }).id;
+
+  // Records in school 1 that a leak would show to school 2: attendance (with its audit entries), an alert,
+  // and an absence request with a doctor's note
+  const attendance = await api(admin1, "/api/attendance", {
+    method: "POST",
+    body: JSON.stringify({ student_id: school1Student, date: today(), status: "absent" }),
+  });
+  assert.equal(attendance.status, 200);
+  db.prepare(`
+    INSERT INTO alerts (student_id, rule_type, status, message, value, created_at, updated_at)
+    VALUES (?, 'consecutive_absences', 'open', 'Alpa 3 hari berturut-turut', 3, ?, ?)
+  `).run(school1Student, new Date().toISOString(), new Date().toISOString());
+
+  const student = await login("ahmad", "siswa123");
+  const request = await api(student, `/api/students/${school1Student}/absence-requests`, {
+    method: "POST",
+    body: JSON.stringify({
+      type: "sick",
+      start_date: today(),
+      end_date: today(),
+      reason: "Demam",
+      note: { file_name: "surat.pdf", content: Buffer.from("%PDF-1.4 surat dokter").toString("base64") },
+    }),
+  });
+  assert.equal(request.status, 201);
+  school1Note = (await request.json()).id;
+});
+
+after(() => server?.stop());
+
+describe("records of another school", () => {
+  for (const url of [
+    () => `/api/students/${school1Student}`,
+    () => `/api/students/${school1Student}/attendance`,
+    () => `/api/reports/students/${school1Student}`,
+    () => `/api/absence-requests/${school1Note}/note`,
+  ]) {
+    test(`are not found or forbidden: ${url().replace(/\d+/g, ":id")}`, async () => {
+      const res = await api(admin2, url());
+      assert.ok([403, 404].includes(res.status), `got ${res.status}`);
+    });
+  }
+
+  test("are reachable by their own school", async () => {
+    const res = await api(admin1, `/api/absence-requests/${school1Note}/note`);
+    assert.equal(res.status, 200);
+  });
+});
+
+describe("lists of school 2", () => {
+  test("students only holds school 2's students", async () => {
+    const res = await api(admin2, "/api/students?limit=200");
+    assert.equal(res.status, 200);
+    const body = await res.json() as { total: number; students: { id: number }[] };
+    const own = ids("SELECT id FROM students WHERE school_id = 2 AND archived_at IS NULL");
+    assert.equal(body.total, own.size);
+    for (const s of body.students) assert.ok(own.has(s.id), `student ${s.id}`);
+  });
+
+  test("alerts only holds school 2's alerts", async () => {
+    const res = await api(admin2, "/api/alerts");
+    assert.equal(res.status, 200);
+    const own = ids("SELECT id FROM students WHERE school_id = 2");
+    for (const a of await res.json() as { student_id: number }[]) assert.ok(own.has(a.student_id), `alert of student ${a.student_id}`);
+  });
+
+  test("audit only holds school 2's entries", async () => {
+    const res = await api(admin2, "/api/audit?limit=500");
+    assert.equal(res.status, 200);
+    const own = ids("SELECT id FROM audit_log WHERE school_id = 2");
+    assert.ok(ids("SELECT id FROM audit_log WHERE school_id = 1").size > 0);
+    for (const e of (await res.json() as { entries: { id: number }[] }).entries) assert.ok(own.has(e.id), `audit entry ${e.id}`);
+  });
+
+  test("stats only count school 2", async () => {
+    const res = await api(admin2, "/api/stats");
+    assert.equal(res.status, 200);
+    const stats = await res.json() as { totalStudents: number; attendanceToday: { count: number }[]; classBreakdown: { id: number }[] };
+    assert.equal(stats.totalStudents, ids("SELECT id FROM students WHERE school_id = 2 AND archived_at IS NULL").size);
+    const recordedToday = (db.prepare(`
+      SELECT COUNT(*) as count FROM attendance a JOIN students s ON s.id = a.student_id
+      WHERE s.school_id = 2 AND a.date = ? AND a.deleted_at IS NULL
+    `).get(today()) as { count: number }).count;
+    assert.equal(stats.attendanceToday.reduce((sum, row) => sum + row.count, 0), recordedToday);
+    const own = ids("SELECT id FROM classes WHERE school_id = 2");
+    for (const c of stats.classBreakdown) assert.ok(own.has(c.id), `class ${c.id}`);
+  });
+});
+
+describe("sessions", () => {
+  test("a session whose school no longer matches its account is rejected", async () => {
+    const session = await server.login("admin2", "admin123");
+    assert.equal((await api(session, "/api/students")).status, 200);
+    db.prepare("UPDATE sessions SET school_id = 1 WHERE token = ?").run(session.split("=")[1]);
+    assert.equal((await api(session, "/api/me")).status, 401);
+    assert.equal((await api(session, "/api/students")).status, 403);
+  });
+});
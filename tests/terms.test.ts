@@ -0,0 +1,55 @@
+// A term stays while anything still points at it
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { startTestServer, type TestServer } from "./testServer";
+
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+  server = await startTestServer();
+  admin = await server.login("admin", "admin123");
+});
+
+after(() => server?.stop());
+
+const createTerm = async (name: string, start_date: string, end_date: string) => {
+  const year = await server.api(admin, "/api/academic-years", {
+    method: "POST",
+    body: JSON.stringify({ name, start_date, end_date }),
+  });
+  assert.equal(year.status, 201);
+  const term = await server.api(admin, "/api/terms", {
+    method: "POST",
+    body: JSON.stringify({ academic_year_id: (await year.json()).id, name: "Ganjil", start_date, end_date }),
+  });
+  assert.equal(term.status, 201);
+  return (await term.json()).id as number;
+};
+
+test("an unused term can be deleted", async () => {
+  const termId = await createTerm("2040/2041", "2040-07-16", "2040-12-20");
+  const res = await server.api(admin, `/api/terms/${termId}`, { method: "DELETE" });
+  assert.equal(res.status, 200);
+});
+
+test("a term with behavior follow-ups is in use", async () => {
+  const termId = await createTerm("2041/2042", "2041-07-15", "2041-12-19");
+  const { db } = server;
+  // Any violation crosses the first threshold, so one behavior note opens a follow-up in the new term
+  db.prepare("UPDATE sanction_thresholds SET points = 1 WHERE school_id = 1").run();
+  const student = db.prepare("SELECT id FROM students WHERE school_id = 1 ORDER BY id LIMIT 1").get() as { id: number };
+  const category = db.prepare("SELECT id FROM behavior_categories WHERE school_id = 1 AND type = 'negative' LIMIT 1").get() as { id: number };
+  const behavior = await server.api(admin, "/api/behavior", {
+    method: "POST",
+    body: JSON.stringify({ student_id: student.id, category_id: category.id, date: "2041-08-01" }),
+  });
+  assert.equal(behavior.status, 201);
+  assert.ok(db.prepare("SELECT 1 FROM behavior_followups WHERE term_id = ?").get(termId));
+
+  const res = await server.api(admin, `/api/terms/${termId}`, { method: "DELETE" });
+  assert.equal(res.status, 409);
+  assert.match((await res.json()).message, /masih dipakai/);
+  assert.ok(db.prepare("SELECT 1 FROM terms WHERE id = ?").get(termId));
+});
@@ -0,0 +1,75 @@
+// Starts the real server against a fresh demo database in a temporary folder, on a free port. The demo data
+// has two schools; school 1's admin is admin, school 2's is admin2.
+
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+const ROOT = path.resolve(import.meta.dirname, "..");
+
+const freePort = () => new Promise<number>((resolve, reject) => {
+  const probe = net.createServer().listen(0, () => {
+    const { port } = probe.address() as net.AddressInfo;
+    probe.close(() => resolve(port));
+  });
+  probe.on("error", reject);
+});
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
+
+export const startTestServer = async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "school-test-"));
+  const port = await freePort();
+  const base = `http://127.0.0.1:${port}`;
+  const server = spawn(path.join(ROOT, "node_modules", ".bin", "tsx"), [path.join(ROOT, "server.ts")], {
+    cwd: dir,
+    env: { ...process.env, PORT: String(port), NODE_ENV: "production", SEED_DEMO_DATA: "true" },
+    stdio: "ignore",
+  });
+
+  let opened: Database.Database | undefined;
+  const stop = () => {
+    opened?.close();
+    server.kill();
+    fs.rmSync(dir, { recursive: true, force: true });
+  };
+
+  for (let i = 0; ; i++) {
+    if (server.exitCode !== null || i === 120) {
+      stop();
+      throw new Error(server.exitCode !== null ? `Server exited with code ${server.exitCode}` : "Server did not start");
+    }
+    try {
+      await fetch(`${base}/api/me`);
+      break;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+  // Tests read the data directly, and write what no route can set up
+  const db = opened = new Database(path.join(dir, "school.db"));
+
+  const login = async (username: string, password: string) => {
+    const res = await fetch(`${base}/api/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+    });
+    assert.equal(res.status, 200, `login ${username}`);
+    const cookie = res.headers.getSetCookie().find(c => c.startsWith("session="));
+    assert.ok(cookie, `session cookie for ${username}`);
+    return cookie.split(";")[0];
+  };
+
+  const api = (session: string, url: string, init: RequestInit = {}) =>
+    fetch(`${base}${url}`, {
+      ...init,
+      headers: { ...(init.body ? { "Content-Type": "application/json" } : {}), ...init.headers, Cookie: session },
+    });
+
+  return { db, login, api, stop };
+};